@@ -0,0 +1,115 @@
+import { createClient } from '@supabase/supabase-js';
+import { logger } from '../src/utils/logger.js';
+import { toIngredientColumns } from '../src/utils/ingredient-parser.js';
+import type { Database } from '../src/types/supabase.js';
+
+type IngredientRow = {
+  id: string;
+  raw_text: string;
+  quantity: number | null;
+  unit: string | null;
+  ingredient_name: string | null;
+};
+
+const PAGE_SIZE = 500;
+
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !supabaseServiceRoleKey) {
+  throw new Error('Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY for backfill.');
+}
+
+const supabaseAdmin = createClient<Database>(supabaseUrl, supabaseServiceRoleKey);
+
+const parseRow = (row: IngredientRow): { changed: boolean; update: IngredientRow } => {
+  const columns = toIngredientColumns(row.raw_text);
+  const currentQuantity = row.quantity === null ? null : Number(row.quantity);
+
+  return {
+    changed:
+      currentQuantity !== columns.quantity ||
+      row.unit !== columns.unit ||
+      row.ingredient_name !== columns.ingredient_name,
+    update: {
+      id: row.id,
+      raw_text: row.raw_text,
+      ...columns,
+    },
+  };
+};
+
+const run = async (): Promise<void> => {
+  let page = 0;
+  let totalUpdated = 0;
+
+  while (true) {
+    const from = page * PAGE_SIZE;
+    const to = from + PAGE_SIZE - 1;
+
+    const { data, error } = await supabaseAdmin
+      .from('recipe_ingredients')
+      .select('id, raw_text, quantity, unit, ingredient_name')
+      .order('id', { ascending: true })
+      .range(from, to);
+
+    if (error) {
+      const details = [error.code, error.details, error.hint].filter(Boolean).join(' | ');
+      throw new Error(`Failed to fetch ingredients: ${error.message}${details ? ` (${details})` : ''}`);
+    }
+
+    if (!data || data.length === 0) {
+      break;
+    }
+
+    const updates = data
+      .map((row) => parseRow(row as IngredientRow))
+      .filter((result) => result.changed)
+      .map((result) => result.update);
+
+    if (updates.length > 0) {
+      let batchUpdated = 0;
+      for (const update of updates) {
+        const { error: updateError } = await supabaseAdmin
+          .from('recipe_ingredients')
+          .update({
+            quantity: update.quantity,
+            unit: update.unit,
+            ingredient_name: update.ingredient_name,
+          })
+          .eq('id', update.id);
+
+        if (updateError) {
+          const details = [updateError.code, updateError.details, updateError.hint].filter(Boolean).join(' | ');
+          throw new Error(
+            `Failed to update ingredient ${update.id}: ${updateError.message}${details ? ` (${details})` : ''}`
+          );
+        }
+        batchUpdated += 1;
+      }
+
+      totalUpdated += batchUpdated;
+      logger.info({ page, updates: batchUpdated, totalUpdated }, 'Parsed ingredient batch');
+    } else {
+      logger.info({ page }, 'No ingredient updates needed for batch');
+    }
+
+    if (data.length < PAGE_SIZE) {
+      break;
+    }
+
+    page += 1;
+  }
+
+  logger.info({ totalUpdated }, 'Completed ingredient column backfill');
+};
+
+run().catch((error) => {
+  const err = error as { message?: string; stack?: string };
+  logger.error({
+    message: err?.message ?? 'Unknown error',
+    stack: err?.stack,
+    error,
+  }, 'Ingredient backfill failed');
+  process.exit(1);
+});
@@ -5,6 +5,7 @@ import pinoHttp from 'pino-http';
 import { logger } from './utils/logger.js';
 import { errorHandler } from './middleware/errorHandler.js';
 import { requestId } from './middleware/requestId.js';
+import { envelopeVersion } from './middleware/envelopeVersion.js';
 import { routes } from './routes/index.js';
 
 export const createApp = () => {
@@ -15,7 +16,7 @@ export const createApp = () => {
 
   // Security
   app.use(helmet());
-  app.use(cors({ origin: true, credentials: true }));
+  app.use(cors({ origin: true, credentials: true, exposedHeaders: ['ETag'] }));
 
   // Parsing
   app.use(express.json({ limit: '10mb' }));
@@ -28,6 +29,9 @@ export const createApp = () => {
     }),
   }));
 
+  // Recipe envelope version (Accept-Version)
+  app.use(envelopeVersion);
+
   // Routes
   app.use('/api/v1', routes);
 
@@ -12,6 +12,8 @@ const envSchema = z.object({
   // OpenAI
   OPENAI_API_KEY: z.string().min(1).optional(),
   OPENAI_MODEL: z.string(),
+  // Vision-capable model for image imports (defaults to OPENAI_MODEL)
+  OPENAI_VISION_MODEL: z.string().optional(),
   OPENAI_MAX_COMPLETION_TOKENS: z.string().transform(Number),
   DALLE_MODEL: z.string(),
 
@@ -22,6 +24,9 @@ const envSchema = z.object({
   DAILY_AI_GENERATION_LIMIT: z.string().transform(Number),
   DAILY_IMPORT_LIMIT: z.string().transform(Number),
 
+  // Days a deleted recipe stays restorable before the purge job removes it
+  RECIPE_TRASH_RETENTION_DAYS: z.string().default('30').transform(Number),
+
   // Admin controls
   DAILY_GENERATION_ADMIN_EMAILS: z.string().optional(),
   DAILY_GENERATION_ADMIN_USER_IDS: z.string().optional(),
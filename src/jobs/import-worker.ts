@@ -0,0 +1,35 @@
+import { importService } from '../services/import.service.js';
+import { logger } from '../utils/logger.js';
+
+const BATCH_SIZE = 5;
+// Stop claiming new batches after this so scheduled runs do not overlap
+const MAX_RUNTIME_MS = 4 * 60 * 1000;
+
+async function run(): Promise<number> {
+  const startedAt = Date.now();
+  let processed = 0;
+
+  while (Date.now() - startedAt < MAX_RUNTIME_MS) {
+    const jobs = await importService.claimJobs(BATCH_SIZE);
+    if (jobs.length === 0) {
+      break;
+    }
+
+    for (const job of jobs) {
+      await importService.processJob(job);
+      processed += 1;
+    }
+  }
+
+  return processed;
+}
+
+run()
+  .then((processed) => {
+    logger.info({ processed }, 'Import worker run complete');
+    process.exit(0);
+  })
+  .catch((err) => {
+    logger.error({ err }, 'Import worker run failed');
+    process.exit(1);
+  });
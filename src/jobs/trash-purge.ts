@@ -0,0 +1,31 @@
+import { trashService } from '../services/trash.service.js';
+import { logger } from '../utils/logger.js';
+
+const BATCH_SIZE = 100;
+// Stop starting new batches after this so scheduled runs do not overlap
+const MAX_RUNTIME_MS = 4 * 60 * 1000;
+
+async function run(): Promise<number> {
+  const startedAt = Date.now();
+  let purged = 0;
+
+  while (Date.now() - startedAt < MAX_RUNTIME_MS) {
+    const result = await trashService.purgeExpired(BATCH_SIZE);
+    purged += result.purged;
+    if (result.purged < BATCH_SIZE) {
+      break;
+    }
+  }
+
+  return purged;
+}
+
+run()
+  .then((purged) => {
+    logger.info({ purged }, 'Trash purge run complete');
+    process.exit(0);
+  })
+  .catch((err) => {
+    logger.error({ err }, 'Trash purge run failed');
+    process.exit(1);
+  });
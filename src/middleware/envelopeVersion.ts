@@ -0,0 +1,68 @@
+import { Request, Response, NextFunction } from 'express';
+import { BadRequestError } from '../utils/errors.js';
+import {
+  CURRENT_ENVELOPE_VERSION,
+  SUPPORTED_ENVELOPE_VERSIONS,
+  downgradeRecipeData,
+  downgradeRecipeEnvelope,
+} from '../schemas/envelope.js';
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value && typeof value === 'object' && !Array.isArray(value));
+
+// Full envelopes (e.g. `save_payload`) and bare recipes under `recipe_data`
+const downgradePayload = (value: unknown, version: number, key?: string): unknown => {
+  if (Array.isArray(value)) {
+    return value.map((item) => downgradePayload(item, version, key));
+  }
+  if (!isObject(value)) {
+    return value;
+  }
+  if (value.format === 'whatEat-recipe' && value.version === CURRENT_ENVELOPE_VERSION) {
+    return downgradeRecipeEnvelope(value, version);
+  }
+  if (key === 'recipe_data') {
+    return downgradeRecipeData(value, version);
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([childKey, child]) => [childKey, downgradePayload(child, version, childKey)])
+  );
+};
+
+/**
+ * Envelope version negotiation. `Accept-Version: N` asks for recipes in
+ * envelope version N; JSON responses are downgraded from the current version.
+ * The chosen version is on `res.locals.envelopeVersion`.
+ */
+export const envelopeVersion = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  res.setHeader('Vary', 'Accept-Version');
+
+  const header = req.headers['accept-version'];
+  if (header === undefined) {
+    res.locals.envelopeVersion = CURRENT_ENVELOPE_VERSION;
+    next();
+    return;
+  }
+
+  const version = Number(String(header).trim().replace(/^v/i, ''));
+  if (!SUPPORTED_ENVELOPE_VERSIONS.includes(version)) {
+    next(new BadRequestError('Unsupported Accept-Version', {
+      supported_versions: SUPPORTED_ENVELOPE_VERSIONS,
+    }));
+    return;
+  }
+
+  res.locals.envelopeVersion = version;
+  res.setHeader('Content-Version', String(version));
+
+  if (version < CURRENT_ENVELOPE_VERSION) {
+    const json = res.json.bind(res);
+    res.json = (body: unknown) => json(downgradePayload(body, version));
+  }
+
+  next();
+};
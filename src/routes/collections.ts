@@ -0,0 +1,328 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { requireAuth, AuthenticatedRequest } from '../middleware/auth.js';
+import { collectionService, MAX_COLLECTION_RECIPES } from '../services/collection.service.js';
+import { BadRequestError } from '../utils/errors.js';
+import { withRecipeOwnership } from '../utils/recipe-payload.js';
+
+const router = Router();
+
+const paginationSchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+// Same filters as the feed (comma-separated), plus a title search
+const recipeListSchema = paginationSchema.extend({
+  cuisine: z.string().optional(),
+  tags: z.string().optional(),
+  dietary_labels: z.string().optional(),
+  search: z.string().optional(),
+});
+
+const collectionFieldsSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().trim().max(500).nullable().optional(),
+  cover_image_url: z.string().url().max(2000).nullable().optional(),
+});
+
+const createCollectionSchema = collectionFieldsSchema.extend({
+  recipe_ids: z.array(z.string().uuid()).max(100).optional(),
+});
+
+const updateCollectionSchema = collectionFieldsSchema.partial();
+
+const addRecipesSchema = z.object({
+  recipe_ids: z.array(z.string().uuid()).min(1).max(100),
+});
+
+const reorderCollectionsSchema = z.object({
+  collection_ids: z.array(z.string().uuid()).min(1).max(500),
+});
+
+const reorderRecipesSchema = z.object({
+  recipe_ids: z.array(z.string().uuid()).min(1).max(MAX_COLLECTION_RECIPES),
+});
+
+// ============================================================================
+// Public Routes (no auth required)
+// ============================================================================
+
+/**
+ * GET /collections/shared/:token
+ * View a shared collection (public access)
+ */
+router.get('/shared/:token', async (req: Request, res: Response, next) => {
+  try {
+    const collection = await collectionService.getSharedCollection(req.params.token);
+
+    res.json({ collection });
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * GET /collections/shared/:token/recipes
+ * Recipes of a shared collection, paginated and filterable (public access)
+ */
+router.get('/shared/:token/recipes', async (req: Request, res: Response, next) => {
+  try {
+    const { page, limit, ...filters } = recipeListSchema.parse(req.query);
+
+    const result = await collectionService.listSharedRecipes(req.params.token, page, limit, filters);
+
+    res.json({
+      recipes: result.recipes,
+      pagination: result.pagination,
+    });
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * GET /collections/shared/:token/recipes/:recipeId
+ * A recipe of a shared collection with full details (public access)
+ */
+router.get('/shared/:token/recipes/:recipeId', async (req: Request, res: Response, next) => {
+  try {
+    const { token, recipeId } = req.params;
+
+    const envelope = await collectionService.getSharedRecipe(token, recipeId);
+
+    res.json({ recipe_data: withRecipeOwnership(envelope.recipe, { isUserOwned: false }) });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// ============================================================================
+// Protected Routes (auth required)
+// ============================================================================
+
+/**
+ * GET /collections
+ * List user's collections in their chosen order
+ */
+router.get('/', requireAuth, async (req, res: Response, next) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { page, limit } = paginationSchema.parse(req.query);
+
+    const result = await collectionService.listCollections(authReq.userId, page, limit);
+
+    res.json({
+      collections: result.collections,
+      pagination: result.pagination,
+    });
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * POST /collections
+ * Create a collection, optionally with recipes
+ */
+router.post('/', requireAuth, async (req, res: Response, next) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const payload = createCollectionSchema.parse(req.body);
+
+    const collection = await collectionService.createCollection(authReq.userId, payload);
+
+    res.status(201).json({ collection });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return next(new BadRequestError('Invalid collection payload'));
+    }
+    next(err);
+  }
+});
+
+/**
+ * PUT /collections/order
+ * Reorder collections; listed ids come first, the rest keep their order
+ */
+router.put('/order', requireAuth, async (req, res: Response, next) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { collection_ids } = reorderCollectionsSchema.parse(req.body);
+
+    const collections = await collectionService.reorderCollections(authReq.userId, collection_ids);
+
+    res.json({ collections });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return next(new BadRequestError('Invalid collection order'));
+    }
+    next(err);
+  }
+});
+
+/**
+ * GET /collections/:id
+ * Get a collection
+ */
+router.get('/:id', requireAuth, async (req, res: Response, next) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+
+    const collection = await collectionService.getCollection(authReq.userId, req.params.id);
+
+    res.json({ collection });
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * PATCH /collections/:id
+ * Rename a collection or change its description or cover
+ */
+router.patch('/:id', requireAuth, async (req, res: Response, next) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const payload = updateCollectionSchema.parse(req.body);
+
+    const collection = await collectionService.updateCollection(authReq.userId, req.params.id, payload);
+
+    res.json({ collection });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return next(new BadRequestError('Invalid collection payload'));
+    }
+    next(err);
+  }
+});
+
+/**
+ * DELETE /collections/:id
+ * Delete a collection (its recipes are kept)
+ */
+router.delete('/:id', requireAuth, async (req, res: Response, next) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+
+    await collectionService.deleteCollection(authReq.userId, req.params.id);
+
+    res.status(204).send();
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * GET /collections/:id/recipes
+ * Recipes of a collection in collection order, paginated and filterable
+ */
+router.get('/:id/recipes', requireAuth, async (req, res: Response, next) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { page, limit, ...filters } = recipeListSchema.parse(req.query);
+
+    const result = await collectionService.listRecipes(authReq.userId, req.params.id, page, limit, filters);
+
+    res.json({
+      recipes: result.recipes,
+      pagination: result.pagination,
+    });
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * POST /collections/:id/recipes
+ * Add owned or feed recipes to the end of a collection
+ */
+router.post('/:id/recipes', requireAuth, async (req, res: Response, next) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { recipe_ids } = addRecipesSchema.parse(req.body);
+
+    const collection = await collectionService.addRecipes(authReq.userId, req.params.id, recipe_ids);
+
+    res.json({ collection });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return next(new BadRequestError('Invalid recipe ids'));
+    }
+    next(err);
+  }
+});
+
+/**
+ * PUT /collections/:id/recipes/order
+ * Reorder a collection's recipes; listed ids come first, the rest keep their order
+ */
+router.put('/:id/recipes/order', requireAuth, async (req, res: Response, next) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { recipe_ids } = reorderRecipesSchema.parse(req.body);
+
+    await collectionService.reorderRecipes(authReq.userId, req.params.id, recipe_ids);
+
+    res.status(204).send();
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return next(new BadRequestError('Invalid recipe order'));
+    }
+    next(err);
+  }
+});
+
+/**
+ * DELETE /collections/:id/recipes/:recipeId
+ * Remove a recipe from a collection (the recipe itself is kept)
+ */
+router.delete('/:id/recipes/:recipeId', requireAuth, async (req, res: Response, next) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { id, recipeId } = req.params;
+
+    await collectionService.removeRecipe(authReq.userId, id, recipeId);
+
+    res.status(204).send();
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * POST /collections/:id/share
+ * Create (or return) the collection's share link
+ */
+router.post('/:id/share', requireAuth, async (req, res: Response, next) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+
+    const shareToken = await collectionService.shareCollection(authReq.userId, req.params.id);
+
+    res.status(201).json({
+      share_token: shareToken,
+      share_url: `/collections/shared/${shareToken}`,
+    });
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * DELETE /collections/:id/share
+ * Revoke the collection's share link
+ */
+router.delete('/:id/share', requireAuth, async (req, res: Response, next) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+
+    await collectionService.unshareCollection(authReq.userId, req.params.id);
+
+    res.status(204).send();
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
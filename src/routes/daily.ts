@@ -4,9 +4,14 @@ import { supabaseAdmin } from '../config/supabase.js';
 import { requireAuth, requireDailyGenerationAdmin, AuthenticatedRequest } from '../middleware/auth.js';
 import { NotFoundError, BadRequestError } from '../utils/errors.js';
 import { dailyGenerationService } from '../services/daily-generation.service.js';
-import { dbToEnvelope, type RecipeEnvelope } from '../schemas/envelope.js';
-import type { Recipe, RecipeIngredient, RecipeStep, RecipeMedia } from '../types/index.js';
+import type { RecipeEnvelope } from '../schemas/envelope.js';
 import { withRecipeOwnership, type RecipePayload } from '../utils/recipe-payload.js';
+import { MEAL_TYPES, type MealType } from '../utils/meal-types.js';
+import { buildRecipeDataById } from '../utils/recipe-data.js';
+import { preferencesService } from '../services/preferences.service.js';
+import { hasActivePreferences } from '../utils/preferences.js';
+import { buildAllergenWarnings, normalizeAllergens } from '../utils/allergens.js';
+import { preferencesSchema, formatPreferenceIssues } from '../schemas/preferences.js';
 
 const router = Router();
 
@@ -18,8 +23,17 @@ const refreshSchema = z.object({
   count_per_meal: z.coerce.number().int().min(1).max(5).default(2),
 });
 
-const MEAL_TYPES = ['breakfast', 'lunch', 'dinner', 'dessert'] as const;
-type MealType = typeof MEAL_TYPES[number];
+// GET /daily/preferences returns these; legacy clients send them back on PUT
+const legacyPreferencesSchema = z
+  .object({
+    user_id: z.unknown(),
+    created_at: z.unknown(),
+    updated_at: z.unknown(),
+  })
+  .partial()
+  .passthrough()
+  .transform(({ user_id: _userId, created_at: _createdAt, updated_at: _updatedAt, ...fields }) => fields)
+  .pipe(preferencesSchema);
 
 type SuggestionRecipeData = RecipePayload<RecipeEnvelope['recipe']>;
 
@@ -33,6 +47,7 @@ type SuggestionRow = {
   run_id?: string | null;
   trigger_source?: string;
   rank?: number | null;
+  allergen_warnings: string[];
 };
 
 type PlanItemRow = {
@@ -61,79 +76,13 @@ const pickRandom = <T,>(items: T[], count: number): T[] => {
   return copy.slice(0, count);
 };
 
-const buildRecipeDataById = async (
-  recipeIds: string[]
-): Promise<Map<string, RecipeEnvelope['recipe']>> => {
-  const dataById = new Map<string, RecipeEnvelope['recipe']>();
-  if (recipeIds.length === 0) {
-    return dataById;
-  }
-
-  const { data: recipes, error: recipeError } = await supabaseAdmin
-    .from('recipes')
-    .select('*')
-    .in('id', recipeIds)
-    .is('deleted_at', null);
-
-  if (recipeError) {
-    throw new BadRequestError('Failed to fetch recipes');
-  }
-
-  const [
-    { data: ingredients },
-    { data: steps },
-    { data: media },
-  ] = await Promise.all([
-    supabaseAdmin
-      .from('recipe_ingredients')
-      .select('*')
-      .in('recipe_id', recipeIds)
-      .order('position'),
-    supabaseAdmin
-      .from('recipe_steps')
-      .select('*')
-      .in('recipe_id', recipeIds)
-      .order('position'),
-    supabaseAdmin
-      .from('recipe_media')
-      .select('*')
-      .in('recipe_id', recipeIds)
-      .order('position'),
-  ]);
-
-  const ingredientsByRecipeId = new Map<string, RecipeIngredient[]>();
-  for (const ingredient of ingredients ?? []) {
-    const existing = ingredientsByRecipeId.get(ingredient.recipe_id) ?? [];
-    existing.push(ingredient as RecipeIngredient);
-    ingredientsByRecipeId.set(ingredient.recipe_id, existing);
-  }
-
-  const stepsByRecipeId = new Map<string, RecipeStep[]>();
-  for (const step of steps ?? []) {
-    const existing = stepsByRecipeId.get(step.recipe_id) ?? [];
-    existing.push(step as RecipeStep);
-    stepsByRecipeId.set(step.recipe_id, existing);
-  }
-
-  const mediaByRecipeId = new Map<string, RecipeMedia[]>();
-  for (const item of media ?? []) {
-    const existing = mediaByRecipeId.get(item.recipe_id) ?? [];
-    existing.push(item as RecipeMedia);
-    mediaByRecipeId.set(item.recipe_id, existing);
-  }
-
-  for (const recipe of recipes ?? []) {
-    const envelope = dbToEnvelope(
-      recipe as Recipe,
-      ingredientsByRecipeId.get(recipe.id) ?? [],
-      stepsByRecipeId.get(recipe.id) ?? [],
-      mediaByRecipeId.get(recipe.id) ?? []
-    );
-    dataById.set(recipe.id, envelope.recipe);
-  }
-
-  return dataById;
-};
+// Weighted sampling without replacement (Efraimidis-Spirakis)
+const pickWeighted = <T,>(items: T[], count: number, weightOf: (item: T) => number): T[] =>
+  items
+    .map((item) => ({ item, key: Math.random() ** (1 / weightOf(item)) }))
+    .sort((a, b) => b.key - a.key)
+    .slice(0, count)
+    .map((entry) => entry.item);
 
 type SuggestionsByMeal = Record<MealType, SuggestionRow[]>;
 
@@ -157,6 +106,7 @@ const buildRefreshSuggestions = async (
       .from('recipe_saves')
       .select('daily_plan_item_id')
       .eq('user_id', userId)
+      .is('deleted_at', null)
       .in(
         'daily_plan_item_id',
         data.map((item) => item.id)
@@ -180,19 +130,39 @@ const buildRefreshSuggestions = async (
     dessert: [],
   };
 
-  for (const row of data ?? []) {
-    const item = row as PlanItemRow;
-    if (savedItemIds.has(item.id)) {
-      continue;
-    }
+  const candidates = (data ?? [])
+    .map((row) => row as PlanItemRow)
+    .filter((item) => !savedItemIds.has(item.id));
+
+  // Drop recipes that break dietary restrictions or use excluded ingredients;
+  // preferred cuisines are weighted up rather than required
+  let pool = candidates;
+  let weightOf: ((item: PlanItemRow) => number) | null = null;
+  const preferences = await preferencesService.getPreferences(userId);
+  if (preferences && hasActivePreferences(preferences) && candidates.length > 0) {
+    const evaluations = await preferencesService.evaluateRecipes(
+      candidates.map((item) => item.recipe_id),
+      preferences
+    );
+    pool = candidates.filter((item) => evaluations.get(item.recipe_id)?.allowed);
+    weightOf = (item) => 1 + (evaluations.get(item.recipe_id)?.boost ?? 0);
+  }
+
+  // Allergens only warn; picks are not filtered on them
+  const allergenProfile = normalizeAllergens(preferences?.allergens ?? []);
+
+  for (const item of pool) {
     buckets[item.meal_type].push(item);
   }
 
+  const pick = (items: PlanItemRow[]): PlanItemRow[] =>
+    weightOf ? pickWeighted(items, countPerMeal, weightOf) : pickRandom(items, countPerMeal);
+
   const selections = {
-    breakfast: pickRandom(buckets.breakfast, countPerMeal),
-    lunch: pickRandom(buckets.lunch, countPerMeal),
-    dinner: pickRandom(buckets.dinner, countPerMeal),
-    dessert: pickRandom(buckets.dessert, countPerMeal),
+    breakfast: pick(buckets.breakfast),
+    lunch: pick(buckets.lunch),
+    dinner: pick(buckets.dinner),
+    dessert: pick(buckets.dessert),
   };
 
   const selectedItems = [
@@ -232,14 +202,16 @@ const buildRefreshSuggestions = async (
     }
 
     const planMeta = planById.get(item.plan_id);
+    const payload = withRecipeOwnership(recipeData, { isUserOwned: false });
     return {
       id: item.id,
-      recipe_data: withRecipeOwnership(recipeData, { isUserOwned: false }),
+      recipe_data: payload,
       generated_at: planMeta?.created_at ?? item.created_at,
       saved_recipe_id: null,
       run_id: item.plan_id,
       trigger_source: planMeta?.trigger_source,
       rank: item.rank,
+      allergen_warnings: buildAllergenWarnings(payload.allergens, allergenProfile),
     };
   };
 
@@ -313,6 +285,7 @@ router.get('/suggestions', requireAuth, async (req, res: Response, next) => {
         .from('recipe_saves')
         .select('daily_plan_item_id, recipe_id')
         .eq('user_id', authReq.userId)
+        .is('deleted_at', null)
         .in('daily_plan_item_id', itemIds);
 
       if (savesError) {
@@ -329,6 +302,8 @@ router.get('/suggestions', requireAuth, async (req, res: Response, next) => {
     const expiresAt = new Date();
     expiresAt.setHours(23, 59, 59, 999);
 
+    const allergenProfile = await preferencesService.getAllergenProfile(authReq.userId);
+
     const suggestions: SuggestionRow[] = [];
     for (const item of planItems ?? []) {
       const recipeData = recipeDataById.get(item.recipe_id);
@@ -337,19 +312,21 @@ router.get('/suggestions', requireAuth, async (req, res: Response, next) => {
       }
 
       const savedRecipeId = savedByItemId.get(item.id) ?? null;
+      const payload = withRecipeOwnership(recipeData, {
+        isUserOwned: false,
+        editableRecipeId: savedRecipeId,
+      });
       suggestions.push({
         id: item.id,
         user_id: authReq.userId,
-        recipe_data: withRecipeOwnership(recipeData, {
-          isUserOwned: false,
-          editableRecipeId: savedRecipeId,
-        }),
+        recipe_data: payload,
         generated_at: latestPlan.created_at,
         expires_at: expiresAt.toISOString(),
         saved_recipe_id: savedRecipeId,
         run_id: latestPlan.id,
         trigger_source: latestPlan.trigger_source,
         rank: item.rank,
+        allergen_warnings: buildAllergenWarnings(payload.allergens, allergenProfile),
       });
     }
 
@@ -408,6 +385,8 @@ router.post('/generate', requireAuth, requireDailyGenerationAdmin, async (req, r
     const expiresAt = new Date();
     expiresAt.setHours(23, 59, 59, 999);
 
+    const allergenProfile = await preferencesService.getAllergenProfile(authReq.userId);
+
     const suggestions: SuggestionRow[] = [];
     for (const item of planItems ?? []) {
       const recipeData = recipeDataById.get(item.recipe_id);
@@ -415,16 +394,18 @@ router.post('/generate', requireAuth, requireDailyGenerationAdmin, async (req, r
         throw new BadRequestError('Failed to resolve suggestion recipes');
       }
 
+      const payload = withRecipeOwnership(recipeData, { isUserOwned: false });
       suggestions.push({
         id: item.id,
         user_id: authReq.userId,
-        recipe_data: withRecipeOwnership(recipeData, { isUserOwned: false }),
+        recipe_data: payload,
         generated_at: plan.created_at,
         expires_at: expiresAt.toISOString(),
         saved_recipe_id: null,
         run_id: plan.id,
         trigger_source: plan.trigger_source,
         rank: item.rank,
+        allergen_warnings: buildAllergenWarnings(payload.allergens, allergenProfile),
       });
     }
 
@@ -437,59 +418,39 @@ router.post('/generate', requireAuth, requireDailyGenerationAdmin, async (req, r
   }
 });
 
-// Get user preferences
+// Get user preferences (deprecated: use GET /me/preferences)
 router.get('/preferences', requireAuth, async (req, res: Response, next) => {
   try {
     const authReq = req as AuthenticatedRequest;
 
-    const { data: preferences, error } = await supabaseAdmin
-      .from('user_preferences')
-      .select('*')
-      .eq('user_id', authReq.userId)
-      .single();
-
-    if (error && error.code !== 'PGRST116') {
-      // PGRST116 is "not found" - that's okay, we'll return defaults
-      throw new BadRequestError('Failed to fetch preferences');
-    }
+    const preferences = await preferencesService.getPreferencesOrDefaults(authReq.userId);
 
-    res.json({
-      preferences: preferences ?? {
-        user_id: authReq.userId,
-        dietary_restrictions: [],
-        preferred_cuisines: [],
-        excluded_ingredients: [],
-      },
-    });
+    res.json({ preferences });
   } catch (err) {
     next(err);
   }
 });
 
-// Update user preferences
+// Update user preferences (deprecated: use PUT/PATCH /me/preferences).
+// Omitted lists are cleared as before; newer fields are left untouched and the
+// server-owned fields of the GET response are ignored.
 router.put('/preferences', requireAuth, async (req, res: Response, next) => {
   try {
     const authReq = req as AuthenticatedRequest;
-    const { dietary_restrictions, preferred_cuisines, excluded_ingredients } = req.body;
+    const input = legacyPreferencesSchema.parse(req.body ?? {});
 
-    const { data: preferences, error } = await supabaseAdmin
-      .from('user_preferences')
-      .upsert({
-        user_id: authReq.userId,
-        dietary_restrictions: dietary_restrictions ?? [],
-        preferred_cuisines: preferred_cuisines ?? [],
-        excluded_ingredients: excluded_ingredients ?? [],
-        updated_at: new Date().toISOString(),
-      })
-      .select()
-      .single();
-
-    if (error) {
-      throw new BadRequestError('Failed to update preferences');
-    }
+    const preferences = await preferencesService.updatePreferences(authReq.userId, {
+      ...input,
+      dietary_restrictions: input.dietary_restrictions ?? [],
+      preferred_cuisines: input.preferred_cuisines ?? [],
+      excluded_ingredients: input.excluded_ingredients ?? [],
+    });
 
     res.json({ preferences });
   } catch (err) {
+    if (err instanceof z.ZodError) {
+      return next(new BadRequestError('Invalid preferences', { issues: formatPreferenceIssues(err) }));
+    }
     next(err);
   }
 });
@@ -1,22 +1,29 @@
 import { Router, Request, Response } from 'express';
 import { z } from 'zod';
 import { supabaseAdmin } from '../config/supabase.js';
+import { optionalAuth } from '../middleware/auth.js';
 import { aiService } from '../services/ai.service.js';
-import { dbToEnvelope } from '../schemas/envelope.js';
+import { preferencesService } from '../services/preferences.service.js';
+import { dbToEnvelope, type RecipeEnvelope } from '../schemas/envelope.js';
 import { NotFoundError, BadRequestError } from '../utils/errors.js';
 import { logger } from '../utils/logger.js';
 import { normalizeDietaryLabels } from '../utils/dietary-labels.js';
 import { CANONICAL_CUISINES, normalizeCuisine } from '../utils/cuisines.js';
 import { CANONICAL_RECIPE_TAGS, normalizeRecipeTags } from '../utils/recipe-tags.js';
 import { withRecipeOwnership } from '../utils/recipe-payload.js';
+import { afterCursorFilter, cursorParamSchema, takePage, toPagination } from '../utils/cursor.js';
+import { buildAllergenWarnings } from '../utils/allergens.js';
+import { scaleRecipeData } from '../utils/recipe-scaling.js';
+import { MEASUREMENT_SYSTEMS, convertRecipeData } from '../utils/unit-conversion.js';
 import type { RecipeListItem, Recipe, RecipeIngredient, RecipeStep, RecipeMedia } from '../types/index.js';
 
 const router = Router();
 
-// Pagination schema
+// Pagination schema; `cursor` (from next_cursor) takes precedence over `page`
 const paginationSchema = z.object({
   page: z.coerce.number().int().positive().default(1),
   limit: z.coerce.number().int().min(1).max(100).default(20),
+  cursor: cursorParamSchema,
 });
 
 // Filter schema
@@ -26,24 +33,69 @@ const filterSchema = z.object({
   dietary_labels: z.string().optional(), // comma-separated
 });
 
+const scaleSchema = z.object({
+  servings: z.coerce.number().int().min(1).max(100),
+});
+
+const unitsSchema = z.object({
+  units: z.enum(MEASUREMENT_SYSTEMS).optional(),
+});
+
+/**
+ * Load a global feed recipe (user_id IS NULL) as an envelope
+ */
+const getFeedEnvelope = async (id: string): Promise<RecipeEnvelope> => {
+  const { data: recipe, error } = await supabaseAdmin
+    .from('recipes')
+    .select('*')
+    .eq('id', id)
+    .is('user_id', null)
+    .is('deleted_at', null)
+    .single();
+
+  if (error || !recipe) {
+    throw new NotFoundError('Feed recipe');
+  }
+
+  // Get ingredients, steps, media
+  const [
+    { data: ingredients },
+    { data: steps },
+    { data: media },
+  ] = await Promise.all([
+    supabaseAdmin.from('recipe_ingredients').select('*').eq('recipe_id', id).order('position'),
+    supabaseAdmin.from('recipe_steps').select('*').eq('recipe_id', id).order('position'),
+    supabaseAdmin.from('recipe_media').select('*').eq('recipe_id', id).order('position'),
+  ]);
+
+  return dbToEnvelope(
+    recipe as Recipe,
+    (ingredients ?? []) as RecipeIngredient[],
+    (steps ?? []) as RecipeStep[],
+    (media ?? []) as RecipeMedia[]
+  );
+};
+
 /**
  * GET /feed
- * Get paginated feed of global AI recipes (public, user_id IS NULL)
+ * Get paginated feed of global AI recipes (public, user_id IS NULL), newest
+ * first. Cursors keep pages stable while new recipes are added.
  */
 router.get('/', async (req: Request, res: Response, next) => {
   try {
-    const { page, limit } = paginationSchema.parse(req.query);
+    const { page, limit, cursor } = paginationSchema.parse(req.query);
     const filters = filterSchema.parse(req.query);
     const offset = (page - 1) * limit;
 
-    // Build query for global feed recipes (user_id IS NULL)
+    // Build query for global feed recipes (user_id IS NULL); cursor requests
+    // skip the exact count
     let query = supabaseAdmin
       .from('recipes')
-      .select('*', { count: 'exact' })
+      .select('*', cursor ? {} : { count: 'exact' })
       .is('user_id', null)
       .is('deleted_at', null)
       .order('created_at', { ascending: false })
-      .range(offset, offset + limit - 1);
+      .order('id', { ascending: false });
 
     // Apply filters
     if (filters.cuisine) {
@@ -73,16 +125,22 @@ router.get('/', async (req: Request, res: Response, next) => {
       }
     }
 
-    const { data: recipes, error, count } = await query;
+    // One row past the page tells whether another follows
+    const { data: rows, error, count } = await (cursor
+      ? query.or(afterCursorFilter(cursor)).limit(limit + 1)
+      : query.range(offset, offset + limit));
 
     if (error) {
       throw new Error(`Failed to fetch feed: ${error.message}`);
     }
 
-    if (!recipes || recipes.length === 0) {
+    const { rows: recipes, nextCursor } = takePage(rows ?? [], limit, (recipe) => recipe);
+    const pagination = toPagination(limit, nextCursor, cursor ? undefined : { page, total: count ?? 0 });
+
+    if (recipes.length === 0) {
       return res.json({
         recipes: [],
-        pagination: { page, limit, total: 0, totalPages: 0 },
+        pagination,
       });
     }
 
@@ -129,59 +187,65 @@ router.get('/', async (req: Request, res: Response, next) => {
 
     res.json({
       recipes: recipesWithMedia,
-      pagination: {
-        page,
-        limit,
-        total: count ?? 0,
-        totalPages: Math.ceil((count ?? 0) / limit),
-      },
+      pagination,
     });
   } catch (err) {
+    if (err instanceof z.ZodError) {
+      return next(new BadRequestError('Invalid pagination'));
+    }
     next(err);
   }
 });
 
 /**
- * GET /feed/:id
- * Get a single feed recipe with full details (returns envelope format)
+ * GET /feed/:id?units=metric|imperial
+ * Get a single feed recipe with full details (returns envelope format).
+ * Signed-in users get `allergen_warnings` for their allergen profile.
  */
-router.get('/:id', async (req: Request, res: Response, next) => {
+router.get('/:id', optionalAuth, async (req: Request, res: Response, next) => {
   try {
     const { id } = req.params;
+    const { units } = unitsSchema.parse(req.query);
+    const envelope = await getFeedEnvelope(id);
+    const recipe = units ? convertRecipeData(envelope.recipe, units) : envelope.recipe;
+    const recipeData = withRecipeOwnership(recipe, { isUserOwned: false });
+    const allergenProfile = await preferencesService.getAllergenProfile(req.userId ?? null);
 
-    // Get recipe (must be global - user_id IS NULL)
-    const { data: recipe, error } = await supabaseAdmin
-      .from('recipes')
-      .select('*')
-      .eq('id', id)
-      .is('user_id', null)
-      .is('deleted_at', null)
-      .single();
+    res.json({
+      recipe_data: recipeData,
+      allergen_warnings: buildAllergenWarnings(recipeData.allergens, allergenProfile),
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return next(new BadRequestError('Invalid units'));
+    }
+    next(err);
+  }
+});
+
+/**
+ * GET /feed/:id/scaled?servings=N
+ * Get a feed recipe rescaled to the requested servings
+ */
+router.get('/:id/scaled', async (req: Request, res: Response, next) => {
+  try {
+    const { id } = req.params;
+    const { servings } = scaleSchema.parse(req.query);
 
-    if (error || !recipe) {
-      throw new NotFoundError('Feed recipe');
+    const envelope = await getFeedEnvelope(id);
+    const scaled = scaleRecipeData(envelope.recipe, servings);
+    if (!scaled) {
+      throw new BadRequestError('Recipe has no servings to scale from');
     }
 
-    // Get ingredients, steps, media
-    const [
-      { data: ingredients },
-      { data: steps },
-      { data: media },
-    ] = await Promise.all([
-      supabaseAdmin.from('recipe_ingredients').select('*').eq('recipe_id', id).order('position'),
-      supabaseAdmin.from('recipe_steps').select('*').eq('recipe_id', id).order('position'),
-      supabaseAdmin.from('recipe_media').select('*').eq('recipe_id', id).order('position'),
-    ]);
-
-    const envelope = dbToEnvelope(
-      recipe as Recipe,
-      (ingredients ?? []) as RecipeIngredient[],
-      (steps ?? []) as RecipeStep[],
-      (media ?? []) as RecipeMedia[]
-    );
-
-    res.json({ recipe_data: withRecipeOwnership(envelope.recipe, { isUserOwned: false }) });
+    res.json({
+      recipe_data: withRecipeOwnership(scaled.recipe, { isUserOwned: false }),
+      scaling: scaled.scaling,
+    });
   } catch (err) {
+    if (err instanceof z.ZodError) {
+      return next(new BadRequestError('Invalid servings'));
+    }
     next(err);
   }
 });
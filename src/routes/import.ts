@@ -3,25 +3,62 @@ import { z } from 'zod';
 import { supabaseAdmin } from '../config/supabase.js';
 import { requireAuth, AuthenticatedRequest } from '../middleware/auth.js';
 import { BadRequestError, NotFoundError } from '../utils/errors.js';
-import { importService } from '../services/import.service.js';
+import { importService, MAX_BATCH_URLS, MAX_FILE_SAVE_RECIPES } from '../services/import.service.js';
+import { anyVersionRecipeEnvelopeSchema } from '../schemas/envelope.js';
+import { extractUrlsFromList } from '../utils/bookmarks.js';
+import type { ImportBatch } from '../types/index.js';
 import { withRecipeOwnership } from '../utils/recipe-payload.js';
 
 const router = Router();
 
 // Validation schemas
+// `async: true` queues an import job and responds 202 instead of waiting
 const importUrlSchema = z.object({
   url: z.string().url(),
+  async: z.boolean().default(false),
 });
 
 const importImageSchema = z.object({
-  image_path: z.string().min(1),
+  image_path: z.string().min(1).max(500),
+  async: z.boolean().default(false),
 });
 
+const importFileSchema = z.object({
+  file_path: z.string().min(1).max(500),
+});
+
+// `position` is the recipe's position in the file preview, echoed in the result
+const saveFileImportSchema = z.object({
+  recipes: z
+    .array(z.object({
+      position: z.number().int().nonnegative(),
+      envelope: anyVersionRecipeEnvelopeSchema,
+    }))
+    .min(1)
+    .max(MAX_FILE_SAVE_RECIPES),
+});
+
+// Either a URL list or the text of a bookmarks export / plain-text list
+const importBatchSchema = z
+  .object({
+    urls: z.array(z.string().trim().min(1).max(2048)).min(1).max(MAX_BATCH_URLS).optional(),
+    file_content: z.string().min(1).max(5_000_000).optional(),
+  })
+  .refine((value) => Boolean(value.urls) !== Boolean(value.file_content), {
+    message: 'Provide either urls or file_content',
+  });
+
 // Import recipe from URL
 router.post('/url', requireAuth, async (req, res: Response, next) => {
   try {
     const authReq = req as AuthenticatedRequest;
-    const { url } = importUrlSchema.parse(req.body);
+    const { url, async: runAsync } = importUrlSchema.parse(req.body);
+
+    if (runAsync) {
+      const job = await importService.enqueueJob(authReq.userId, { type: 'url', url });
+      res.status(202).json({ job_id: job.id, status: job.status });
+      return;
+    }
 
     const result = await importService.previewFromUrl(url, authReq.userId);
 
@@ -36,13 +73,122 @@ router.post('/url', requireAuth, async (req, res: Response, next) => {
   }
 });
 
-// Import recipe from image
+// Import recipe from an image uploaded via POST /uploads/recipe-images
 router.post('/image', requireAuth, async (req, res: Response, next) => {
   try {
     const authReq = req as AuthenticatedRequest;
-    const { image_path: _imagePath } = importImageSchema.parse(req.body);
+    const { image_path: imagePath, async: runAsync } = importImageSchema.parse(req.body);
+
+    if (runAsync) {
+      const job = await importService.enqueueJob(authReq.userId, { type: 'image', imagePath });
+      res.status(202).json({ job_id: job.id, status: job.status });
+      return;
+    }
+
+    const result = await importService.previewFromImage(imagePath, authReq.userId);
+
+    res.json({
+      extracted_from: result.extracted_from,
+      warnings: result.warnings,
+      recipe_data: withRecipeOwnership(result.envelope.recipe, { isUserOwned: false }),
+      save_payload: result.envelope,
+    });
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * POST /import/file
+ * Preview the recipes in an export uploaded via POST /uploads/import-files
+ */
+router.post('/file', requireAuth, async (req, res: Response, next) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { file_path: filePath } = importFileSchema.parse(req.body);
+
+    const result = await importService.previewFromFile(filePath, authReq.userId);
+
+    res.json({
+      format: result.format,
+      warnings: result.warnings,
+      skipped: result.skipped,
+      recipes: result.recipes.map((recipe) => ({
+        position: recipe.position,
+        extracted_from: recipe.extracted_from,
+        warnings: recipe.warnings,
+        recipe_data: withRecipeOwnership(recipe.envelope.recipe, { isUserOwned: false }),
+        save_payload: recipe.envelope,
+      })),
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return next(new BadRequestError('Invalid file import payload'));
+    }
+    next(err);
+  }
+});
+
+/**
+ * POST /import/file/save
+ * Save the chosen `save_payload`s from a file import preview
+ */
+router.post('/file/save', requireAuth, async (req, res: Response, next) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { recipes } = saveFileImportSchema.parse(req.body);
+
+    const result = await importService.saveFileImport(authReq.userId, recipes);
+
+    res.status(201).json(result);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return next(new BadRequestError('Invalid file import payload'));
+    }
+    next(err);
+  }
+});
+
+/**
+ * POST /import/batch
+ * Queue one import job per URL; responds 202 with the batch status
+ */
+router.post('/batch', requireAuth, async (req, res: Response, next) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { urls, file_content: fileContent } = importBatchSchema.parse(req.body);
+
+    let source: ImportBatch['source'] = 'urls';
+    let batchUrls = urls ?? [];
+    if (fileContent) {
+      const parsed = extractUrlsFromList(fileContent);
+      source = parsed.format;
+      batchUrls = parsed.urls;
+    }
+
+    const status = await importService.enqueueBatch(authReq.userId, batchUrls, source);
+
+    res.status(202).json(status);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return next(new BadRequestError('Invalid batch import payload'));
+    }
+    next(err);
+  }
+});
+
+/**
+ * GET /import/batches/:id
+ * Aggregate batch status with the outcome of each URL
+ */
+router.get('/batches/:id', requireAuth, async (req, res: Response, next) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { id } = req.params;
+
+    const status = await importService.getBatchStatus(authReq.userId, id);
 
-    throw new BadRequestError('Image import is not yet available');
+    res.json(status);
   } catch (err) {
     next(err);
   }
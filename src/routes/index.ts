@@ -9,6 +9,12 @@ import shareRouter from './share.js';
 import recipeSavesRouter from './recipe-saves.js';
 import uploadsRouter from './uploads.js';
 import recipeGenerateRouter from './recipe-generate.js';
+import shoppingListsRouter from './shopping-lists.js';
+import mealPlannerRouter from './meal-planner.js';
+import searchRouter from './search.js';
+import pantryRouter from './pantry.js';
+import meRouter from './me.js';
+import collectionsRouter from './collections.js';
 
 export const routes = Router();
 
@@ -21,9 +27,15 @@ routes.use('/auth', authRouter);
 // Feed routes (public browsing)
 routes.use('/feed', feedRouter);
 
+// Search (public feed, plus own recipes when signed in)
+routes.use('/search', searchRouter);
+
 // Share routes (public viewing, auth required for creating/revoking)
 routes.use('/share', shareRouter);
 
+// Collection routes (public shared view, auth required for everything else)
+routes.use('/collections', collectionsRouter);
+
 // Protected routes
 routes.use('/recipes', recipesRouter);
 routes.use('/recipe-saves', recipeSavesRouter);
@@ -31,3 +43,7 @@ routes.use('/recipe', recipeGenerateRouter);
 routes.use('/uploads', uploadsRouter);
 routes.use('/import', importRouter);
 routes.use('/daily', dailyRouter);
+routes.use('/shopping-lists', shoppingListsRouter);
+routes.use('/meal-planner', mealPlannerRouter);
+routes.use('/pantry', pantryRouter);
+routes.use('/me', meRouter);
@@ -0,0 +1,66 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { requireAuth, AuthenticatedRequest } from '../middleware/auth.js';
+import { preferencesService } from '../services/preferences.service.js';
+import { BadRequestError } from '../utils/errors.js';
+import { preferencesSchema, formatPreferenceIssues } from '../schemas/preferences.js';
+
+const router = Router();
+
+/**
+ * GET /me/preferences
+ * Get the user's preferences in canonical form (defaults when never set)
+ */
+router.get('/preferences', requireAuth, async (req, res: Response, next) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+
+    const preferences = await preferencesService.getPreferencesOrDefaults(authReq.userId);
+
+    res.json({ preferences });
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * PUT /me/preferences
+ * Replace preferences; omitted fields reset to their defaults
+ */
+router.put('/preferences', requireAuth, async (req, res: Response, next) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const input = preferencesSchema.parse(req.body ?? {});
+
+    const preferences = await preferencesService.replacePreferences(authReq.userId, input);
+
+    res.json({ preferences });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return next(new BadRequestError('Invalid preferences', { issues: formatPreferenceIssues(err) }));
+    }
+    next(err);
+  }
+});
+
+/**
+ * PATCH /me/preferences
+ * Update only the given fields
+ */
+router.patch('/preferences', requireAuth, async (req, res: Response, next) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const input = preferencesSchema.parse(req.body ?? {});
+
+    const preferences = await preferencesService.updatePreferences(authReq.userId, input);
+
+    res.json({ preferences });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return next(new BadRequestError('Invalid preferences', { issues: formatPreferenceIssues(err) }));
+    }
+    next(err);
+  }
+});
+
+export default router;
@@ -0,0 +1,180 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { requireAuth, AuthenticatedRequest } from '../middleware/auth.js';
+import { mealPlannerService } from '../services/meal-planner.service.js';
+import { BadRequestError } from '../utils/errors.js';
+import { MEAL_TYPES } from '../utils/meal-types.js';
+
+const router = Router();
+
+const dateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/)
+  // Must round-trip, so impossible dates such as 2026-02-31 are rejected
+  .refine((value) => {
+    const parsed = new Date(`${value}T00:00:00Z`);
+    return !Number.isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === value;
+  }, 'Invalid date');
+
+const weekQuerySchema = z.object({
+  date: dateSchema.optional(),
+});
+
+const slotSourceSchema = z.discriminatedUnion('source_type', [
+  z.object({
+    source_type: z.literal('recipe'),
+    source_id: z.string().uuid(),
+  }),
+  z.object({
+    source_type: z.literal('recipe_save'),
+    source_id: z.string().uuid(),
+  }),
+  z.object({
+    source_type: z.literal('daily_plan_item'),
+    source_id: z.string().uuid(),
+  }),
+]);
+
+const notesSchema = z.string().trim().max(500).nullable();
+
+const createSlotSchema = z.intersection(
+  slotSourceSchema,
+  z.object({
+    date: dateSchema,
+    meal_type: z.enum(MEAL_TYPES),
+    notes: notesSchema.optional(),
+  })
+);
+
+const updateSlotSchema = z
+  .object({
+    source: slotSourceSchema.optional(),
+    notes: notesSchema.optional(),
+  })
+  .refine((value) => value.source !== undefined || value.notes !== undefined, {
+    message: 'Nothing to update',
+  });
+
+const moveSlotSchema = z.object({
+  date: dateSchema,
+  meal_type: z.enum(MEAL_TYPES),
+  swap: z.boolean().optional(),
+});
+
+/**
+ * GET /meal-planner/week?date=YYYY-MM-DD
+ * Get the Monday–Sunday plan containing `date` (defaults to this week)
+ */
+router.get('/week', requireAuth, async (req, res: Response, next) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { date } = weekQuerySchema.parse(req.query);
+
+    const week = await mealPlannerService.getWeek(authReq.userId, date);
+
+    res.json(week);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return next(new BadRequestError('Invalid date'));
+    }
+    next(err);
+  }
+});
+
+/**
+ * POST /meal-planner/slots
+ * Fill a day/meal slot from an owned recipe, a save or a shared plan item
+ */
+router.post('/slots', requireAuth, async (req, res: Response, next) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const payload = createSlotSchema.parse(req.body);
+
+    const slot = await mealPlannerService.createSlot(authReq.userId, payload);
+
+    res.status(201).json({ slot });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return next(new BadRequestError('Invalid meal slot payload'));
+    }
+    next(err);
+  }
+});
+
+/**
+ * GET /meal-planner/slots/:id
+ * Get a single slot with its recipe
+ */
+router.get('/slots/:id', requireAuth, async (req, res: Response, next) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { id } = req.params;
+
+    const slot = await mealPlannerService.getSlot(authReq.userId, id);
+
+    res.json({ slot });
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * PATCH /meal-planner/slots/:id
+ * Replace a slot's recipe and/or notes
+ */
+router.patch('/slots/:id', requireAuth, async (req, res: Response, next) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { id } = req.params;
+    const payload = updateSlotSchema.parse(req.body);
+
+    const slot = await mealPlannerService.updateSlot(authReq.userId, id, payload);
+
+    res.json({ slot });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return next(new BadRequestError('Invalid meal slot payload'));
+    }
+    next(err);
+  }
+});
+
+/**
+ * POST /meal-planner/slots/:id/move
+ * Move a slot to another day/meal (`swap: true` exchanges with a filled slot)
+ */
+router.post('/slots/:id/move', requireAuth, async (req, res: Response, next) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { id } = req.params;
+    const payload = moveSlotSchema.parse(req.body);
+
+    const slots = await mealPlannerService.moveSlot(authReq.userId, id, payload);
+
+    res.json({ slots });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return next(new BadRequestError('Invalid move payload'));
+    }
+    next(err);
+  }
+});
+
+/**
+ * DELETE /meal-planner/slots/:id
+ * Clear a slot
+ */
+router.delete('/slots/:id', requireAuth, async (req, res: Response, next) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { id } = req.params;
+
+    await mealPlannerService.deleteSlot(authReq.userId, id);
+
+    res.status(204).send();
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
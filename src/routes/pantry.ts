@@ -0,0 +1,98 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { requireAuth, AuthenticatedRequest } from '../middleware/auth.js';
+import { pantryService } from '../services/pantry.service.js';
+import { BadRequestError } from '../utils/errors.js';
+
+const router = Router();
+
+const pantryItemSchema = z.object({
+  ingredient_name: z.string().trim().min(1).max(200),
+  quantity: z.number().nonnegative().nullable().optional(),
+  unit: z.string().trim().max(50).nullable().optional(),
+});
+
+const addItemsSchema = z.object({
+  items: z.array(pantryItemSchema).min(1).max(200),
+});
+
+const updateItemSchema = pantryItemSchema.partial().refine(
+  (value) => Object.keys(value).length > 0,
+  { message: 'Nothing to update' }
+);
+
+/**
+ * GET /pantry
+ * List ingredients in the user's pantry
+ */
+router.get('/', requireAuth, async (req, res: Response, next) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+
+    const items = await pantryService.listItems(authReq.userId);
+
+    res.json({ items });
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * POST /pantry
+ * Add ingredients (existing names have their quantity replaced)
+ */
+router.post('/', requireAuth, async (req, res: Response, next) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { items } = addItemsSchema.parse(req.body);
+
+    const saved = await pantryService.upsertItems(authReq.userId, items);
+
+    res.status(201).json({ items: saved });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return next(new BadRequestError('Invalid pantry payload'));
+    }
+    next(err);
+  }
+});
+
+/**
+ * PATCH /pantry/:id
+ * Update a pantry item
+ */
+router.patch('/:id', requireAuth, async (req, res: Response, next) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { id } = req.params;
+    const updates = updateItemSchema.parse(req.body);
+
+    const item = await pantryService.updateItem(authReq.userId, id, updates);
+
+    res.json({ item });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return next(new BadRequestError('Invalid pantry payload'));
+    }
+    next(err);
+  }
+});
+
+/**
+ * DELETE /pantry/:id
+ * Remove an ingredient from the pantry
+ */
+router.delete('/:id', requireAuth, async (req, res: Response, next) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { id } = req.params;
+
+    await pantryService.deleteItem(authReq.userId, id);
+
+    res.status(204).send();
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
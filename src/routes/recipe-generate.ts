@@ -2,8 +2,12 @@ import { Router, Response } from 'express';
 import { z } from 'zod';
 import { requireAuth, AuthenticatedRequest } from '../middleware/auth.js';
 import { aiService } from '../services/ai.service.js';
+import { preferencesService } from '../services/preferences.service.js';
 import { BadRequestError, RateLimitError } from '../utils/errors.js';
 import { withRecipeOwnership } from '../utils/recipe-payload.js';
+import { evaluateRecipePreferences } from '../utils/preferences.js';
+import { toIngredientColumns } from '../utils/ingredient-parser.js';
+import { reconcileDietaryLabels } from '../utils/dietary-inference.js';
 
 const router = Router();
 
@@ -27,7 +31,8 @@ router.post('/generate', requireAuth, async (req, res: Response, next) => {
 
     await aiService.incrementUsageCounter(authReq.userId);
 
-    const result = await aiService.generateRecipeFromText(text);
+    const preferences = await preferencesService.getPreferences(authReq.userId);
+    const result = await aiService.generateRecipeFromText(text, preferences);
 
     if (!result) {
       throw new BadRequestError('Failed to generate recipe. Is OpenAI API key configured?');
@@ -43,9 +48,30 @@ router.post('/generate', requireAuth, async (req, res: Response, next) => {
       throw new BadRequestError('Failed to generate recipe.');
     }
 
+    // Labels the model claimed are checked against its own ingredients
+    const dietary = reconcileDietaryLabels(result.envelope.recipe.dietary_labels, result.envelope.recipe.ingredients);
+    result.envelope.recipe.dietary_labels = dietary.dietary_labels;
+    const warnings: string[] = [...dietary.warnings];
+
+    // The prompt asks the model to respect preferences; flag anything it missed
+    if (preferences) {
+      const { recipe } = result.envelope;
+      const evaluation = evaluateRecipePreferences(
+        {
+          dietary_labels: recipe.dietary_labels,
+          cuisine: recipe.cuisine ?? null,
+          ingredient_names: recipe.ingredients
+            .map((ingredient) => toIngredientColumns(ingredient.raw_text).ingredient_name)
+            .filter((name): name is string => Boolean(name)),
+        },
+        preferences
+      );
+      warnings.push(...evaluation.violations.map((violation) => `Recipe does not match your preferences: ${violation}`));
+    }
+
     res.json({
       extracted_from: 'ai',
-      warnings: [],
+      warnings,
       recipe_data: withRecipeOwnership(result.envelope.recipe, { isUserOwned: false }),
       save_payload: result.envelope,
     });
@@ -3,12 +3,15 @@ import { z } from 'zod';
 import { requireAuth, AuthenticatedRequest } from '../middleware/auth.js';
 import { recipeSavesService } from '../services/recipe-saves.service.js';
 import { BadRequestError } from '../utils/errors.js';
+import { cursorParamSchema } from '../utils/cursor.js';
 
 const router = Router();
 
+// `cursor` (from next_cursor) takes precedence over `page`
 const paginationSchema = z.object({
   page: z.coerce.number().int().positive().default(1),
   limit: z.coerce.number().int().min(1).max(100).default(20),
+  cursor: cursorParamSchema,
 });
 
 const createRecipeSaveSchema = z.discriminatedUnion('source_type', [
@@ -33,15 +36,18 @@ const createRecipeSaveSchema = z.discriminatedUnion('source_type', [
 router.get('/', requireAuth, async (req, res: Response, next) => {
   try {
     const authReq = req as AuthenticatedRequest;
-    const { page, limit } = paginationSchema.parse(req.query);
+    const { page, limit, cursor } = paginationSchema.parse(req.query);
 
-    const result = await recipeSavesService.listRecipeSaves(authReq.userId, page, limit);
+    const result = await recipeSavesService.listRecipeSaves(authReq.userId, page, limit, cursor);
 
     res.json({
       recipe_saves: result.recipe_saves,
       pagination: result.pagination,
     });
   } catch (err) {
+    if (err instanceof z.ZodError) {
+      return next(new BadRequestError('Invalid pagination'));
+    }
     next(err);
   }
 });
@@ -2,8 +2,18 @@ import { Router, Response } from 'express';
 import { z } from 'zod';
 import { requireAuth, AuthenticatedRequest } from '../middleware/auth.js';
 import { recipeService } from '../services/recipe.service.js';
-import { NotFoundError, BadRequestError } from '../utils/errors.js';
+import { pantryService } from '../services/pantry.service.js';
+import { trashService } from '../services/trash.service.js';
+import { NotFoundError, BadRequestError, PreconditionFailedError } from '../utils/errors.js';
+import { recipeUpdateSchema } from '../schemas/envelope.js';
 import { withRecipeOwnership } from '../utils/recipe-payload.js';
+import { parseRecipeIfMatch, toRecipeEtag } from '../utils/recipe-etag.js';
+import { cursorParamSchema } from '../utils/cursor.js';
+import { scaleRecipeData } from '../utils/recipe-scaling.js';
+import { MEASUREMENT_SYSTEMS, convertRecipeData } from '../utils/unit-conversion.js';
+import { RECIPE_OUTPUT_FORMATS, exportFileName, renderRecipe, toJsonLd } from '../utils/recipe-export.js';
+import { ZipWriter } from '../utils/zip.js';
+import { logger } from '../utils/logger.js';
 
 const router = Router();
 
@@ -14,46 +24,309 @@ const paginationSchema = z.object({
   search: z.string().optional(),
 });
 
+// `cursor` (from next_cursor) takes precedence over `page`
+const recipeListSchema = paginationSchema.extend({
+  cursor: cursorParamSchema,
+});
+
+const scaleSchema = z.object({
+  servings: z.coerce.number().int().min(1).max(100),
+});
+
+const matchPantrySchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  include_feed: z.enum(['true', 'false']).default('true').transform((value) => value === 'true'),
+  assume_staples: z.enum(['true', 'false']).default('true').transform((value) => value === 'true'),
+});
+
+const unitsSchema = z.object({
+  units: z.enum(MEASUREMENT_SYSTEMS).optional(),
+});
+
+const updateOptionsSchema = z.object({
+  merge: z.enum(['true', 'false']).default('false').transform((value) => value === 'true'),
+});
+
+const exportSchema = z.object({
+  format: z.enum(RECIPE_OUTPUT_FORMATS).default('whatEat'),
+});
+
+// NDJSON carries one JSON document per line, so only the JSON formats fit it
+const bulkExportSchema = z
+  .object({
+    format: z.enum(['zip', 'ndjson']).default('zip'),
+    recipe_format: z.enum(RECIPE_OUTPUT_FORMATS).default('whatEat'),
+  })
+  .refine((value) => value.format === 'zip' || value.recipe_format === 'whatEat' || value.recipe_format === 'jsonld', {
+    message: 'NDJSON export supports recipe_format whatEat or jsonld',
+  });
+
+// Revisions and trash have no title search
+const pageSchema = paginationSchema.omit({ search: true });
+
+const revisionNumber = z.coerce.number().int().positive();
+
+const revisionParamsSchema = z.object({
+  rev: revisionNumber,
+});
+
+// `to` defaults to the latest revision
+const revisionDiffSchema = z.object({
+  from: revisionNumber,
+  to: revisionNumber.optional(),
+});
+
+/**
+ * 412 carrying the recipe as it is now, with its ETag, so the client can
+ * redo its edit on top of it
+ */
+const withCurrentRecipe = async (
+  err: PreconditionFailedError,
+  res: Response,
+  recipeId: string,
+  userId: string
+): Promise<PreconditionFailedError | NotFoundError> => {
+  const current = await recipeService.getRecipeById(recipeId, userId);
+  if (!current) {
+    return new NotFoundError('Recipe');
+  }
+
+  const etag = toRecipeEtag(current.updatedAt);
+  res.setHeader('ETag', etag);
+  return new PreconditionFailedError(err.message, {
+    ...err.details,
+    etag,
+    recipe_data: withRecipeOwnership(current.envelope.recipe, { isUserOwned: current.isUserOwned }),
+  });
+};
+
+const revisionNotFound = (err: unknown): NotFoundError | null => {
+  if (err instanceof Error && err.message === 'Recipe not found') {
+    return new NotFoundError('Recipe');
+  }
+  if (err instanceof Error && err.message === 'Revision not found') {
+    return new NotFoundError('Revision');
+  }
+  return null;
+};
+
 /**
  * GET /recipes
- * List user's recipes with pagination
+ * List user's recipes, newest first (page or cursor pagination)
  */
 router.get('/', requireAuth, async (req, res: Response, next) => {
   try {
     const authReq = req as AuthenticatedRequest;
-    const { page, limit, search } = paginationSchema.parse(req.query);
+    const { page, limit, search, cursor } = recipeListSchema.parse(req.query);
 
-    const result = await recipeService.getUserRecipes(authReq.userId, page, limit, search);
+    const result = await recipeService.getUserRecipes(authReq.userId, page, limit, search, cursor);
 
     res.json({
       recipes: result.recipes,
       pagination: result.pagination,
     });
   } catch (err) {
+    if (err instanceof z.ZodError) {
+      return next(new BadRequestError('Invalid pagination'));
+    }
     next(err);
   }
 });
 
 /**
- * GET /recipes/:id
+ * GET /recipes/match-pantry
+ * Rank owned, saved and feed recipes by pantry coverage, with missing ingredients
+ */
+router.get('/match-pantry', requireAuth, async (req, res: Response, next) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { page, limit, include_feed, assume_staples } = matchPantrySchema.parse(req.query);
+
+    const result = await pantryService.matchRecipes(authReq.userId, {
+      page,
+      limit,
+      includeFeed: include_feed,
+      assumeStaples: assume_staples,
+    });
+
+    res.json({
+      matches: result.matches,
+      pagination: result.pagination,
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return next(new BadRequestError('Invalid pantry match query'));
+    }
+    next(err);
+  }
+});
+
+/**
+ * GET /recipes/export?format=zip|ndjson&recipe_format=whatEat|jsonld|markdown|text
+ * Stream every recipe the user owns, one zip entry or NDJSON line per recipe
+ */
+router.get('/export', requireAuth, async (req, res: Response, next) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { format, recipe_format: recipeFormat } = bulkExportSchema.parse(req.query);
+    const date = new Date().toISOString().split('T')[0];
+
+    res.setHeader('Cache-Control', 'no-store');
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="whateat-recipes-${date}.${format === 'zip' ? 'zip' : 'ndjson'}"`
+    );
+
+    if (format === 'ndjson') {
+      res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8');
+      for await (const envelope of recipeService.iterateUserEnvelopes(authReq.userId)) {
+        if (res.destroyed) break;
+        const document = recipeFormat === 'jsonld' ? toJsonLd(envelope) : envelope;
+        res.write(`${JSON.stringify(document)}\n`);
+      }
+      res.end();
+      return;
+    }
+
+    res.setHeader('Content-Type', 'application/zip');
+    const zip = new ZipWriter(res);
+    for await (const envelope of recipeService.iterateUserEnvelopes(authReq.userId)) {
+      if (res.destroyed) break;
+      const rendered = renderRecipe(envelope, recipeFormat);
+      await zip.addFile(exportFileName(envelope.recipe, rendered.extension), rendered.body);
+    }
+    await zip.finish();
+    res.end();
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return next(new BadRequestError('Invalid export query'));
+    }
+    // Part of the file is already sent; cut the response so the client sees it failed
+    if (res.headersSent) {
+      logger.error({ err }, 'Recipe export failed mid-stream');
+      res.destroy(err as Error);
+      return;
+    }
+    next(err);
+  }
+});
+
+/**
+ * GET /recipes/:id/export?format=jsonld|whatEat|markdown|text
+ * Download a single recipe in a portable format
+ */
+router.get('/:id/export', requireAuth, async (req, res: Response, next) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { id } = req.params;
+    const { format } = exportSchema.parse(req.query);
+
+    const result = await recipeService.getRecipeById(id, authReq.userId);
+    if (!result) {
+      throw new NotFoundError('Recipe');
+    }
+
+    const rendered = renderRecipe(result.envelope, format);
+
+    res.setHeader('Content-Type', rendered.content_type);
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${exportFileName(result.envelope.recipe, rendered.extension)}"`
+    );
+    res.send(rendered.body);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return next(new BadRequestError('Invalid export format'));
+    }
+    next(err);
+  }
+});
+
+/**
+ * GET /recipes/trash
+ * List deleted recipes that can still be restored, most recently deleted first
+ */
+router.get('/trash', requireAuth, async (req, res: Response, next) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { page, limit } = pageSchema.parse(req.query);
+
+    const result = await trashService.listTrash(authReq.userId, page, limit);
+
+    res.json({
+      recipes: result.recipes,
+      pagination: result.pagination,
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return next(new BadRequestError('Invalid pagination'));
+    }
+    next(err);
+  }
+});
+
+/**
+ * GET /recipes/:id?units=metric|imperial
  * Get a single recipe with full details (returns envelope format)
  */
 router.get('/:id', requireAuth, async (req, res: Response, next) => {
   try {
     const authReq = req as AuthenticatedRequest;
     const { id } = req.params;
+    const { units } = unitsSchema.parse(req.query);
 
     const result = await recipeService.getRecipeById(id, authReq.userId);
     if (!result) {
       throw new NotFoundError('Recipe');
     }
 
+    const recipe = units ? convertRecipeData(result.envelope.recipe, units) : result.envelope.recipe;
+
+    res.setHeader('ETag', toRecipeEtag(result.updatedAt));
     res.json({
-      recipe_data: withRecipeOwnership(result.envelope.recipe, {
+      recipe_data: withRecipeOwnership(recipe, {
+        isUserOwned: result.isUserOwned,
+      }),
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return next(new BadRequestError('Invalid units'));
+    }
+    next(err);
+  }
+});
+
+/**
+ * GET /recipes/:id/scaled?servings=N
+ * Get a recipe with ingredient quantities rescaled to the requested servings
+ */
+router.get('/:id/scaled', requireAuth, async (req, res: Response, next) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { id } = req.params;
+    const { servings } = scaleSchema.parse(req.query);
+
+    const result = await recipeService.getRecipeById(id, authReq.userId);
+    if (!result) {
+      throw new NotFoundError('Recipe');
+    }
+
+    const scaled = scaleRecipeData(result.envelope.recipe, servings);
+    if (!scaled) {
+      throw new BadRequestError('Recipe has no servings to scale from');
+    }
+
+    res.json({
+      recipe_data: withRecipeOwnership(scaled.recipe, {
         isUserOwned: result.isUserOwned,
       }),
+      scaling: scaled.scaling,
     });
   } catch (err) {
+    if (err instanceof z.ZodError) {
+      return next(new BadRequestError('Invalid servings'));
+    }
     next(err);
   }
 });
@@ -66,12 +339,14 @@ router.post('/', requireAuth, async (req, res: Response, next) => {
   try {
     const authReq = req as AuthenticatedRequest;
 
-    const recipe = await recipeService.createRecipe(req.body, authReq.userId);
+    const { recipe, warnings } = await recipeService.createRecipe(req.body, authReq.userId);
 
     res.status(201).json({
       id: recipe.id,
       title: recipe.title,
+      dietary_labels: recipe.dietary_labels,
       created_at: recipe.created_at,
+      warnings,
     });
   } catch (err) {
     if (err instanceof z.ZodError) {
@@ -82,22 +357,45 @@ router.post('/', requireAuth, async (req, res: Response, next) => {
 });
 
 /**
- * PATCH /recipes/:id
- * Update an existing recipe
+ * PATCH /recipes/:id?merge=true
+ * Update an existing recipe. With If-Match, fails with 412 (and the current
+ * recipe) when it has changed since; merge=true keeps edits to other fields.
  */
 router.patch('/:id', requireAuth, async (req, res: Response, next) => {
+  const authReq = req as AuthenticatedRequest;
+  const { id } = req.params;
+
   try {
-    const authReq = req as AuthenticatedRequest;
-    const { id } = req.params;
+    const { merge } = updateOptionsSchema.parse(req.query);
+    const body = recipeUpdateSchema.safeParse(req.body);
+    if (!body.success) {
+      throw new BadRequestError('Invalid recipe data');
+    }
+    const expectedUpdatedAt = parseRecipeIfMatch(req.get('If-Match'));
+    if (expectedUpdatedAt === null) {
+      throw new PreconditionFailedError('If-Match does not match the recipe');
+    }
 
-    const recipe = await recipeService.updateRecipe(id, authReq.userId, req.body);
+    const { recipe, warnings } = await recipeService.updateRecipe(id, authReq.userId, body.data, {
+      expectedUpdatedAt,
+      merge,
+    });
 
+    res.setHeader('ETag', toRecipeEtag(recipe.updated_at));
     res.json({
       id: recipe.id,
       title: recipe.title,
+      dietary_labels: recipe.dietary_labels,
       updated_at: recipe.updated_at,
+      warnings,
     });
   } catch (err) {
+    if (err instanceof z.ZodError) {
+      return next(new BadRequestError('Invalid merge option'));
+    }
+    if (err instanceof PreconditionFailedError) {
+      return withCurrentRecipe(err, res, id, authReq.userId).then(next, next);
+    }
     if (err instanceof Error && err.message === 'Recipe not found') {
       return next(new NotFoundError('Recipe'));
     }
@@ -125,4 +423,124 @@ router.delete('/:id', requireAuth, async (req, res: Response, next) => {
   }
 });
 
+/**
+ * POST /recipes/:id/restore
+ * Take a deleted recipe out of the trash (and its save, if it was unsaved)
+ */
+router.post('/:id/restore', requireAuth, async (req, res: Response, next) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { id } = req.params;
+
+    await trashService.restoreRecipe(authReq.userId, id);
+
+    const result = await recipeService.getRecipeById(id, authReq.userId);
+    if (!result) {
+      throw new NotFoundError('Recipe');
+    }
+
+    res.setHeader('ETag', toRecipeEtag(result.updatedAt));
+    res.json({
+      recipe_data: withRecipeOwnership(result.envelope.recipe, {
+        isUserOwned: result.isUserOwned,
+      }),
+    });
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * GET /recipes/:id/revisions
+ * List a recipe's revisions, newest first
+ */
+router.get('/:id/revisions', requireAuth, async (req, res: Response, next) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { page, limit } = pageSchema.parse(req.query);
+
+    const result = await recipeService.listRevisions(req.params.id, authReq.userId, page, limit);
+
+    res.json({
+      revisions: result.revisions,
+      pagination: result.pagination,
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return next(new BadRequestError('Invalid pagination'));
+    }
+    next(revisionNotFound(err) ?? err);
+  }
+});
+
+/**
+ * GET /recipes/:id/revisions/diff?from=N&to=M
+ * Changes between two revisions
+ */
+router.get('/:id/revisions/diff', requireAuth, async (req, res: Response, next) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { from, to } = revisionDiffSchema.parse(req.query);
+
+    const diff = await recipeService.diffRevisions(req.params.id, authReq.userId, from, to);
+
+    res.json({ diff });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return next(new BadRequestError('Invalid revision numbers'));
+    }
+    next(revisionNotFound(err) ?? err);
+  }
+});
+
+/**
+ * GET /recipes/:id/revisions/:rev
+ * A recipe as it was at a revision
+ */
+router.get('/:id/revisions/:rev', requireAuth, async (req, res: Response, next) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { rev } = revisionParamsSchema.parse(req.params);
+
+    const { revision, envelope } = await recipeService.getRevision(req.params.id, authReq.userId, rev);
+
+    res.json({
+      revision,
+      recipe_data: withRecipeOwnership(envelope.recipe, { isUserOwned: true }),
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return next(new BadRequestError('Invalid revision number'));
+    }
+    next(revisionNotFound(err) ?? err);
+  }
+});
+
+/**
+ * POST /recipes/:id/revisions/:rev/restore
+ * Restore a recipe to a revision (recorded as a new revision)
+ */
+router.post('/:id/revisions/:rev/restore', requireAuth, async (req, res: Response, next) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { rev } = revisionParamsSchema.parse(req.params);
+
+    const { recipe, warnings } = await recipeService.restoreRevision(req.params.id, authReq.userId, rev);
+
+    res.json({
+      id: recipe.id,
+      title: recipe.title,
+      dietary_labels: recipe.dietary_labels,
+      updated_at: recipe.updated_at,
+      restored_from: rev,
+      warnings,
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return next(new BadRequestError('Invalid revision number'));
+    }
+    next(revisionNotFound(err) ?? err);
+  }
+});
+
 export default router;
@@ -0,0 +1,38 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { optionalAuth } from '../middleware/auth.js';
+import { recipeService } from '../services/recipe.service.js';
+import { BadRequestError } from '../utils/errors.js';
+
+const router = Router();
+
+const searchSchema = z.object({
+  q: z.string().trim().min(1).max(200),
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+/**
+ * GET /search?q=
+ * Ranked full-text search across titles, ingredients, steps, description,
+ * cuisine and tags. Signed-in users also search their own recipes.
+ */
+router.get('/', optionalAuth, async (req: Request, res: Response, next) => {
+  try {
+    const { q, page, limit } = searchSchema.parse(req.query);
+
+    const result = await recipeService.searchRecipes(q, req.userId ?? null, page, limit);
+
+    res.json({
+      recipes: result.recipes,
+      pagination: result.pagination,
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return next(new BadRequestError('Invalid search query'));
+    }
+    next(err);
+  }
+});
+
+export default router;
@@ -1,9 +1,14 @@
 import { Router, Request, Response } from 'express';
 import { z } from 'zod';
-import { requireAuth, AuthenticatedRequest } from '../middleware/auth.js';
+import { requireAuth, optionalAuth, AuthenticatedRequest } from '../middleware/auth.js';
 import { shareService } from '../services/share.service.js';
+import { preferencesService } from '../services/preferences.service.js';
 import { NotFoundError, BadRequestError } from '../utils/errors.js';
 import { withRecipeOwnership } from '../utils/recipe-payload.js';
+import { buildAllergenWarnings } from '../utils/allergens.js';
+import { scaleRecipeData } from '../utils/recipe-scaling.js';
+import { MEASUREMENT_SYSTEMS, convertRecipeData } from '../utils/unit-conversion.js';
+import { RECIPE_OUTPUT_FORMATS, renderRecipe } from '../utils/recipe-export.js';
 
 const router = Router();
 
@@ -12,25 +17,107 @@ const createShareSchema = z.object({
   expires_in_days: z.number().int().positive().max(365).optional(),
 });
 
+const scaleSchema = z.object({
+  servings: z.coerce.number().int().min(1).max(100),
+});
+
+const unitsSchema = z.object({
+  units: z.enum(MEASUREMENT_SYSTEMS).optional(),
+});
+
+// Share pages embed `jsonld` for search engines
+const exportSchema = z.object({
+  format: z.enum(RECIPE_OUTPUT_FORMATS).default('jsonld'),
+});
+
 // ============================================================================
 // Public Routes (no auth required)
 // ============================================================================
 
 /**
- * GET /share/:token
- * View a shared recipe (public access)
+ * GET /share/:token?units=metric|imperial
+ * View a shared recipe (public access). Signed-in users get
+ * `allergen_warnings` for their allergen profile.
  */
-router.get('/:token', async (req: Request, res: Response, next) => {
+router.get('/:token', optionalAuth, async (req: Request, res: Response, next) => {
   try {
     const { token } = req.params;
+    const { units } = unitsSchema.parse(req.query);
 
     const envelope = await shareService.getSharedRecipe(token);
     if (!envelope) {
       throw new NotFoundError('Shared recipe');
     }
 
-    res.json({ recipe_data: withRecipeOwnership(envelope.recipe, { isUserOwned: false }) });
+    const recipe = units ? convertRecipeData(envelope.recipe, units) : envelope.recipe;
+    const recipeData = withRecipeOwnership(recipe, { isUserOwned: false });
+    const allergenProfile = await preferencesService.getAllergenProfile(req.userId ?? null);
+
+    res.json({
+      recipe_data: recipeData,
+      allergen_warnings: buildAllergenWarnings(recipeData.allergens, allergenProfile),
+    });
   } catch (err) {
+    if (err instanceof z.ZodError) {
+      return next(new BadRequestError('Invalid units'));
+    }
+    next(err);
+  }
+});
+
+/**
+ * GET /share/:token/scaled?servings=N
+ * View a shared recipe rescaled to the requested servings (public access)
+ */
+router.get('/:token/scaled', async (req: Request, res: Response, next) => {
+  try {
+    const { token } = req.params;
+    const { servings } = scaleSchema.parse(req.query);
+
+    const envelope = await shareService.getSharedRecipe(token);
+    if (!envelope) {
+      throw new NotFoundError('Shared recipe');
+    }
+
+    const scaled = scaleRecipeData(envelope.recipe, servings);
+    if (!scaled) {
+      throw new BadRequestError('Recipe has no servings to scale from');
+    }
+
+    res.json({
+      recipe_data: withRecipeOwnership(scaled.recipe, { isUserOwned: false }),
+      scaling: scaled.scaling,
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return next(new BadRequestError('Invalid servings'));
+    }
+    next(err);
+  }
+});
+
+/**
+ * GET /share/:token/export?format=jsonld|whatEat|markdown|text
+ * A shared recipe in a portable format (public access)
+ */
+router.get('/:token/export', async (req: Request, res: Response, next) => {
+  try {
+    const { token } = req.params;
+    const { format } = exportSchema.parse(req.query);
+
+    const envelope = await shareService.getSharedRecipe(token);
+    if (!envelope) {
+      throw new NotFoundError('Shared recipe');
+    }
+
+    const rendered = renderRecipe(envelope, format);
+
+    res.setHeader('Content-Type', rendered.content_type);
+    res.send(rendered.body);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return next(new BadRequestError('Invalid export format'));
+    }
     next(err);
   }
 });
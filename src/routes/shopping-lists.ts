@@ -0,0 +1,143 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { requireAuth, AuthenticatedRequest } from '../middleware/auth.js';
+import { shoppingListService } from '../services/shopping-list.service.js';
+import { BadRequestError } from '../utils/errors.js';
+
+const router = Router();
+
+const paginationSchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+const createShoppingListSchema = z.object({
+  recipe_ids: z.array(z.string().uuid()).min(1).max(50),
+  name: z.string().trim().min(1).max(200).optional(),
+});
+
+const updateShoppingListSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+});
+
+const updateItemSchema = z.object({
+  is_checked: z.boolean(),
+});
+
+/**
+ * GET /shopping-lists
+ * List user's shopping lists
+ */
+router.get('/', requireAuth, async (req, res: Response, next) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { page, limit } = paginationSchema.parse(req.query);
+
+    const result = await shoppingListService.listShoppingLists(authReq.userId, page, limit);
+
+    res.json({
+      shopping_lists: result.shopping_lists,
+      pagination: result.pagination,
+    });
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * POST /shopping-lists
+ * Build a shopping list from owned, saved or feed recipes
+ */
+router.post('/', requireAuth, async (req, res: Response, next) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const payload = createShoppingListSchema.parse(req.body);
+
+    const shoppingList = await shoppingListService.createShoppingList(authReq.userId, payload);
+
+    res.status(201).json({ shopping_list: shoppingList });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return next(new BadRequestError('Invalid shopping list payload'));
+    }
+    next(err);
+  }
+});
+
+/**
+ * GET /shopping-lists/:id
+ * Get a shopping list with items grouped by aisle
+ */
+router.get('/:id', requireAuth, async (req, res: Response, next) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { id } = req.params;
+
+    const shoppingList = await shoppingListService.getShoppingList(authReq.userId, id);
+
+    res.json({ shopping_list: shoppingList });
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * PATCH /shopping-lists/:id
+ * Rename a shopping list
+ */
+router.patch('/:id', requireAuth, async (req, res: Response, next) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { id } = req.params;
+    const { name } = updateShoppingListSchema.parse(req.body);
+
+    const shoppingList = await shoppingListService.renameShoppingList(authReq.userId, id, name);
+
+    res.json({ shopping_list: shoppingList });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return next(new BadRequestError('Invalid shopping list payload'));
+    }
+    next(err);
+  }
+});
+
+/**
+ * PATCH /shopping-lists/:id/items/:itemId
+ * Check off (or uncheck) an item
+ */
+router.patch('/:id/items/:itemId', requireAuth, async (req, res: Response, next) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { id, itemId } = req.params;
+    const { is_checked } = updateItemSchema.parse(req.body);
+
+    const item = await shoppingListService.setItemChecked(authReq.userId, id, itemId, is_checked);
+
+    res.json({ item });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return next(new BadRequestError('Invalid shopping list item payload'));
+    }
+    next(err);
+  }
+});
+
+/**
+ * DELETE /shopping-lists/:id
+ * Delete a shopping list
+ */
+router.delete('/:id', requireAuth, async (req, res: Response, next) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { id } = req.params;
+
+    await shoppingListService.deleteShoppingList(authReq.userId, id);
+
+    res.status(204).send();
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
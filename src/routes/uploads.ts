@@ -11,6 +11,7 @@ import type { Database } from '../types/supabase.js';
 const router = Router();
 
 const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+const MAX_IMPORT_FILE_BYTES = 50 * 1024 * 1024;
 
 const createRecipeImageUploadSchema = z.object({
   content_type: z.string().min(1),
@@ -27,14 +28,55 @@ const contentTypeToExtension: Record<string, string> = {
   'image/heif': 'heif',
 };
 
-const sanitizeBaseName = (value: string): string => {
+// Recipe-manager exports read by POST /import/file
+const importFileExtensions = new Set([
+  'paprikarecipes',
+  'paprikarecipe',
+  'zip',
+  'json',
+  'html',
+  'mxp',
+  'mx2',
+  'mmf',
+  'mm',
+  'txt',
+]);
+
+const createImportFileUploadSchema = z.object({
+  file_name: z.string().min(1).max(200),
+  file_size_bytes: z.number().int().positive(),
+});
+
+const sanitizeBaseName = (value: string, fallback = 'recipe-image'): string => {
   return value
     .toLowerCase()
     .replace(/\.[^.]+$/, '')
     .replace(/[^a-z0-9._-]/g, '-')
     .replace(/-+/g, '-')
     .replace(/^-+|-+$/g, '')
-    .slice(0, 64) || 'recipe-image';
+    .slice(0, 64) || fallback;
+};
+
+// Storage bucket as the signed-in user, so storage policies apply to the upload
+const userStorage = (accessToken: string) => {
+  const supabaseUser = createClient<Database>(
+    env.SUPABASE_URL,
+    env.SUPABASE_ANON_KEY,
+    {
+      global: {
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+        },
+      },
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+        detectSessionInUrl: false,
+      },
+    }
+  );
+
+  return supabaseUser.storage.from(env.SUPABASE_STORAGE_BUCKET);
 };
 
 /**
@@ -63,24 +105,7 @@ router.post('/recipe-images', requireAuth, async (req, res: Response, next) => {
       throw new BadRequestError('Missing access token');
     }
 
-    const supabaseUser = createClient<Database>(
-      env.SUPABASE_URL,
-      env.SUPABASE_ANON_KEY,
-      {
-        global: {
-          headers: {
-            Authorization: `Bearer ${authReq.accessToken}`,
-          },
-        },
-        auth: {
-          persistSession: false,
-          autoRefreshToken: false,
-          detectSessionInUrl: false,
-        },
-      }
-    );
-
-    const storage = supabaseUser.storage.from(env.SUPABASE_STORAGE_BUCKET);
+    const storage = userStorage(authReq.accessToken);
     const { data, error } = await storage.createSignedUploadUrl(path);
 
     if (error || !data?.signedUrl) {
@@ -120,4 +145,65 @@ router.post('/recipe-images', requireAuth, async (req, res: Response, next) => {
   }
 });
 
+/**
+ * POST /uploads/import-files
+ * Create a signed upload URL for a recipe-manager export (see POST /import/file).
+ */
+router.post('/import-files', requireAuth, async (req, res: Response, next) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { file_name, file_size_bytes } = createImportFileUploadSchema.parse(req.body);
+
+    const extension = file_name.toLowerCase().split('.').pop() ?? '';
+    if (!file_name.includes('.') || !importFileExtensions.has(extension)) {
+      throw new BadRequestError('Unsupported file type');
+    }
+
+    if (file_size_bytes > MAX_IMPORT_FILE_BYTES) {
+      throw new BadRequestError('File exceeds 50 MB max upload size');
+    }
+
+    const fileName = `${sanitizeBaseName(file_name, 'recipe-export')}-${crypto.randomUUID()}.${extension}`;
+    const path = `import-files/${authReq.userId}/${fileName}`;
+
+    if (!authReq.accessToken) {
+      throw new BadRequestError('Missing access token');
+    }
+
+    const { data, error } = await userStorage(authReq.accessToken).createSignedUploadUrl(path);
+
+    if (error || !data?.signedUrl) {
+      logger.error(
+        {
+          error,
+          bucket: env.SUPABASE_STORAGE_BUCKET,
+          path,
+          userId: authReq.userId,
+        },
+        'Failed to create signed upload URL'
+      );
+      throw new BadRequestError('Failed to create upload URL', {
+        storage_message: error?.message ?? null,
+        storage_status: (error as { statusCode?: number })?.statusCode ?? null,
+      });
+    }
+
+    res.status(201).json({
+      upload_url: data.signedUrl,
+      token: data.token ?? null,
+      path,
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/octet-stream',
+      },
+      max_size_bytes: MAX_IMPORT_FILE_BYTES,
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return next(new BadRequestError('Invalid upload payload'));
+    }
+    next(err);
+  }
+});
+
 export default router;
@@ -3,6 +3,9 @@ import type { Json } from '../types/supabase.js';
 import { normalizeDietaryLabels } from '../utils/dietary-labels.js';
 import { normalizeCuisine } from '../utils/cuisines.js';
 import { normalizeRecipeTags } from '../utils/recipe-tags.js';
+import { toIngredientColumns } from '../utils/ingredient-parser.js';
+import { computeRecipeNutrition } from '../utils/nutrition.js';
+import { reconcileDietaryLabels } from '../utils/dietary-inference.js';
 
 // ============================================================================
 // Recipe Envelope Schema
@@ -22,16 +25,45 @@ const mediaItemSchema = z.object({
   is_generated: z.boolean().default(false),
 });
 
-// Ingredient schema (intentionally minimal to reduce AI hallucination)
-const ingredientSchema = z.object({
+// Ingredient schema (intentionally minimal to reduce AI hallucination).
+// quantity/unit/ingredient_name are derived from raw_text on every write;
+// values supplied by clients are accepted for round-tripping but ignored.
+const ingredientSchemaV1 = z.object({
   raw_text: z.string().min(1).max(500),
+  quantity: z.number().nonnegative().nullable().optional(),
+  unit: z.string().max(50).nullable().optional(),
+  ingredient_name: z.string().max(200).nullable().optional(),
 });
 
 // Step schema
-const stepSchema = z.object({
+const stepSchemaV1 = z.object({
   instruction: z.string().min(1).max(2000),
 });
 
+// Group heading ("For the sauce") shared by consecutive ingredients or steps
+const sectionSchema = z.string().trim().min(1).max(100).nullable().optional();
+
+const ingredientSchema = ingredientSchemaV1.extend({ section: sectionSchema });
+const stepSchema = stepSchemaV1.extend({ section: sectionSchema });
+
+// Nutrition per serving, computed from the ingredients on every write;
+// values supplied by clients are accepted for round-tripping but ignored
+const nutrientAmount = z.number().nonnegative();
+const nutritionSchema = z.object({
+  per_serving: z.object({
+    calories: nutrientAmount,
+    protein_g: nutrientAmount,
+    fat_g: nutrientAmount,
+    carbohydrates_g: nutrientAmount,
+    fiber_g: nutrientAmount,
+    sugar_g: nutrientAmount,
+    sodium_mg: nutrientAmount,
+  }),
+  servings: z.number().positive(),
+  confidence: z.number().min(0).max(1),
+  unmatched_ingredients: z.array(z.string().max(500)).default([]),
+});
+
 // Source tracking schema
 const sourceSchema = z.object({
   type: z.enum(['manual', 'url', 'image', 'ai']),
@@ -46,42 +78,204 @@ const metadataSchema = z.object({
   share_notes: z.string().max(1000).nullable().optional(),
 }).passthrough(); // allow additional fields
 
-// The full recipe envelope schema
-export const recipeEnvelopeSchema = z.object({
+const recipeSchemaV1 = z.object({
+  id: z.string().uuid().nullable(),
+  title: z.string().min(1).max(200),
+  description: z.string().max(2000).nullable().optional(),
+
+  // Nutritional & timing
+  servings: z.number().int().positive().nullable().optional(),
+  calories: z.number().int().positive().nullable().optional(),
+  prep_time_minutes: z.number().int().positive().nullable().optional(),
+  cook_time_minutes: z.number().int().positive().nullable().optional(),
+
+  // Categorization (free-form)
+  tags: z.array(z.string().max(50)).default([]),
+  cuisine: z.string().max(100).nullable().optional(),
+  dietary_labels: z.array(z.string().max(50)).default([]),
+
+  // Source
+  source: sourceSchema.default({ type: 'manual' }),
+
+  // Content
+  ingredients: z.array(ingredientSchemaV1).min(1),
+  steps: z.array(stepSchemaV1).min(1),
+  media: z.array(mediaItemSchema).default([]),
+
+  // Metadata
+  metadata: metadataSchema.default({}),
+});
+
+// Version 1: flat ingredient and step lists
+const recipeEnvelopeV1Schema = z.object({
   format: z.literal('whatEat-recipe'),
   version: z.literal(1),
-  recipe: z.object({
-    id: z.string().uuid().nullable(),
-    title: z.string().min(1).max(200),
-    description: z.string().max(2000).nullable().optional(),
-
-    // Nutritional & timing
-    servings: z.number().int().positive().nullable().optional(),
-    calories: z.number().int().positive().nullable().optional(),
-    prep_time_minutes: z.number().int().positive().nullable().optional(),
-    cook_time_minutes: z.number().int().positive().nullable().optional(),
-
-    // Categorization (free-form)
-    tags: z.array(z.string().max(50)).default([]),
-    cuisine: z.string().max(100).nullable().optional(),
-    dietary_labels: z.array(z.string().max(50)).default([]),
-
-    // Source
-    source: sourceSchema.default({ type: 'manual' }),
-
-    // Content
-    ingredients: z.array(ingredientSchema).min(1),
-    steps: z.array(stepSchema).min(1),
-    media: z.array(mediaItemSchema).default([]),
-
-    // Metadata
-    metadata: metadataSchema.default({}),
+  recipe: recipeSchemaV1,
+});
+
+// Version 2: adds ingredient/step sections
+const recipeSchemaV2 = recipeSchemaV1.extend({
+  ingredients: z.array(ingredientSchema).min(1),
+  steps: z.array(stepSchema).min(1),
+});
+
+const recipeEnvelopeV2Schema = z.object({
+  format: z.literal('whatEat-recipe'),
+  version: z.literal(2),
+  recipe: recipeSchemaV2,
+});
+
+// The full recipe envelope schema (version 3: adds computed nutrition)
+export const recipeEnvelopeSchema = z.object({
+  format: z.literal('whatEat-recipe'),
+  version: z.literal(3),
+  recipe: recipeSchemaV2.extend({
+    nutrition: nutritionSchema.nullable().optional(),
   }),
 });
 
 export type RecipeEnvelope = z.infer<typeof recipeEnvelopeSchema>;
 export type RecipeEnvelopeData = RecipeEnvelope['recipe'];
 
+// Partial recipe for updates: only the fields present are changed
+export const recipeUpdateSchema = recipeEnvelopeSchema.shape.recipe.partial();
+
+// ============================================================================
+// Envelope Versions
+// ============================================================================
+// Every published version stays parseable so stored payloads and old clients
+// keep working. To add version N+1: define its schema, register it below with
+// `upgrade` (N -> N+1) and `downgrade` (N+1 -> N), then point
+// recipeEnvelopeSchema and CURRENT_ENVELOPE_VERSION at it.
+// ============================================================================
+
+type EnvelopeObject = Record<string, unknown>;
+
+type EnvelopeVersionDefinition = {
+  schema: z.ZodTypeAny;
+  // From a parsed envelope of the previous version; `version` is set by the caller
+  upgrade?: (previous: EnvelopeObject) => EnvelopeObject;
+  // To the previous version, for clients that ask for it via Accept-Version
+  downgrade?: (current: EnvelopeObject) => EnvelopeObject;
+};
+
+const withoutSection = (item: unknown) => {
+  if (!item || typeof item !== 'object') return item;
+  const rest = { ...(item as EnvelopeObject) };
+  delete rest.section;
+  return rest;
+};
+
+const ENVELOPE_VERSIONS: Record<number, EnvelopeVersionDefinition> = {
+  1: { schema: recipeEnvelopeV1Schema },
+  2: {
+    schema: recipeEnvelopeV2Schema,
+    // Version 1 items have no section; they stay ungrouped
+    upgrade: (previous) => previous,
+    downgrade: (current) => {
+      const recipe = current.recipe as EnvelopeObject;
+      return {
+        ...current,
+        recipe: {
+          ...recipe,
+          ingredients: Array.isArray(recipe.ingredients) ? recipe.ingredients.map(withoutSection) : recipe.ingredients,
+          steps: Array.isArray(recipe.steps) ? recipe.steps.map(withoutSection) : recipe.steps,
+        },
+      };
+    },
+  },
+  3: {
+    schema: recipeEnvelopeSchema,
+    // Nutrition is filled in when the recipe is saved
+    upgrade: (previous) => previous,
+    downgrade: (current) => {
+      const recipe = { ...(current.recipe as EnvelopeObject) };
+      delete recipe.nutrition;
+      return { ...current, recipe };
+    },
+  },
+};
+
+export const CURRENT_ENVELOPE_VERSION = 3;
+
+export const SUPPORTED_ENVELOPE_VERSIONS = Object.keys(ENVELOPE_VERSIONS)
+  .map(Number)
+  .sort((a, b) => a - b);
+
+const envelopeVersionSchema = z
+  .object({
+    format: z.literal('whatEat-recipe'),
+    version: z.number().int().refine((version) => version in ENVELOPE_VERSIONS, {
+      message: `Unsupported envelope version (supported: ${SUPPORTED_ENVELOPE_VERSIONS.join(', ')})`,
+    }),
+  })
+  .passthrough();
+
+/**
+ * Parse an envelope of any known version and upgrade it to the current one.
+ * Throws a ZodError for unknown versions or invalid content.
+ */
+export function parseRecipeEnvelope(input: unknown): RecipeEnvelope {
+  const { version: inputVersion } = envelopeVersionSchema.parse(input);
+  if (inputVersion === CURRENT_ENVELOPE_VERSION) {
+    return recipeEnvelopeSchema.parse(input);
+  }
+
+  let envelope = ENVELOPE_VERSIONS[inputVersion].schema.parse(input) as EnvelopeObject;
+  for (let version = inputVersion + 1; version <= CURRENT_ENVELOPE_VERSION; version += 1) {
+    const { schema, upgrade } = ENVELOPE_VERSIONS[version];
+    if (!upgrade) {
+      throw new Error(`Envelope version ${version} has no upgrade`);
+    }
+    envelope = schema.parse({ ...upgrade(envelope), version }) as EnvelopeObject;
+  }
+  return envelope as RecipeEnvelope;
+}
+
+/**
+ * Zod schema accepting any known envelope version, output as the current one
+ */
+export const anyVersionRecipeEnvelopeSchema = z.unknown().transform((value, ctx): RecipeEnvelope => {
+  try {
+    return parseRecipeEnvelope(value);
+  } catch (error) {
+    if (!(error instanceof z.ZodError)) throw error;
+    error.issues.forEach((issue) => ctx.addIssue(issue));
+    return z.NEVER;
+  }
+});
+
+/**
+ * Convert a current envelope down to an older version. The result is not
+ * validated, so extra fields (e.g. ownership on recipe_data) pass through.
+ */
+export function downgradeRecipeEnvelope(
+  envelope: EnvelopeObject,
+  targetVersion: number
+): EnvelopeObject {
+  let current = envelope;
+  for (let version = CURRENT_ENVELOPE_VERSION; version > targetVersion; version -= 1) {
+    const { downgrade } = ENVELOPE_VERSIONS[version];
+    if (!downgrade) {
+      throw new Error(`Envelope version ${version} has no downgrade`);
+    }
+    current = { ...downgrade(current), version: version - 1 };
+  }
+  return current;
+}
+
+/**
+ * Downgrade a bare recipe object (the `recipe` of an envelope, as returned in
+ * `recipe_data`) by wrapping it in a current envelope
+ */
+export function downgradeRecipeData(recipe: EnvelopeObject, targetVersion: number): EnvelopeObject {
+  const downgraded = downgradeRecipeEnvelope(
+    { format: 'whatEat-recipe', version: CURRENT_ENVELOPE_VERSION, recipe },
+    targetVersion
+  );
+  return downgraded.recipe as EnvelopeObject;
+}
+
 // ============================================================================
 // Minimal AI Prompt Schema
 // ============================================================================
@@ -99,8 +293,8 @@ export const aiRecipeOutputSchema = z.object({
   tags: z.array(z.string()).nullable().optional(),
   cuisine: z.string().nullable().optional(),
   dietary_labels: z.array(z.string()).nullable().optional(),
-  ingredients: z.array(z.object({ raw_text: z.string() })),
-  steps: z.array(z.object({ instruction: z.string() })),
+  ingredients: z.array(z.object({ raw_text: z.string(), section: z.string().max(100).nullable().optional() })),
+  steps: z.array(z.object({ instruction: z.string(), section: z.string().max(100).nullable().optional() })),
 });
 
 export type AIRecipeOutput = z.infer<typeof aiRecipeOutputSchema>;
@@ -115,7 +309,7 @@ export type AIRecipeOutput = z.infer<typeof aiRecipeOutputSchema>;
 export function wrapAIOutput(aiRecipe: AIRecipeOutput, imageUrl?: string): RecipeEnvelope {
   return {
     format: 'whatEat-recipe',
-    version: 1,
+    version: CURRENT_ENVELOPE_VERSION,
     recipe: {
       id: null,
       title: aiRecipe.title,
@@ -128,8 +322,14 @@ export function wrapAIOutput(aiRecipe: AIRecipeOutput, imageUrl?: string): Recip
       cuisine: normalizeCuisine(aiRecipe.cuisine),
       dietary_labels: normalizeDietaryLabels(aiRecipe.dietary_labels),
       source: { type: 'ai' },
-      ingredients: aiRecipe.ingredients,
-      steps: aiRecipe.steps,
+      ingredients: aiRecipe.ingredients.map((ing) => ({
+        raw_text: ing.raw_text,
+        section: ing.section?.trim() || null,
+      })),
+      steps: aiRecipe.steps.map((step) => ({
+        instruction: step.instruction,
+        section: step.section?.trim() || null,
+      })),
       media: imageUrl
         ? [{ media_type: 'image', url: imageUrl, name: 'Hero image', is_generated: true }]
         : [],
@@ -155,11 +355,12 @@ export function envelopeToDbRecipe(envelope: RecipeEnvelope, userId: string | nu
     cook_time_minutes: recipe.cook_time_minutes,
     tags: normalizeRecipeTags(recipe.tags),
     cuisine: normalizeCuisine(recipe.cuisine),
-    dietary_labels: normalizeDietaryLabels(recipe.dietary_labels),
+    dietary_labels: reconcileDietaryLabels(recipe.dietary_labels, recipe.ingredients).dietary_labels,
     source_type: recipe.source.type,
     source_url: recipe.source.url ?? null,
     source_recipe_id: recipe.source.recipe_id ?? null,
     metadata: recipe.metadata as Json,
+    nutrition: computeRecipeNutrition(recipe.ingredients, recipe.servings) as Json | null,
   };
 }
 
@@ -171,6 +372,8 @@ export function envelopeToDbIngredients(envelope: RecipeEnvelope, recipeId: stri
     recipe_id: recipeId,
     position: index + 1,
     raw_text: ing.raw_text,
+    section: ing.section ?? null,
+    ...toIngredientColumns(ing.raw_text),
   }));
 }
 
@@ -182,6 +385,7 @@ export function envelopeToDbSteps(envelope: RecipeEnvelope, recipeId: string) {
     recipe_id: recipeId,
     position: index + 1,
     instruction: step.instruction,
+    section: step.section ?? null,
   }));
 }
 
@@ -223,9 +427,16 @@ export function dbToEnvelope(
     source_url: string | null;
     source_recipe_id: string | null;
     metadata: Json;
+    nutrition?: Json | null;
   },
-  ingredients: Array<{ raw_text: string }>,
-  steps: Array<{ instruction: string }>,
+  ingredients: Array<{
+    raw_text: string;
+    quantity?: number | null;
+    unit?: string | null;
+    ingredient_name?: string | null;
+    section?: string | null;
+  }>,
+  steps: Array<{ instruction: string; section?: string | null }>,
   media: Array<{ media_type: string; url: string; name: string | null; is_generated: boolean }>
 ): RecipeEnvelope {
   // Safely cast metadata from Json to the expected object shape
@@ -235,7 +446,7 @@ export function dbToEnvelope(
 
   return {
     format: 'whatEat-recipe',
-    version: 1,
+    version: CURRENT_ENVELOPE_VERSION,
     recipe: {
       id: recipe.id,
       title: recipe.title,
@@ -252,8 +463,20 @@ export function dbToEnvelope(
         url: recipe.source_url,
         recipe_id: recipe.source_recipe_id,
       },
-      ingredients: ingredients.map((i) => ({ raw_text: i.raw_text })),
-      steps: steps.map((s) => ({ instruction: s.instruction })),
+      ingredients: ingredients.map((i) => {
+        // Rows written before structured parsing have null columns; derive on read
+        const columns = i.ingredient_name ? i : toIngredientColumns(i.raw_text);
+        return {
+          raw_text: i.raw_text,
+          quantity: columns.quantity !== null && columns.quantity !== undefined
+            ? Number(columns.quantity)
+            : null,
+          unit: columns.unit ?? null,
+          ingredient_name: columns.ingredient_name ?? null,
+          section: i.section ?? null,
+        };
+      }),
+      steps: steps.map((s) => ({ instruction: s.instruction, section: s.section ?? null })),
       media: media.map((m) => ({
         media_type: m.media_type as 'image' | 'video',
         url: m.url,
@@ -261,6 +484,7 @@ export function dbToEnvelope(
         is_generated: m.is_generated,
       })),
       metadata: metadataObj,
+      nutrition: nutritionSchema.safeParse(recipe.nutrition).data ?? null,
     },
   };
 }
@@ -307,7 +531,7 @@ export type LegacyCreateRecipe = z.infer<typeof legacyCreateRecipeSchema>;
 export function legacyToEnvelope(legacy: LegacyCreateRecipe): RecipeEnvelope {
   return {
     format: 'whatEat-recipe',
-    version: 1,
+    version: CURRENT_ENVELOPE_VERSION,
     recipe: {
       id: null,
       title: legacy.title,
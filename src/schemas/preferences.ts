@@ -0,0 +1,63 @@
+import { z } from 'zod';
+import { normalizeDietaryLabel } from '../utils/dietary-labels.js';
+import { normalizeCuisine } from '../utils/cuisines.js';
+import { SKILL_LEVELS } from '../utils/preferences.js';
+import { normalizeAllergen } from '../utils/allergens.js';
+
+// ============================================================================
+// User Preferences Schema
+// ============================================================================
+// Validates preference writes. Every dietary label, cuisine and allergen must
+// map to a canonical value; the canonical value is what gets stored.
+// ============================================================================
+
+const MAX_LIST_LENGTH = 50;
+
+const canonicalList = <T extends string>(kind: string, normalize: (value: string) => T | null) =>
+  z
+    .array(
+      z.string().trim().min(1).max(100).transform((value, ctx) => {
+        const canonical = normalize(value);
+        if (!canonical) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown ${kind}: ${value}` });
+          return z.NEVER;
+        }
+        return canonical;
+      })
+    )
+    .max(MAX_LIST_LENGTH)
+    .transform((values) => Array.from(new Set(values)));
+
+export const preferencesSchema = z
+  .object({
+    dietary_restrictions: canonicalList('dietary label', normalizeDietaryLabel),
+    preferred_cuisines: canonicalList('cuisine', normalizeCuisine),
+    disliked_cuisines: canonicalList('cuisine', normalizeCuisine),
+    excluded_ingredients: z
+      .array(z.string().trim().min(1).max(100))
+      .max(MAX_LIST_LENGTH)
+      .transform((values) => Array.from(new Set(values.map((value) => value.replace(/\s+/g, ' ').toLowerCase())))),
+    skill_level: z.enum(SKILL_LEVELS).nullable(),
+    max_total_time_minutes: z.number().int().min(5).max(1440).nullable(),
+    household_size: z.number().int().min(1).max(20).nullable(),
+    allergens: canonicalList('allergen', normalizeAllergen),
+  })
+  .strict()
+  .partial()
+  .superRefine((value, ctx) => {
+    const preferred = new Set(value.preferred_cuisines ?? []);
+    const overlap = (value.disliked_cuisines ?? []).filter((cuisine) => preferred.has(cuisine));
+    if (overlap.length > 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['disliked_cuisines'],
+        message: `Cuisines cannot be both preferred and disliked: ${overlap.join(', ')}`,
+      });
+    }
+  });
+
+export type PreferencesInput = z.infer<typeof preferencesSchema>;
+
+// Issue list returned to clients so they can point at the offending field
+export const formatPreferenceIssues = (err: z.ZodError) =>
+  err.issues.map((issue) => ({ path: issue.path.join('.'), message: issue.message }));
@@ -4,16 +4,14 @@ import { env } from '../config/env.js';
 import { logger } from '../utils/logger.js';
 import { getOpenAIErrorDetails } from '../utils/openai-errors.js';
 import { imageService } from './image.service.js';
+import { recipeService } from './recipe.service.js';
 import { CANONICAL_DIETARY_LABELS, normalizeDietaryLabels } from '../utils/dietary-labels.js';
 import { CANONICAL_CUISINES, normalizeCuisine } from '../utils/cuisines.js';
 import { CANONICAL_RECIPE_TAGS, normalizeRecipeTags } from '../utils/recipe-tags.js';
+import { buildPreferenceConstraints, type RecipePreferences } from '../utils/preferences.js';
 import {
   aiRecipeOutputSchema,
   wrapAIOutput,
-  envelopeToDbRecipe,
-  envelopeToDbIngredients,
-  envelopeToDbSteps,
-  envelopeToDbMedia,
   type AIRecipeOutput,
   type RecipeEnvelope,
 } from '../schemas/envelope.js';
@@ -37,8 +35,8 @@ const AI_RECIPE_JSON_SCHEMA = {
       type: 'array',
       items: {
         type: 'object',
-        properties: { raw_text: { type: 'string' } },
-        required: ['raw_text'],
+        properties: { raw_text: { type: 'string' }, section: { type: ['string', 'null'] } },
+        required: ['raw_text', 'section'],
         additionalProperties: false,
       },
     },
@@ -46,8 +44,8 @@ const AI_RECIPE_JSON_SCHEMA = {
       type: 'array',
       items: {
         type: 'object',
-        properties: { instruction: { type: 'string' } },
-        required: ['instruction'],
+        properties: { instruction: { type: 'string' }, section: { type: ['string', 'null'] } },
+        required: ['instruction', 'section'],
         additionalProperties: false,
       },
     },
@@ -194,7 +192,10 @@ export class AIService {
   /**
    * Generate a recipe based on a user text prompt
    */
-  async generateRecipeFromText(text: string): Promise<TextRecipeResult | null> {
+  async generateRecipeFromText(
+    text: string,
+    preferences?: RecipePreferences | null
+  ): Promise<TextRecipeResult | null> {
     if (!this.openai) {
       logger.warn('OpenAI API key not configured');
       return null;
@@ -202,7 +203,10 @@ export class AIService {
 
     try {
       const systemPrompt = this.buildTextRecipeSystemPrompt();
-      const userPrompt = `Create a recipe based on this request:\n\n${text}`;
+      const constraints = preferences ? buildPreferenceConstraints(preferences) : [];
+      const userPrompt = constraints.length > 0
+        ? `Create a recipe based on this request:\n\n${text}\n\nUser preferences:\n- ${constraints.join('\n- ')}`
+        : `Create a recipe based on this request:\n\n${text}`;
 
       const temperature = this.getTemperature(0.7);
       const response = await this.openai.chat.completions.create({
@@ -456,6 +460,7 @@ Guidelines:
 - If cuisine is unclear, return null
 - Keep ingredient lists between 5-15 items
 - Keep steps between 4-10 instructions
+- Set "section" on ingredients and steps (e.g. "Frosting") only when the recipe has distinct components; otherwise null
 
 Output a JSON object with the recipe details.`;
   }
@@ -469,6 +474,7 @@ Rules:
 - Use common ingredients and straightforward techniques for simple recipes.
 - Keep ingredient lists between 5-12 items for simple recipes.
 - Keep steps between 4-8 instructions for simple recipes.
+- Set "section" on ingredients and steps (e.g. "Frosting") only when the recipe has distinct components; otherwise null
 - Tags must use this exact list: ${CANONICAL_RECIPE_TAGS.join(', ')}
 - Use "meal" for lunch/dinner mains
 - If a tag is not clearly applicable, omit it (return an empty array if none)
@@ -535,57 +541,12 @@ Output a JSON object with the recipe details.`;
    */
   async saveGeneratedRecipe(envelope: RecipeEnvelope): Promise<Recipe | null> {
     try {
-      // Insert recipe (user_id = null for global feed)
-      const recipeData = envelopeToDbRecipe(envelope, null);
-      const { data: recipe, error: recipeError } = await supabaseAdmin
-        .from('recipes')
-        .insert(recipeData)
-        .select()
-        .single();
-
-      if (recipeError || !recipe) {
-        logger.error({ recipeError }, 'Failed to insert recipe');
-        return null;
-      }
-
-      // Insert ingredients
-      if (envelope.recipe.ingredients.length > 0) {
-        const ingredientsData = envelopeToDbIngredients(envelope, recipe.id);
-        const { error: ingError } = await supabaseAdmin
-          .from('recipe_ingredients')
-          .insert(ingredientsData);
-
-        if (ingError) {
-          logger.error({ ingError }, 'Failed to insert ingredients');
-        }
-      }
-
-      // Insert steps
-      if (envelope.recipe.steps.length > 0) {
-        const stepsData = envelopeToDbSteps(envelope, recipe.id);
-        const { error: stepsError } = await supabaseAdmin
-          .from('recipe_steps')
-          .insert(stepsData);
-
-        if (stepsError) {
-          logger.error({ stepsError }, 'Failed to insert steps');
-        }
-      }
-
-      // Insert media
-      if (envelope.recipe.media.length > 0) {
-        const mediaData = envelopeToDbMedia(envelope, recipe.id);
-        const { error: mediaError } = await supabaseAdmin
-          .from('recipe_media')
-          .insert(mediaData);
-
-        if (mediaError) {
-          logger.error({ mediaError }, 'Failed to insert media');
-        }
-      }
+      // Insert recipe (user_id = null for global feed) with its ingredients,
+      // steps and media in one transaction
+      const recipe = await recipeService.insertEnvelope(envelope, null);
 
       logger.info({ recipeId: recipe.id, title: recipe.title }, 'Saved generated recipe');
-      return recipe as Recipe;
+      return recipe;
     } catch (error) {
       logger.error({ error }, 'Failed to save generated recipe');
       return null;
@@ -0,0 +1,569 @@
+import { supabaseAdmin } from '../config/supabase.js';
+import { recipeService } from './recipe.service.js';
+import { shareService } from './share.service.js';
+import { BadRequestError, NotFoundError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import { normalizeRecipeTags } from '../utils/recipe-tags.js';
+import { normalizeDietaryLabels } from '../utils/dietary-labels.js';
+import { canonicalizeCuisines } from '../utils/preferences.js';
+import type { RecipeEnvelope } from '../schemas/envelope.js';
+import type { RecipeCollection, RecipeListItem } from '../types/index.js';
+
+export type CreateCollectionInput = {
+  name: string;
+  description?: string | null;
+  cover_image_url?: string | null;
+  recipe_ids?: string[];
+};
+
+export type UpdateCollectionInput = Partial<Omit<CreateCollectionInput, 'recipe_ids'>>;
+
+export type CollectionRecipeFilters = {
+  cuisine?: string;
+  tags?: string;
+  dietary_labels?: string;
+  search?: string;
+};
+
+export type CollectionSummary = Omit<RecipeCollection, 'cover_image_url'> & {
+  // The chosen cover, else the first recipe image in the collection
+  cover_image_url: string | null;
+  recipe_count: number;
+};
+
+// What a share link shows: no owner or token
+export type SharedCollection = Omit<CollectionSummary, 'user_id' | 'share_token'>;
+
+export interface PaginatedCollections {
+  collections: CollectionSummary[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+export interface PaginatedCollectionRecipes {
+  recipes: RecipeListItem[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+export const MAX_COLLECTION_RECIPES = 1000;
+
+const splitFilter = (value?: string): string[] =>
+  (value ?? '').split(',').map((item) => item.trim()).filter(Boolean);
+
+// Raw and canonical values both match, as in the feed filters
+const withCanonical = (raw: string[], canonical: string[]): string[] | null => {
+  const values = Array.from(new Set([...raw, ...canonical]));
+  return values.length > 0 ? values : null;
+};
+
+const toShared = (summary: CollectionSummary): SharedCollection => {
+  const shared: Partial<CollectionSummary> = { ...summary };
+  delete shared.user_id;
+  delete shared.share_token;
+  return shared as SharedCollection;
+};
+
+export class CollectionService {
+  /**
+   * Create a collection at the end of the user's list, optionally with recipes
+   */
+  async createCollection(userId: string, input: CreateCollectionInput): Promise<CollectionSummary> {
+    const { data: last, error: lastError } = await supabaseAdmin
+      .from('recipe_collections')
+      .select('position')
+      .eq('user_id', userId)
+      .order('position', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (lastError) {
+      throw new BadRequestError('Failed to fetch collections');
+    }
+
+    const { data: collection, error } = await supabaseAdmin
+      .from('recipe_collections')
+      .insert({
+        user_id: userId,
+        name: input.name.trim(),
+        description: input.description?.trim() || null,
+        cover_image_url: input.cover_image_url ?? null,
+        position: last ? last.position + 1 : 0,
+      })
+      .select('*')
+      .single();
+
+    if (error || !collection) {
+      throw new BadRequestError('Failed to create collection');
+    }
+
+    if (input.recipe_ids && input.recipe_ids.length > 0) {
+      try {
+        await this.addRecipes(userId, collection.id, input.recipe_ids);
+      } catch (err) {
+        await supabaseAdmin.from('recipe_collections').delete().eq('id', collection.id);
+        throw err;
+      }
+    }
+
+    logger.info({ userId, collectionId: collection.id }, 'Created collection');
+    return this.getCollection(userId, collection.id);
+  }
+
+  /**
+   * List a user's collections in their chosen order
+   */
+  async listCollections(userId: string, page: number, limit: number): Promise<PaginatedCollections> {
+    const offset = (page - 1) * limit;
+
+    const { data: collections, error, count } = await supabaseAdmin
+      .from('recipe_collections')
+      .select('*', { count: 'exact' })
+      .eq('user_id', userId)
+      .order('position')
+      .order('created_at')
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new BadRequestError('Failed to fetch collections');
+    }
+
+    const total = count ?? 0;
+    return {
+      collections: await this.summarize((collections ?? []) as RecipeCollection[]),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async getCollection(userId: string, collectionId: string): Promise<CollectionSummary> {
+    const collection = await this.getOwnedCollection(userId, collectionId);
+    const [summary] = await this.summarize([collection]);
+    return summary;
+  }
+
+  /**
+   * Update name, description or cover; a null cover falls back to the
+   * first recipe image
+   */
+  async updateCollection(
+    userId: string,
+    collectionId: string,
+    input: UpdateCollectionInput
+  ): Promise<CollectionSummary> {
+    const collection = await this.getOwnedCollection(userId, collectionId);
+
+    const updateData: Partial<RecipeCollection> = {};
+    if (input.name !== undefined) updateData.name = input.name.trim();
+    if (input.description !== undefined) updateData.description = input.description?.trim() || null;
+    if (input.cover_image_url !== undefined) updateData.cover_image_url = input.cover_image_url;
+
+    const { error } = await supabaseAdmin
+      .from('recipe_collections')
+      .update(updateData)
+      .eq('id', collection.id)
+      .eq('user_id', userId);
+
+    if (error) {
+      throw new BadRequestError('Failed to update collection');
+    }
+
+    return this.getCollection(userId, collection.id);
+  }
+
+  /**
+   * Delete a collection; its recipes are untouched
+   */
+  async deleteCollection(userId: string, collectionId: string): Promise<void> {
+    const collection = await this.getOwnedCollection(userId, collectionId);
+
+    const { error } = await supabaseAdmin
+      .from('recipe_collections')
+      .delete()
+      .eq('id', collection.id)
+      .eq('user_id', userId);
+
+    if (error) {
+      throw new BadRequestError('Failed to delete collection');
+    }
+
+    logger.info({ userId, collectionId }, 'Deleted collection');
+  }
+
+  /**
+   * Put the given collections first, in the given order; the rest keep
+   * their order after them
+   */
+  async reorderCollections(userId: string, collectionIds: string[]): Promise<CollectionSummary[]> {
+    const { data: collections, error } = await supabaseAdmin
+      .from('recipe_collections')
+      .select('*')
+      .eq('user_id', userId)
+      .order('position')
+      .order('created_at');
+
+    if (error) {
+      throw new BadRequestError('Failed to fetch collections');
+    }
+
+    const rows = (collections ?? []) as RecipeCollection[];
+    const ordered = this.applyOrder(rows, collectionIds, (row) => row.id, 'Collection');
+
+    const { error: updateError } = await supabaseAdmin
+      .from('recipe_collections')
+      .upsert(ordered.map((row, position) => ({ ...row, position })));
+
+    if (updateError) {
+      throw new BadRequestError('Failed to reorder collections');
+    }
+
+    return this.summarize(ordered.map((row, position) => ({ ...row, position })));
+  }
+
+  /**
+   * Add owned or feed recipes to the end of a collection. Recipes already
+   * in it keep their place.
+   */
+  async addRecipes(userId: string, collectionId: string, recipeIds: string[]): Promise<CollectionSummary> {
+    const collection = await this.getOwnedCollection(userId, collectionId);
+    const uniqueIds = [...new Set(recipeIds)];
+
+    const { data: recipes, error: recipeError } = await supabaseAdmin
+      .from('recipes')
+      .select('id, user_id')
+      .in('id', uniqueIds)
+      .is('deleted_at', null);
+
+    if (recipeError) {
+      throw new BadRequestError('Failed to fetch recipes');
+    }
+
+    // Saved copies are owned rows; anything else must be a global feed recipe
+    const accessibleIds = new Set(
+      (recipes ?? [])
+        .filter((recipe) => recipe.user_id === userId || recipe.user_id === null)
+        .map((recipe) => recipe.id)
+    );
+    if (uniqueIds.some((id) => !accessibleIds.has(id))) {
+      throw new NotFoundError('Recipe');
+    }
+
+    const items = await this.getItems(collection.id);
+    const existingIds = new Set(items.map((item) => item.recipe_id));
+    const newIds = uniqueIds.filter((id) => !existingIds.has(id));
+
+    if (items.length + newIds.length > MAX_COLLECTION_RECIPES) {
+      throw new BadRequestError(`A collection can hold at most ${MAX_COLLECTION_RECIPES} recipes`);
+    }
+
+    if (newIds.length > 0) {
+      const start = items.length > 0 ? items[items.length - 1].position + 1 : 0;
+      const { error } = await supabaseAdmin
+        .from('recipe_collection_items')
+        .insert(newIds.map((recipeId, index) => ({
+          collection_id: collection.id,
+          recipe_id: recipeId,
+          position: start + index,
+        })));
+
+      if (error) {
+        throw new BadRequestError('Failed to add recipes to collection');
+      }
+    }
+
+    return this.getCollection(userId, collection.id);
+  }
+
+  async removeRecipe(userId: string, collectionId: string, recipeId: string): Promise<void> {
+    const collection = await this.getOwnedCollection(userId, collectionId);
+
+    const { data: removed, error } = await supabaseAdmin
+      .from('recipe_collection_items')
+      .delete()
+      .eq('collection_id', collection.id)
+      .eq('recipe_id', recipeId)
+      .select('recipe_id');
+
+    if (error) {
+      throw new BadRequestError('Failed to remove recipe from collection');
+    }
+    if (!removed || removed.length === 0) {
+      throw new NotFoundError('Recipe in collection');
+    }
+  }
+
+  /**
+   * Put the given recipes first, in the given order; the rest keep their
+   * order after them
+   */
+  async reorderRecipes(userId: string, collectionId: string, recipeIds: string[]): Promise<void> {
+    const collection = await this.getOwnedCollection(userId, collectionId);
+    const items = await this.getItems(collection.id);
+    const ordered = this.applyOrder(items, recipeIds, (item) => item.recipe_id, 'Recipe in collection');
+
+    const { error } = await supabaseAdmin
+      .from('recipe_collection_items')
+      .upsert(ordered.map((item, position) => ({
+        collection_id: collection.id,
+        recipe_id: item.recipe_id,
+        position,
+      })));
+
+    if (error) {
+      throw new BadRequestError('Failed to reorder collection');
+    }
+  }
+
+  /**
+   * Recipes of one of the user's collections, in collection order
+   */
+  async listRecipes(
+    userId: string,
+    collectionId: string,
+    page: number,
+    limit: number,
+    filters: CollectionRecipeFilters = {}
+  ): Promise<PaginatedCollectionRecipes> {
+    const collection = await this.getOwnedCollection(userId, collectionId);
+    return this.listCollectionRecipes(collection, userId, page, limit, filters);
+  }
+
+  /**
+   * Create the collection's share token, or return the existing one
+   */
+  async shareCollection(userId: string, collectionId: string): Promise<string> {
+    const collection = await this.getOwnedCollection(userId, collectionId);
+    if (collection.share_token) {
+      return collection.share_token;
+    }
+
+    const shareToken = shareService.generateToken();
+    const { error } = await supabaseAdmin
+      .from('recipe_collections')
+      .update({ share_token: shareToken })
+      .eq('id', collection.id)
+      .eq('user_id', userId);
+
+    if (error) {
+      throw new BadRequestError('Failed to share collection');
+    }
+
+    logger.info({ collectionId, shareToken }, 'Created collection share link');
+    return shareToken;
+  }
+
+  /**
+   * Revoke the share token; the old link stops working
+   */
+  async unshareCollection(userId: string, collectionId: string): Promise<void> {
+    const collection = await this.getOwnedCollection(userId, collectionId);
+
+    const { error } = await supabaseAdmin
+      .from('recipe_collections')
+      .update({ share_token: null })
+      .eq('id', collection.id)
+      .eq('user_id', userId);
+
+    if (error) {
+      throw new BadRequestError('Failed to revoke collection share');
+    }
+  }
+
+  async getSharedCollection(token: string): Promise<SharedCollection> {
+    const collection = await this.getCollectionByToken(token);
+    const [summary] = await this.summarize([collection]);
+    return toShared(summary);
+  }
+
+  async listSharedRecipes(
+    token: string,
+    page: number,
+    limit: number,
+    filters: CollectionRecipeFilters = {}
+  ): Promise<PaginatedCollectionRecipes> {
+    const collection = await this.getCollectionByToken(token);
+    return this.listCollectionRecipes(collection, null, page, limit, filters);
+  }
+
+  /**
+   * A recipe of a shared collection, with full details
+   */
+  async getSharedRecipe(token: string, recipeId: string): Promise<RecipeEnvelope> {
+    const collection = await this.getCollectionByToken(token);
+
+    const { data: item, error } = await supabaseAdmin
+      .from('recipe_collection_items')
+      .select('recipe_id')
+      .eq('collection_id', collection.id)
+      .eq('recipe_id', recipeId)
+      .maybeSingle();
+
+    if (error) {
+      throw new BadRequestError('Failed to fetch collection recipe');
+    }
+    if (!item) {
+      throw new NotFoundError('Recipe');
+    }
+
+    // Read as the owner: their own recipes and feed recipes are visible
+    const result = await recipeService.getRecipeById(recipeId, collection.user_id);
+    if (!result) {
+      throw new NotFoundError('Recipe');
+    }
+    return result.envelope;
+  }
+
+  private async listCollectionRecipes(
+    collection: RecipeCollection,
+    viewerId: string | null,
+    page: number,
+    limit: number,
+    filters: CollectionRecipeFilters
+  ): Promise<PaginatedCollectionRecipes> {
+    const offset = (page - 1) * limit;
+    const rawCuisines = splitFilter(filters.cuisine);
+    const rawTags = splitFilter(filters.tags);
+    const rawLabels = splitFilter(filters.dietary_labels);
+
+    const { data: matches, error } = await supabaseAdmin.rpc('list_collection_recipes', {
+      p_collection_id: collection.id,
+      p_cuisines: withCanonical(rawCuisines, canonicalizeCuisines(rawCuisines)),
+      p_tags: withCanonical(rawTags, normalizeRecipeTags(rawTags)),
+      p_dietary_labels: withCanonical(rawLabels, normalizeDietaryLabels(rawLabels)),
+      p_search: filters.search?.trim() || null,
+      p_limit: limit,
+      p_offset: offset,
+    });
+
+    if (error) {
+      throw new BadRequestError('Failed to fetch collection recipes');
+    }
+
+    const total = Number(matches?.[0]?.total_count ?? 0);
+    const pagination = { page, limit, total, totalPages: Math.ceil(total / limit) };
+    if (!matches || matches.length === 0) {
+      return { recipes: [], pagination };
+    }
+
+    const matchIds = matches.map((match) => match.id);
+    const { data: recipes, error: recipesError } = await supabaseAdmin
+      .from('recipes')
+      .select('*')
+      .in('id', matchIds);
+
+    if (recipesError) {
+      throw new BadRequestError('Failed to fetch recipes');
+    }
+
+    // Keep collection order
+    const orderedRecipes = (recipes ?? []).sort(
+      (a, b) => matchIds.indexOf(a.id) - matchIds.indexOf(b.id)
+    );
+
+    return {
+      recipes: await recipeService.buildListItems(orderedRecipes, viewerId),
+      pagination,
+    };
+  }
+
+  private async summarize(collections: RecipeCollection[]): Promise<CollectionSummary[]> {
+    if (collections.length === 0) {
+      return [];
+    }
+
+    const { data: summaries, error } = await supabaseAdmin.rpc('summarize_collections', {
+      p_collection_ids: collections.map((collection) => collection.id),
+    });
+
+    if (error) {
+      throw new BadRequestError('Failed to summarize collections');
+    }
+
+    const summaryById = new Map((summaries ?? []).map((summary) => [summary.collection_id, summary]));
+    return collections.map((collection) => {
+      const summary = summaryById.get(collection.id);
+      return {
+        ...collection,
+        cover_image_url: collection.cover_image_url ?? summary?.first_image_url ?? null,
+        recipe_count: Number(summary?.recipe_count ?? 0),
+      };
+    });
+  }
+
+  private applyOrder<T>(rows: T[], ids: string[], idOf: (row: T) => string, resource: string): T[] {
+    const byId = new Map(rows.map((row) => [idOf(row), row]));
+    const uniqueIds = [...new Set(ids)];
+    if (uniqueIds.some((id) => !byId.has(id))) {
+      throw new NotFoundError(resource);
+    }
+
+    const listed = new Set(uniqueIds);
+    return [
+      ...uniqueIds.map((id) => byId.get(id)!),
+      ...rows.filter((row) => !listed.has(idOf(row))),
+    ];
+  }
+
+  private async getItems(collectionId: string): Promise<Array<{ recipe_id: string; position: number }>> {
+    const { data: items, error } = await supabaseAdmin
+      .from('recipe_collection_items')
+      .select('recipe_id, position')
+      .eq('collection_id', collectionId)
+      .order('position')
+      .order('created_at');
+
+    if (error) {
+      throw new BadRequestError('Failed to fetch collection recipes');
+    }
+    return items ?? [];
+  }
+
+  private async getOwnedCollection(userId: string, collectionId: string): Promise<RecipeCollection> {
+    const { data: collection, error } = await supabaseAdmin
+      .from('recipe_collections')
+      .select('*')
+      .eq('id', collectionId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new BadRequestError('Failed to fetch collection');
+    }
+    if (!collection) {
+      throw new NotFoundError('Collection');
+    }
+
+    return collection as RecipeCollection;
+  }
+
+  private async getCollectionByToken(token: string): Promise<RecipeCollection> {
+    const { data: collection, error } = await supabaseAdmin
+      .from('recipe_collections')
+      .select('*')
+      .eq('share_token', token)
+      .maybeSingle();
+
+    if (error) {
+      throw new BadRequestError('Failed to fetch collection');
+    }
+    if (!collection) {
+      throw new NotFoundError('Shared collection');
+    }
+
+    return collection as RecipeCollection;
+  }
+}
+
+export const collectionService = new CollectionService();
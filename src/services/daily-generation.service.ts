@@ -1,6 +1,7 @@
 import { supabaseAdmin } from '../config/supabase.js';
 import { aiService } from './ai.service.js';
 import { logger } from '../utils/logger.js';
+import { MEAL_TYPES } from '../utils/meal-types.js';
 import type { RecipeEnvelope } from '../schemas/envelope.js';
 
 type TriggerSource = 'manual' | 'scheduled';
@@ -17,7 +18,7 @@ interface SharedGenerationResult {
 }
 
 const DEFAULT_COUNT_PER_MEAL = 1; // todo change back to 2
-const MEAL_TYPES = new Set(['breakfast', 'lunch', 'dinner', 'dessert']);
+const MEAL_TYPE_SET = new Set<string>(MEAL_TYPES);
 
 export class DailyGenerationService {
   async generateSharedForAllUsers(options: SharedGenerateOptions = {}): Promise<SharedGenerationResult> {
@@ -95,7 +96,7 @@ export class DailyGenerationService {
     const metadataMealType = envelope.recipe.metadata?.meal_type;
     if (typeof metadataMealType === 'string') {
       const normalized = metadataMealType.trim().toLowerCase();
-      if (MEAL_TYPES.has(normalized)) {
+      if (MEAL_TYPE_SET.has(normalized)) {
         return normalized;
       }
     }
@@ -103,7 +104,7 @@ export class DailyGenerationService {
     const tags = envelope.recipe.tags ?? [];
     for (const tag of tags) {
       const normalized = tag.trim().toLowerCase();
-      if (MEAL_TYPES.has(normalized)) {
+      if (MEAL_TYPE_SET.has(normalized)) {
         return normalized;
       }
     }
@@ -8,23 +8,66 @@ import { env } from '../config/env.js';
 import { recipeService } from './recipe.service.js';
 import { logger } from '../utils/logger.js';
 import { getOpenAIErrorDetails } from '../utils/openai-errors.js';
-import { ImportError, RateLimitError } from '../utils/errors.js';
+import { BadRequestError, ImportError, NotFoundError, RateLimitError } from '../utils/errors.js';
+import { urlDedupeKey } from '../utils/bookmarks.js';
+import {
+  parseRecipeExport,
+  RECIPE_EXPORT_FORMAT_LABELS,
+  type ExportedRecipe,
+  type RecipeExportFormat,
+} from '../utils/recipe-formats/index.js';
+import {
+  asString,
+  htmlToText,
+  isRecord,
+  normalizeStringList,
+  parseDurationToMinutes,
+  groupSections,
+  MAX_SECTION_LENGTH,
+  parseSectionHeading,
+  parseServings,
+  sectionHeadingLine,
+  splitInstructions,
+  truncate,
+  type SectionedLine,
+} from '../utils/recipe-text.js';
 import { CANONICAL_DIETARY_LABELS, normalizeDietaryLabels } from '../utils/dietary-labels.js';
+import { reconcileDietaryLabels } from '../utils/dietary-inference.js';
 import { CANONICAL_CUISINES, normalizeCuisine } from '../utils/cuisines.js';
 import { CANONICAL_RECIPE_TAGS, normalizeRecipeTags } from '../utils/recipe-tags.js';
 import {
   aiRecipeOutputSchema,
+  CURRENT_ENVELOPE_VERSION,
   recipeEnvelopeSchema,
   type AIRecipeOutput,
   type RecipeEnvelope,
 } from '../schemas/envelope.js';
+import type { ImportBatch, ImportJob, Json } from '../types/index.js';
 
 const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 30_000;
+// Processing jobs untouched for this long are assumed orphaned by a crashed worker
+const STALE_JOB_AFTER = '15 minutes';
+export const MAX_BATCH_URLS = 500;
 const MAX_HTML_BYTES = 1_500_000;
 const MAX_REDIRECTS = 3;
 const FETCH_TIMEOUT_MS = 8000;
 const MAX_AI_TEXT_CHARS = 20_000;
 const USER_AGENT = 'whatEat-importer/1.0';
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+const MAX_IMPORT_FILE_BYTES = 50 * 1024 * 1024;
+const MAX_FILE_RECIPES = 1000;
+// Recipes saved per POST /import/file/save; larger previews are saved in chunks
+export const MAX_FILE_SAVE_RECIPES = 50;
+
+// Formats accepted by the vision API; HEIC/HEIF uploads must be converted client-side
+const VISION_IMAGE_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  gif: 'image/gif',
+};
 
 const IMPORT_RECIPE_JSON_SCHEMA = {
   type: 'object',
@@ -42,8 +85,8 @@ const IMPORT_RECIPE_JSON_SCHEMA = {
       type: 'array',
       items: {
         type: 'object',
-        properties: { raw_text: { type: 'string' } },
-        required: ['raw_text'],
+        properties: { raw_text: { type: 'string' }, section: { type: ['string', 'null'] } },
+        required: ['raw_text', 'section'],
         additionalProperties: false,
       },
     },
@@ -51,8 +94,8 @@ const IMPORT_RECIPE_JSON_SCHEMA = {
       type: 'array',
       items: {
         type: 'object',
-        properties: { instruction: { type: 'string' } },
-        required: ['instruction'],
+        properties: { instruction: { type: 'string' }, section: { type: ['string', 'null'] } },
+        required: ['instruction', 'section'],
         additionalProperties: false,
       },
     },
@@ -73,7 +116,14 @@ const IMPORT_RECIPE_JSON_SCHEMA = {
   additionalProperties: false,
 } as const;
 
-type ExtractionSource = 'jsonld' | 'readability' | 'chatgpt' | 'heuristic' | 'ai';
+type ExtractionSource =
+  | 'jsonld'
+  | 'readability'
+  | 'chatgpt'
+  | 'heuristic'
+  | 'ai'
+  | 'image'
+  | RecipeExportFormat;
 
 type ImportPreviewResult = {
   envelope: RecipeEnvelope;
@@ -91,8 +141,10 @@ type PartialRecipeData = {
   tags: string[];
   cuisine: string | null;
   dietary_labels: string[];
-  ingredients: string[];
-  steps: string[];
+  // Sections stay structured from here on; only text sources are grouped by
+  // their heading lines
+  ingredients: SectionedLine[];
+  steps: SectionedLine[];
   media: Array<{ media_type: 'image' | 'video'; url: string; name?: string | null }>;
   author_name?: string | null;
   attribution?: string | null;
@@ -110,6 +162,49 @@ type AIFallbackAttempt = {
   failed: boolean;
 };
 
+export type ImportBatchItem = {
+  url: string;
+  status: ImportJob['status'] | 'skipped';
+  job_id: string | null;
+  extracted_from: string | null;
+  result_recipe_id: string | null;
+  // Last error for failed jobs; the skip reason code for skipped URLs
+  error_message: string | null;
+  retries: number;
+};
+
+export type ImportBatchStatus = {
+  batch: ImportBatch;
+  // completed once no job is pending or processing
+  status: 'processing' | 'completed';
+  summary: Record<ImportJob['status'] | 'queued' | 'skipped', number>;
+  items: ImportBatchItem[];
+};
+
+// Recipes and skipped entries carry their position in the file, which saving
+// echoes back so results can be matched to the preview across chunks
+export type FileImportPreview = {
+  format: RecipeExportFormat;
+  recipes: Array<ImportPreviewResult & { position: number }>;
+  // Recipes in the file that could not become an envelope
+  skipped: Array<{ position: number; title: string | null; missing_fields: string[] }>;
+  warnings: string[];
+};
+
+export type FileImportSaveInput = {
+  position: number;
+  envelope: RecipeEnvelope;
+};
+
+export type FileImportSaveResult = {
+  saved: Array<{ position: number; recipe_id: string; title: string }>;
+  failed: Array<{ position: number; title: string; error: string }>;
+};
+
+export type ImportJobInput =
+  | { type: 'url'; url: string }
+  | { type: 'image'; imagePath: string };
+
 type ChatGptExtractionResult = {
   attempt: ExtractionAttempt;
   text?: string;
@@ -125,43 +220,91 @@ export class ImportService {
   }
 
   /**
-   * Process a pending import job
+   * Queue an import for the worker (see src/jobs/import-worker.ts)
    */
-  async processJob(jobId: string): Promise<void> {
-    const { data: job, error: fetchError } = await supabaseAdmin
+  async enqueueJob(userId: string, input: ImportJobInput): Promise<ImportJob> {
+    if (input.type === 'image') {
+      assertOwnedImagePath(input.imagePath, userId);
+    }
+
+    const allowed = await this.checkDailyImportLimit(userId);
+    if (!allowed) {
+      throw new RateLimitError('Daily import limit reached');
+    }
+
+    const { data: job, error } = await supabaseAdmin
       .from('import_jobs')
+      .insert({
+        user_id: userId,
+        type: input.type,
+        input_url: input.type === 'url' ? input.url : null,
+        input_image_path: input.type === 'image' ? input.imagePath : null,
+      })
       .select('*')
-      .eq('id', jobId)
       .single();
 
-    if (fetchError || !job) {
-      logger.error({ jobId, error: fetchError }, 'Failed to fetch import job');
-      return;
+    if (error || !job) {
+      logger.error({ userId, error }, 'Failed to enqueue import job');
+      throw new BadRequestError('Failed to queue import');
     }
 
-    await supabaseAdmin
-      .from('import_jobs')
-      .update({ status: 'processing' })
-      .eq('id', jobId);
+    await this.incrementImportCounter(userId);
+    return job as ImportJob;
+  }
+
+  /**
+   * Lock up to `limit` due jobs for this worker; other workers skip them.
+   * Reclaiming a stale job counts as a retry, and stale jobs that are out of
+   * retries are failed instead.
+   */
+  async claimJobs(limit: number): Promise<ImportJob[]> {
+    const { data: jobs, error } = await supabaseAdmin.rpc('claim_import_jobs', {
+      p_limit: limit,
+      p_stale_after: STALE_JOB_AFTER,
+      p_max_retries: MAX_RETRIES,
+    });
+
+    if (error) {
+      logger.error({ error }, 'Failed to claim import jobs');
+      throw new Error('Failed to claim import jobs');
+    }
+
+    return (jobs ?? []) as ImportJob[];
+  }
+
+  /**
+   * Process a claimed import job. Errors the user must fix (bad URL, no recipe
+   * on the page) fail straight away; anything else is retried with backoff.
+   */
+  async processJob(job: ImportJob): Promise<void> {
+    const jobId = job.id;
 
     try {
-      let envelope: RecipeEnvelope;
+      let result: ImportPreviewResult;
 
       if (job.type === 'url' && job.input_url) {
-        envelope = (await this.extractFromUrl(job.input_url)).envelope;
+        result = await this.extractFromUrl(job.input_url);
       } else if (job.type === 'image' && job.input_image_path) {
-        envelope = await this.extractFromImage(job.input_image_path);
+        result = await this.extractFromImage(job.input_image_path);
       } else {
-        throw new Error('Invalid job type or missing input');
+        throw new ImportError('Invalid job type or missing input', 'IMPORT_INVALID_JOB', 400);
       }
 
-      const recipe = await recipeService.createRecipe(envelope, job.user_id);
+      const { recipe, warnings } = await recipeService.createRecipe(result.envelope, job.user_id);
 
       await supabaseAdmin
         .from('import_jobs')
         .update({
           status: 'completed',
           result_recipe_id: recipe.id,
+          error_message: null,
+          locked_at: null,
+          completed_at: new Date().toISOString(),
+          metadata: {
+            ...asMetadataObject(job.metadata),
+            extracted_from: result.extracted_from,
+            warnings: [...result.warnings, ...warnings],
+          },
         })
         .eq('id', jobId);
 
@@ -169,18 +312,22 @@ export class ImportService {
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       const retries = (job.retries ?? 0) + 1;
+      const retryable = !(error instanceof ImportError && error.statusCode < 500);
 
-      if (retries < MAX_RETRIES) {
+      if (retryable && retries < MAX_RETRIES) {
+        const delayMs = RETRY_BASE_DELAY_MS * 2 ** (retries - 1);
         await supabaseAdmin
           .from('import_jobs')
           .update({
             status: 'pending',
             retries,
             error_message: errorMessage,
+            locked_at: null,
+            next_attempt_at: new Date(Date.now() + delayMs).toISOString(),
           })
           .eq('id', jobId);
 
-        logger.warn({ jobId, retries, error: errorMessage }, 'Import job failed, will retry');
+        logger.warn({ jobId, retries, delayMs, error: errorMessage }, 'Import job failed, will retry');
       } else {
         await supabaseAdmin
           .from('import_jobs')
@@ -188,6 +335,12 @@ export class ImportService {
             status: 'failed',
             retries,
             error_message: errorMessage,
+            locked_at: null,
+            completed_at: new Date().toISOString(),
+            metadata: {
+              ...asMetadataObject(job.metadata),
+              ...(error instanceof ImportError && { error_code: error.code }),
+            },
           })
           .eq('id', jobId);
 
@@ -196,6 +349,143 @@ export class ImportService {
     }
   }
 
+  /**
+   * Fan a list of URLs out into one import job each. URLs that fail the
+   * offline checks, or go past today's import allowance, are recorded as
+   * skipped instead of queued.
+   */
+  async enqueueBatch(
+    userId: string,
+    rawUrls: string[],
+    source: ImportBatch['source']
+  ): Promise<ImportBatchStatus> {
+    const seen = new Set<string>();
+    const urls: string[] = [];
+    for (const rawUrl of rawUrls) {
+      const url = rawUrl.trim();
+      const key = urlDedupeKey(url);
+      if (url && !seen.has(key)) {
+        seen.add(key);
+        urls.push(url);
+      }
+    }
+
+    if (urls.length === 0) {
+      throw new BadRequestError('No URLs found to import');
+    }
+    if (urls.length > MAX_BATCH_URLS) {
+      throw new BadRequestError(`A batch can contain at most ${MAX_BATCH_URLS} URLs`, {
+        submitted_count: urls.length,
+      });
+    }
+
+    const remaining = await this.getRemainingImports(userId);
+    if (remaining === 0) {
+      throw new RateLimitError('Daily import limit reached');
+    }
+
+    const queued: string[] = [];
+    const skipped: ImportBatch['skipped'] = [];
+    for (const url of urls) {
+      try {
+        parseImportUrl(url);
+      } catch (error) {
+        skipped.push({ url, reason: error instanceof ImportError ? error.code : 'IMPORT_INVALID_URL' });
+        continue;
+      }
+      if (queued.length >= remaining) {
+        skipped.push({ url, reason: 'DAILY_IMPORT_LIMIT' });
+        continue;
+      }
+      queued.push(url);
+    }
+
+    // Batch, jobs and the usage charge are written together or not at all
+    const { data: batchId, error: batchError } = await supabaseAdmin.rpc('enqueue_import_batch', {
+      p_user_id: userId,
+      p_source: source,
+      p_submitted_count: urls.length,
+      p_urls: queued,
+      p_skipped: skipped,
+    });
+
+    if (batchError || !batchId) {
+      logger.error({ userId, error: batchError }, 'Failed to create import batch');
+      throw new BadRequestError('Failed to queue import batch');
+    }
+
+    return this.getBatchStatus(userId, batchId);
+  }
+
+  /**
+   * Aggregate status of a batch with the outcome of every submitted URL
+   */
+  async getBatchStatus(userId: string, batchId: string): Promise<ImportBatchStatus> {
+    const { data: batch, error: batchError } = await supabaseAdmin
+      .from('import_batches')
+      .select('*')
+      .eq('id', batchId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (batchError) {
+      throw new BadRequestError('Failed to fetch import batch');
+    }
+    if (!batch) {
+      throw new NotFoundError('Import batch');
+    }
+
+    const { data: jobs, error: jobsError } = await supabaseAdmin
+      .from('import_jobs')
+      .select('id, status, input_url, result_recipe_id, error_message, retries, metadata')
+      .eq('batch_id', batchId)
+      .eq('user_id', userId);
+
+    if (jobsError) {
+      throw new BadRequestError('Failed to fetch import jobs');
+    }
+
+    const summary = { queued: 0, pending: 0, processing: 0, completed: 0, failed: 0, skipped: 0 };
+    const items: ImportBatchItem[] = (jobs ?? [])
+      .map((job) => ({ job, metadata: asMetadataObject(job.metadata) }))
+      .sort((a, b) => Number(a.metadata.batch_position ?? 0) - Number(b.metadata.batch_position ?? 0))
+      .map(({ job, metadata }) => {
+        const status = job.status as ImportJob['status'];
+        summary.queued += 1;
+        summary[status] += 1;
+        return {
+          url: job.input_url ?? '',
+          status,
+          job_id: job.id,
+          extracted_from: typeof metadata.extracted_from === 'string' ? metadata.extracted_from : null,
+          result_recipe_id: job.result_recipe_id,
+          error_message: job.error_message,
+          retries: job.retries,
+        };
+      });
+
+    const skipped = Array.isArray(batch.skipped) ? (batch.skipped as ImportBatch['skipped']) : [];
+    for (const entry of skipped) {
+      summary.skipped += 1;
+      items.push({
+        url: entry.url,
+        status: 'skipped',
+        job_id: null,
+        extracted_from: null,
+        result_recipe_id: null,
+        error_message: entry.reason,
+        retries: 0,
+      });
+    }
+
+    return {
+      batch: batch as ImportBatch,
+      status: summary.pending + summary.processing > 0 ? 'processing' : 'completed',
+      summary,
+      items,
+    };
+  }
+
   async previewFromUrl(url: string, userId: string): Promise<ImportPreviewResult> {
     const allowed = await this.checkDailyImportLimit(userId);
     if (!allowed) {
@@ -203,7 +493,7 @@ export class ImportService {
     }
 
     await this.incrementImportCounter(userId);
-    return this.extractFromUrl(url);
+    return withCheckedDietaryLabels(await this.extractFromUrl(url));
   }
 
   /**
@@ -314,11 +604,238 @@ export class ImportService {
     );
   }
 
+  async previewFromImage(imagePath: string, userId: string): Promise<ImportPreviewResult> {
+    assertOwnedImagePath(imagePath, userId);
+
+    const allowed = await this.checkDailyImportLimit(userId);
+    if (!allowed) {
+      throw new RateLimitError('Daily import limit reached');
+    }
+
+    await this.incrementImportCounter(userId);
+    return withCheckedDietaryLabels(await this.extractFromImage(imagePath));
+  }
+
+  /**
+   * Extract recipe data from an uploaded image (e.g. a photographed cookbook page)
+   */
+  async extractFromImage(imagePath: string): Promise<ImportPreviewResult> {
+    if (!this.openai) {
+      throw new ImportError('Image import is not available.', 'IMPORT_IMAGE_UNAVAILABLE', 503);
+    }
+
+    logger.info({ imagePath }, 'Extracting recipe from image');
+
+    const extension = imagePath.split('.').pop()?.toLowerCase() ?? '';
+    const mimeType = VISION_IMAGE_TYPES[extension];
+    if (!mimeType) {
+      throw new ImportError(
+        'That image format is not supported. Use JPEG, PNG or WebP.',
+        'IMPORT_UNSUPPORTED_IMAGE',
+        415
+      );
+    }
+
+    const { data: blob, error: downloadError } = await supabaseAdmin.storage
+      .from(env.SUPABASE_STORAGE_BUCKET)
+      .download(imagePath);
+
+    if (downloadError || !blob) {
+      logger.warn({ error: downloadError, imagePath }, 'Failed to download import image');
+      throw new ImportError('Image not found.', 'IMPORT_IMAGE_NOT_FOUND', 404);
+    }
+    if (blob.size > MAX_IMAGE_BYTES) {
+      throw new ImportError('Image exceeds 10 MB max size.', 'IMPORT_IMAGE_TOO_LARGE', 413);
+    }
+
+    const imageUrl = `data:${mimeType};base64,${Buffer.from(await blob.arrayBuffer()).toString('base64')}`;
+    const model = env.OPENAI_VISION_MODEL ?? env.OPENAI_MODEL;
+
+    let rawContent: string | null = null;
+    let validated: AIRecipeOutput;
+    try {
+      const response = await this.openai.chat.completions.create({
+        model,
+        messages: [
+          {
+            role: 'system',
+            content: 'You read one recipe from a photo (cookbook page, recipe card or handwritten note) and output JSON only.',
+          },
+          {
+            role: 'user',
+            content: [
+              {
+                type: 'text',
+                text: `Hard requirements:\n- Title, ingredients, and steps MUST be transcribed from the image.\n- Do NOT invent ingredients or steps that are not visible.\n- If the page shows several recipes, extract the most prominent one.\n\nSoft requirements (may estimate if missing):\n- description, servings, calories, prep_time_minutes, cook_time_minutes, tags, cuisine, dietary_labels.\n- tags must use this exact list: ${CANONICAL_RECIPE_TAGS.join(', ')}\n- dietary_labels must use this exact list: ${CANONICAL_DIETARY_LABELS.join(', ')}\n- cuisine must use this exact list: ${CANONICAL_CUISINES.join(', ')}\n- If unknown, estimate conservatively using typical values; if truly impossible, use null (or empty arrays for tags/dietary_labels).\n\nNormalization:\n- Times -> integer minutes\n- Calories -> per-serving integer\n- Keep ingredient/step order from the image\n- Join lines that wrap mid-sentence\n- If no recipe is visible, return empty ingredients/steps and title "Unknown Recipe"`,
+              },
+              {
+                type: 'image_url',
+                image_url: { url: imageUrl, detail: 'high' },
+              },
+            ],
+          },
+        ],
+        response_format: {
+          type: 'json_schema',
+          json_schema: {
+            name: 'recipe',
+            strict: true,
+            schema: IMPORT_RECIPE_JSON_SCHEMA,
+          },
+        },
+        max_completion_tokens: env.OPENAI_MAX_COMPLETION_TOKENS,
+      });
+
+      const choice = response.choices[0];
+      rawContent = choice?.message?.content ?? '';
+      if (!rawContent) {
+        logger.warn({
+          imagePath,
+          finishReason: choice?.finish_reason,
+          refusal: choice?.message?.refusal,
+        }, 'Vision extractor returned empty response');
+        throw new ImportError('We could not read a recipe in that image.', 'IMPORT_NO_RECIPE_FOUND', 422);
+      }
+
+      validated = aiRecipeOutputSchema.parse(JSON.parse(rawContent));
+    } catch (error) {
+      if (error instanceof ImportError) {
+        throw error;
+      }
+      const openaiError = getOpenAIErrorDetails(error);
+      logger.warn({
+        error,
+        openaiError,
+        imagePath,
+        model,
+        ai_response_preview: rawContent ? truncate(rawContent, 2000) : null,
+      }, 'Vision extraction failed');
+      throw new ImportError('We could not read a recipe in that image.', 'IMPORT_NO_RECIPE_FOUND', 422);
+    }
+
+    const attempt = buildEnvelopeAttempt(
+      {
+        title: validated.title === 'Unknown Recipe' ? null : validated.title,
+        description: validated.description ?? null,
+        servings: validated.servings ?? null,
+        calories: validated.calories ?? null,
+        prep_time_minutes: validated.prep_time_minutes ?? null,
+        cook_time_minutes: validated.cook_time_minutes ?? null,
+        tags: normalizeRecipeTags(validated.tags),
+        cuisine: normalizeCuisine(validated.cuisine),
+        dietary_labels: normalizeDietaryLabels(validated.dietary_labels),
+        ingredients: validated.ingredients.map((ing) => ({ text: ing.raw_text, section: ing.section ?? null })),
+        steps: validated.steps.map((step) => ({ text: step.instruction, section: step.section ?? null })),
+        media: [],
+      },
+      null
+    );
+
+    if (!attempt.envelope) {
+      throw new ImportError(
+        'We could not read all required recipe fields in that image.',
+        'IMPORT_MISSING_FIELDS',
+        422,
+        { missing_fields: attempt.missing_fields ?? [] }
+      );
+    }
+
+    return {
+      envelope: attempt.envelope,
+      extracted_from: 'image',
+      warnings: ['Transcribed from image; check quantities before saving'],
+    };
+  }
+
+  /**
+   * Read a recipe-manager export uploaded via POST /uploads/import-files. A
+   * file counts as one import against the daily limit whatever its size.
+   */
+  async previewFromFile(filePath: string, userId: string): Promise<FileImportPreview> {
+    assertOwnedImportFilePath(filePath, userId);
+
+    const allowed = await this.checkDailyImportLimit(userId);
+    if (!allowed) {
+      throw new RateLimitError('Daily import limit reached');
+    }
+
+    const { data: blob, error: downloadError } = await supabaseAdmin.storage
+      .from(env.SUPABASE_STORAGE_BUCKET)
+      .download(filePath);
+
+    if (downloadError || !blob) {
+      logger.warn({ error: downloadError, filePath }, 'Failed to download import file');
+      throw new ImportError('File not found.', 'IMPORT_FILE_NOT_FOUND', 404);
+    }
+    if (blob.size > MAX_IMPORT_FILE_BYTES) {
+      throw new ImportError('File exceeds 50 MB max size.', 'IMPORT_FILE_TOO_LARGE', 413);
+    }
+
+    const { format, recipes: exported } = parseRecipeExport(
+      filePath,
+      Buffer.from(await blob.arrayBuffer())
+    );
+    logger.info({ filePath, format, count: exported.length }, 'Parsed recipe export');
+
+    if (exported.length === 0) {
+      throw new ImportError('No recipes found in file.', 'IMPORT_NO_RECIPE_FOUND', 422, { format });
+    }
+
+    const warnings: string[] = [];
+    if (exported.length > MAX_FILE_RECIPES) {
+      warnings.push(`Only the first ${MAX_FILE_RECIPES} of ${exported.length} recipes were read`);
+    }
+
+    const recipes: FileImportPreview['recipes'] = [];
+    const skipped: FileImportPreview['skipped'] = [];
+    exported.slice(0, MAX_FILE_RECIPES).forEach((recipe, position) => {
+      const converted = buildExportEnvelope(recipe, format);
+      if (converted.envelope) {
+        recipes.push({
+          ...withCheckedDietaryLabels({
+            envelope: converted.envelope,
+            extracted_from: format,
+            warnings: converted.warnings,
+          }),
+          position,
+        });
+      } else {
+        skipped.push({ position, title: recipe.title, missing_fields: converted.missing_fields ?? [] });
+      }
+    });
+
+    if (recipes.length === 0) {
+      throw new ImportError('No complete recipes found in file.', 'IMPORT_MISSING_FIELDS', 422, {
+        format,
+        skipped,
+      });
+    }
+
+    await this.incrementImportCounter(userId);
+    return { format, recipes, skipped, warnings };
+  }
+
   /**
-   * Extract recipe data from an image
+   * Save previewed file-import envelopes one by one; a failure does not stop the rest
    */
-  async extractFromImage(_imagePath: string): Promise<RecipeEnvelope> {
-    throw new Error('Image extraction not yet implemented');
+  async saveFileImport(userId: string, recipes: FileImportSaveInput[]): Promise<FileImportSaveResult> {
+    const result: FileImportSaveResult = { saved: [], failed: [] };
+
+    for (const { position, envelope } of recipes) {
+      try {
+        const { recipe } = await recipeService.createRecipe(envelope, userId);
+        result.saved.push({ position, recipe_id: recipe.id, title: recipe.title });
+      } catch (error) {
+        logger.error({ userId, position, error }, 'Failed to save imported recipe');
+        result.failed.push({
+          position,
+          title: envelope.recipe.title,
+          error: error instanceof Error ? error.message : 'Failed to save recipe',
+        });
+      }
+    }
+
+    return result;
   }
 
   private async extractFromAI(
@@ -393,8 +910,8 @@ export class ImportService {
           tags: normalizeRecipeTags(validated.tags),
           cuisine: normalizeCuisine(validated.cuisine),
           dietary_labels: normalizeDietaryLabels(validated.dietary_labels),
-          ingredients: validated.ingredients.map((ing) => ing.raw_text),
-          steps: validated.steps.map((step) => step.instruction),
+          ingredients: validated.ingredients.map((ing) => ({ text: ing.raw_text, section: ing.section ?? null })),
+          steps: validated.steps.map((step) => ({ text: step.instruction, section: step.section ?? null })),
           media: [],
           attribution: new URL(sourceUrl).hostname,
         },
@@ -419,6 +936,10 @@ export class ImportService {
   }
 
   private async checkDailyImportLimit(userId: string): Promise<boolean> {
+    return (await this.getRemainingImports(userId)) > 0;
+  }
+
+  private async getRemainingImports(userId: string): Promise<number> {
     const today = new Date().toISOString().split('T')[0];
 
     const { data } = await supabaseAdmin
@@ -428,10 +949,10 @@ export class ImportService {
       .eq('date', today)
       .single();
 
-    return (data?.imports_count ?? 0) < env.DAILY_IMPORT_LIMIT;
+    return Math.max(0, env.DAILY_IMPORT_LIMIT - (data?.imports_count ?? 0));
   }
 
-  private async incrementImportCounter(userId: string): Promise<number> {
+  private async incrementImportCounter(userId: string, amount = 1): Promise<number> {
     const today = new Date().toISOString().split('T')[0];
 
     const { data: existing, error: fetchError } = await supabaseAdmin
@@ -452,7 +973,7 @@ export class ImportService {
         .insert({
           user_id: userId,
           date: today,
-          imports_count: 1,
+          imports_count: amount,
         })
         .select()
         .single();
@@ -462,10 +983,10 @@ export class ImportService {
         return 0;
       }
 
-      return data?.imports_count ?? 1;
+      return data?.imports_count ?? amount;
     }
 
-    const nextCount = (existing.imports_count ?? 0) + 1;
+    const nextCount = (existing.imports_count ?? 0) + amount;
     const { data: updated, error: updateError } = await supabaseAdmin
       .from('usage_counters')
       .update({ imports_count: nextCount })
@@ -482,6 +1003,24 @@ export class ImportService {
   }
 }
 
+// Uploads live under recipe-images/<userId>/ (see POST /uploads/recipe-images)
+function assertOwnedImagePath(imagePath: string, userId: string): void {
+  if (!imagePath.startsWith(`recipe-images/${userId}/`) || imagePath.includes('..')) {
+    throw new ImportError('Image not found.', 'IMPORT_IMAGE_NOT_FOUND', 404);
+  }
+}
+
+// Uploads live under import-files/<userId>/ (see POST /uploads/import-files)
+function assertOwnedImportFilePath(filePath: string, userId: string): void {
+  if (!filePath.startsWith(`import-files/${userId}/`) || filePath.includes('..')) {
+    throw new ImportError('File not found.', 'IMPORT_FILE_NOT_FOUND', 404);
+  }
+}
+
+function asMetadataObject(value: Json): Record<string, Json | undefined> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value : {};
+}
+
 function extractFromJsonLd(html: string, sourceUrl: string, contentType: string | null): ExtractionAttempt {
   const recipes: PartialRecipeData[] = [];
 
@@ -592,8 +1131,8 @@ function extractFromPlainText(
 ): ExtractionAttempt {
   const lines = text.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
   const title = options.titleHint ?? extractTitleFromLines(lines);
-  const ingredients = extractSection(lines, ['ingredients']);
-  const steps = extractSection(lines, ['instructions', 'directions', 'method', 'preparation', 'steps']);
+  const ingredients = groupLines(extractSection(lines, ['ingredients']));
+  const steps = groupLines(extractSection(lines, ['instructions', 'directions', 'method', 'preparation', 'steps']));
 
   const data: PartialRecipeData = {
     title,
@@ -651,7 +1190,7 @@ function normalizeJsonLdRecipe(node: Record<string, unknown>): PartialRecipeData
   const calories = parseCalories((node.nutrition as Record<string, unknown> | undefined)?.calories);
   const prep = parseDurationToMinutes(node.prepTime);
   const cook = parseDurationToMinutes(node.cookTime);
-  const ingredients = normalizeStringList(node.recipeIngredient ?? node.ingredients);
+  const ingredients = groupLines(normalizeStringList(node.recipeIngredient ?? node.ingredients));
   const steps = extractInstructions(node.recipeInstructions);
   const cuisine = pickFirstString(node.recipeCuisine, node.cuisine);
   const tags = normalizeTags(node.keywords, node.recipeCategory);
@@ -682,7 +1221,10 @@ function normalizeJsonLdRecipe(node: Record<string, unknown>): PartialRecipeData
   };
 }
 
-function buildEnvelopeAttempt(data: PartialRecipeData, sourceUrl: string): ExtractionAttempt {
+/**
+ * `sourceUrl` is null for image imports, which have no page to link back to
+ */
+function buildEnvelopeAttempt(data: PartialRecipeData, sourceUrl: string | null): ExtractionAttempt {
   const missing_fields = buildMissingFields(data);
   if (missing_fields.length > 0) {
     return { missing_fields };
@@ -691,7 +1233,7 @@ function buildEnvelopeAttempt(data: PartialRecipeData, sourceUrl: string): Extra
   const sanitized = sanitizeRecipeData(data);
   const envelope: RecipeEnvelope = {
     format: 'whatEat-recipe',
-    version: 1,
+    version: CURRENT_ENVELOPE_VERSION,
     recipe: {
       id: null,
       title: sanitized.title ?? 'Untitled recipe',
@@ -703,12 +1245,9 @@ function buildEnvelopeAttempt(data: PartialRecipeData, sourceUrl: string): Extra
       tags: sanitized.tags,
       cuisine: sanitized.cuisine,
       dietary_labels: sanitized.dietary_labels,
-      source: {
-        type: 'url',
-        url: sourceUrl,
-      },
-      ingredients: sanitized.ingredients.map((raw_text) => ({ raw_text })),
-      steps: sanitized.steps.map((instruction) => ({ instruction })),
+      source: sourceUrl ? { type: 'url', url: sourceUrl } : { type: 'image' },
+      ingredients: sanitized.ingredients.map(({ text, section }) => ({ raw_text: text, section })),
+      steps: sanitized.steps.map(({ text, section }) => ({ instruction: text, section })),
       media: sanitized.media.map((item) => ({
         media_type: item.media_type,
         url: item.url,
@@ -716,7 +1255,7 @@ function buildEnvelopeAttempt(data: PartialRecipeData, sourceUrl: string): Extra
         is_generated: false,
       })),
       metadata: {
-        attribution: sanitized.attribution ?? new URL(sourceUrl).hostname,
+        attribution: sanitized.attribution ?? (sourceUrl ? new URL(sourceUrl).hostname : null),
         author_name: sanitized.author_name ?? undefined,
       },
     },
@@ -732,11 +1271,109 @@ function buildEnvelopeAttempt(data: PartialRecipeData, sourceUrl: string): Extra
   return { envelope };
 }
 
+/**
+ * Preview with dietary labels checked against the ingredients, so the
+ * labels shown are the ones that will be saved
+ */
+function withCheckedDietaryLabels(result: ImportPreviewResult): ImportPreviewResult {
+  const { recipe } = result.envelope;
+  const dietary = reconcileDietaryLabels(recipe.dietary_labels, recipe.ingredients);
+  return {
+    ...result,
+    envelope: { ...result.envelope, recipe: { ...recipe, dietary_labels: dietary.dietary_labels } },
+    warnings: [...result.warnings, ...dietary.warnings],
+  };
+}
+
+/**
+ * Envelope for a recipe read from another app's export. A missing title is
+ * filled in; missing ingredients or steps make the recipe unusable.
+ */
+function buildExportEnvelope(
+  recipe: ExportedRecipe,
+  format: RecipeExportFormat
+): ExtractionAttempt & { warnings: string[] } {
+  const warnings = [...recipe.warnings];
+  const title = recipe.title ?? 'Untitled recipe';
+  if (!recipe.title) {
+    warnings.push('Recipe had no title');
+  }
+
+  // Notes have no field of their own and are kept below the description
+  const description = [recipe.description, recipe.notes ? `Notes: ${recipe.notes}` : null]
+    .filter(Boolean)
+    .join('\n\n');
+  const data: PartialRecipeData = {
+    ...recipe,
+    title,
+    description: description || null,
+    ingredients: groupLines(recipe.ingredients),
+    steps: groupLines(recipe.steps),
+    calories: null,
+    cuisine: recipe.cuisine ?? recipe.tags.find((tag) => normalizeCuisine(tag)) ?? null,
+    dietary_labels: [],
+    media: recipe.image_url ? [{ media_type: 'image', url: recipe.image_url }] : [],
+    attribution: `Imported from ${RECIPE_EXPORT_FORMAT_LABELS[format]}`,
+  };
+
+  const missing_fields = buildMissingFields(data);
+  if (missing_fields.length > 0) {
+    return { missing_fields, warnings };
+  }
+  if (description.length > 2000) {
+    warnings.push('Description and notes were shortened');
+  }
+
+  const sourceUrl = recipe.source_url && /^https?:\/\//i.test(recipe.source_url) ? recipe.source_url : null;
+  const sanitized = sanitizeRecipeData(data);
+
+  const parsed = recipeEnvelopeSchema.safeParse({
+    format: 'whatEat-recipe',
+    version: CURRENT_ENVELOPE_VERSION,
+    recipe: {
+      id: null,
+      title: sanitized.title,
+      description: sanitized.description,
+      servings: sanitized.servings && sanitized.servings > 0 ? sanitized.servings : null,
+      calories: null,
+      prep_time_minutes: sanitized.prep_time_minutes,
+      cook_time_minutes: sanitized.cook_time_minutes,
+      tags: sanitized.tags,
+      cuisine: sanitized.cuisine,
+      dietary_labels: [],
+      source: sourceUrl ? { type: 'url', url: sourceUrl } : { type: 'manual' },
+      ingredients: sanitized.ingredients.map(({ text, section }) => ({ raw_text: text, section })),
+      steps: sanitized.steps.map(({ text, section }) => ({ instruction: text, section })),
+      media: sanitized.media.map((item) => ({
+        media_type: item.media_type,
+        url: item.url,
+        name: null,
+        is_generated: false,
+      })),
+      metadata: {
+        attribution: sanitized.attribution,
+        author_name: sanitized.author_name ?? undefined,
+      },
+    },
+  });
+
+  if (!parsed.success) {
+    logger.warn({ issues: parsed.error.issues, format, title }, 'Exported recipe failed schema validation');
+    return {
+      missing_fields: [...new Set(parsed.error.issues.map((issue) => String(issue.path[1] ?? 'recipe')))],
+      warnings,
+    };
+  }
+
+  return { envelope: parsed.data, warnings };
+}
+
 function buildMissingFields(data: PartialRecipeData): string[] {
   const missing: string[] = [];
   if (!data.title || data.title.trim().length === 0) {
     missing.push('title');
   }
+  // Headings were dropped when grouping, so they alone do not make a recipe
   if (!data.ingredients || data.ingredients.length === 0) {
     missing.push('ingredients');
   }
@@ -809,7 +1446,11 @@ async function fetchWithGuards(rawUrl: string): Promise<{ body: string; finalUrl
   throw new ImportError('Too many redirects.', 'IMPORT_TOO_MANY_REDIRECTS', 400);
 }
 
-async function validateUrl(rawUrl: string): Promise<URL> {
+/**
+ * Checks that need no network: scheme, credentials, local hosts and private
+ * IP literals. Used to screen batch URLs before they are queued.
+ */
+function parseImportUrl(rawUrl: string) {
   if (rawUrl.length > 2048) {
     throw new ImportError('URL is too long.', 'IMPORT_INVALID_URL', 400);
   }
@@ -834,10 +1475,18 @@ async function validateUrl(rawUrl: string): Promise<URL> {
     throw new ImportError('That URL is not allowed.', 'IMPORT_URL_BLOCKED', 400);
   }
 
+  if (net.isIP(hostname) && isPrivateIp(hostname)) {
+    throw new ImportError('That URL is not allowed.', 'IMPORT_URL_BLOCKED', 400);
+  }
+
+  return parsed;
+}
+
+async function validateUrl(rawUrl: string): Promise<URL> {
+  const parsed = parseImportUrl(rawUrl);
+  const hostname = parsed.hostname.toLowerCase();
+
   if (net.isIP(hostname)) {
-    if (isPrivateIp(hostname)) {
-      throw new ImportError('That URL is not allowed.', 'IMPORT_URL_BLOCKED', 400);
-    }
     return parsed;
   }
 
@@ -958,73 +1607,53 @@ function isRecipeType(value: string): boolean {
   );
 }
 
-function extractInstructions(value: unknown): string[] {
+/**
+ * Steps of JSON-LD recipeInstructions. A HowToSection names the section of
+ * its own steps only; a step that is just a heading ("For the glaze:") applies
+ * to the steps after it.
+ */
+function extractInstructions(value: unknown, section: string | null = null): SectionedLine[] {
   if (!value) return [];
   if (typeof value === 'string') {
-    return splitInstructions(value);
+    return groupLines(splitInstructions(value)).map((step) => ({ text: step.text, section: step.section ?? section }));
   }
   if (Array.isArray(value)) {
-    return value.flatMap(extractInstructions);
+    const steps: SectionedLine[] = [];
+    let current = section;
+    for (const item of value) {
+      const text = typeof item === 'string'
+        ? item
+        : isRecord(item) && !item.itemListElement ? asString(item.text) ?? asString(item.name) : null;
+      const heading = text ? parseSectionHeading(text) : null;
+      if (heading) {
+        current = heading;
+        continue;
+      }
+      steps.push(...extractInstructions(item, current));
+    }
+    return steps;
   }
   if (isRecord(value)) {
+    // HowToSection: a named group of steps
+    if (value.itemListElement && typeof value.name === 'string' && value.name.trim()) {
+      return extractInstructions(value.itemListElement, value.name.trim());
+    }
     if (value.text) {
-      return splitInstructions(String(value.text));
+      return extractInstructions(String(value.text), section);
     }
     if (value.name) {
-      return splitInstructions(String(value.name));
+      return extractInstructions(String(value.name), section);
     }
     if (value.itemListElement) {
-      return extractInstructions(value.itemListElement);
+      return extractInstructions(value.itemListElement, section);
     }
     if (value.steps) {
-      return extractInstructions(value.steps);
+      return extractInstructions(value.steps, section);
     }
   }
   return [];
 }
 
-function splitInstructions(text: string): string[] {
-  const lines = text
-    .split(/\r?\n+/)
-    .map((line) => line.trim())
-    .filter(Boolean);
-  if (lines.length > 1) {
-    return lines.map(stripLeadingNumber);
-  }
-
-  const sentences = text
-    .split(/(?<=[.!?])\s+(?=[A-Z0-9])/)
-    .map((line) => line.trim())
-    .filter(Boolean);
-  if (sentences.length > 1) {
-    return sentences.map(stripLeadingNumber);
-  }
-
-  return text.trim() ? [stripLeadingNumber(text.trim())] : [];
-}
-
-function stripLeadingNumber(text: string): string {
-  return text.replace(/^\s*\d+[\).:-]?\s*/, '').trim();
-}
-
-function normalizeStringList(value: unknown): string[] {
-  if (!value) return [];
-  if (Array.isArray(value)) {
-    return value
-      .map((item) => (typeof item === 'string' ? item : null))
-      .filter((item): item is string => Boolean(item))
-      .map((item) => item.trim())
-      .filter(Boolean);
-  }
-  if (typeof value === 'string') {
-    return value
-      .split(/\r?\n+/)
-      .map((item) => item.trim())
-      .filter(Boolean);
-  }
-  return [];
-}
-
 function normalizeTags(keywords: unknown, categories: unknown): string[] {
   const tags = new Set<string>();
   const keywordList = normalizeStringList(keywords);
@@ -1038,18 +1667,6 @@ function normalizeTags(keywords: unknown, categories: unknown): string[] {
   return Array.from(tags).filter(Boolean).map((item) => truncate(item, 50));
 }
 
-function parseServings(value: unknown): number | null {
-  if (typeof value === 'number' && Number.isFinite(value)) return Math.round(value);
-  if (typeof value === 'string') {
-    const match = value.match(/(\d+)\s*/);
-    if (match) return Number(match[1]);
-  }
-  if (Array.isArray(value) && value.length > 0) {
-    return parseServings(value[0]);
-  }
-  return null;
-}
-
 function parseCalories(value: unknown): number | null {
   if (typeof value === 'number' && Number.isFinite(value)) return Math.round(value);
   if (typeof value === 'string') {
@@ -1059,21 +1676,6 @@ function parseCalories(value: unknown): number | null {
   return null;
 }
 
-function parseDurationToMinutes(value: unknown): number | null {
-  if (!value) return null;
-  if (typeof value === 'number' && Number.isFinite(value)) return Math.round(value);
-  if (typeof value !== 'string') return null;
-  const isoMatch = value.match(/P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?/);
-  if (isoMatch) {
-    const days = Number(isoMatch[1] ?? 0);
-    const hours = Number(isoMatch[2] ?? 0);
-    const minutes = Number(isoMatch[3] ?? 0);
-    return days * 24 * 60 + hours * 60 + minutes;
-  }
-  const numberMatch = value.match(/(\d+)/);
-  return numberMatch ? Number(numberMatch[1]) : null;
-}
-
 function extractImageUrl(value: unknown): string | null {
   if (!value) return null;
   if (typeof value === 'string') return value;
@@ -1110,22 +1712,11 @@ function pickFirstString(...values: unknown[]): string | null {
   return null;
 }
 
-function asString(value: unknown): string | null {
-  if (typeof value === 'string' && value.trim().length > 0) {
-    return value.trim();
-  }
-  return null;
-}
-
 function asArray(value: unknown): unknown[] {
   if (!value) return [];
   return Array.isArray(value) ? value : [value];
 }
 
-function isRecord(value: unknown): value is Record<string, unknown> {
-  return Boolean(value && typeof value === 'object' && !Array.isArray(value));
-}
-
 function isChatGptShareUrl(sourceUrl: string): boolean {
   try {
     const parsed = new URL(sourceUrl);
@@ -1251,8 +1842,8 @@ function sanitizeRecipeData(data: PartialRecipeData): PartialRecipeData {
     ...data,
     title: data.title ? truncate(data.title, 200) : null,
     description: data.description ? truncate(data.description, 2000) : null,
-    ingredients: data.ingredients.map((item) => truncate(stripBullet(item), 500)).filter(Boolean),
-    steps: data.steps.map((item) => truncate(stripBullet(item), 2000)).filter(Boolean),
+    ingredients: sanitizeSectionedLines(data.ingredients, 500),
+    steps: sanitizeSectionedLines(data.steps, 2000),
     tags: normalizeRecipeTags(data.tags).map((tag) => truncate(tag, 50)),
     cuisine: normalizeCuisine(data.cuisine),
     dietary_labels: normalizeDietaryLabels(data.dietary_labels).map((label) => truncate(label, 50)),
@@ -1264,13 +1855,22 @@ function sanitizeRecipeData(data: PartialRecipeData): PartialRecipeData {
   };
 }
 
-function stripBullet(value: string): string {
-  return value.replace(/^[-*\u2022]\s*/, '').trim();
+function sanitizeSectionedLines(items: SectionedLine[], maxLength: number): SectionedLine[] {
+  return items
+    .map((item) => ({
+      text: truncate(stripBullet(item.text), maxLength),
+      section: item.section?.trim() ? truncate(item.section.trim(), MAX_SECTION_LENGTH) : null,
+    }))
+    .filter((item) => item.text);
 }
 
-function truncate(value: string, max: number): string {
-  if (value.length <= max) return value;
-  return value.slice(0, max).trim();
+// Heading lines of a text source become the sections of the items below them
+function groupLines(lines: string[]): SectionedLine[] {
+  return groupSections(lines.map(stripBullet));
+}
+
+function stripBullet(value: string): string {
+  return value.replace(/^[-*\u2022]\s*/, '').trim();
 }
 
 function extractTitle(html: string): string | null {
@@ -1286,25 +1886,6 @@ function extractMetaContent(html: string, attribute: 'property' | 'name', value:
   return match ? match[1].trim() : null;
 }
 
-function htmlToText(html: string): string {
-  return html
-    .replace(/<script[\s\S]*?<\/script>/gi, ' ')
-    .replace(/<style[\s\S]*?<\/style>/gi, ' ')
-    .replace(/<\/(p|div|section|article|h1|h2|h3|h4|h5|h6|li|br|tr|td)>/gi, '\n')
-    .replace(/<li[^>]*>/gi, '\n- ')
-    .replace(/<br\s*\/?>/gi, '\n')
-    .replace(/<[^>]+>/g, ' ')
-    .replace(/&nbsp;/gi, ' ')
-    .replace(/&amp;/gi, '&')
-    .replace(/&quot;/gi, '"')
-    .replace(/&#39;/gi, "'")
-    .replace(/&lt;/gi, '<')
-    .replace(/&gt;/gi, '>')
-    .replace(/\s+\n/g, '\n')
-    .replace(/\n{3,}/g, '\n\n')
-    .trim();
-}
-
 function normalizeSectionHeading(line: string): string {
   return line
     .toLowerCase()
@@ -1318,20 +1899,29 @@ function extractSection(lines: string[], labels: string[]): string[] {
   const labelSet = new Set(labels.map((label) => label.toLowerCase()));
   const stopSet = new Set(['nutrition', 'notes', 'tips', 'storage', 'video']);
 
+  // "Ingredients for the frosting" opens a section of the ingredients
+  const labelledSection = (line: string): string | null => {
+    for (const label of labelSet) {
+      if (line.startsWith(`${label} `)) {
+        const rest = line.slice(label.length).trim();
+        return rest ? rest.charAt(0).toUpperCase() + rest.slice(1) : null;
+      }
+    }
+    return null;
+  };
+
   let startIndex = -1;
+  const results: string[] = [];
   for (let i = 0; i < lines.length; i += 1) {
     const line = normalizeSectionHeading(lines[i]);
     if (labelSet.has(line)) {
       startIndex = i + 1;
       break;
     }
-    for (const label of labelSet) {
-      if (line.startsWith(`${label} `)) {
-        startIndex = i + 1;
-        break;
-      }
-    }
-    if (startIndex !== -1) {
+    const section = labelledSection(line);
+    if (section !== null) {
+      startIndex = i + 1;
+      if (/^for\b/i.test(section)) results.push(sectionHeadingLine(section));
       break;
     }
   }
@@ -1340,7 +1930,6 @@ function extractSection(lines: string[], labels: string[]): string[] {
     return [];
   }
 
-  const results: string[] = [];
   for (let i = startIndex; i < lines.length; i += 1) {
     const line = lines[i];
     const normalized = normalizeSectionHeading(line);
@@ -1353,6 +1942,11 @@ function extractSection(lines: string[], labels: string[]): string[] {
       }
       continue;
     }
+    const section = labelledSection(normalized);
+    if (section !== null && /^for\b/i.test(section)) {
+      results.push(sectionHeadingLine(section));
+      continue;
+    }
     results.push(stripBullet(line));
   }
 
@@ -0,0 +1,345 @@
+import { supabaseAdmin } from '../config/supabase.js';
+import { BadRequestError, ConflictError, NotFoundError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import type { RecipeEnvelopeData } from '../schemas/envelope.js';
+import { MEAL_TYPES, type MealType } from '../utils/meal-types.js';
+import { buildRecipeDataById } from '../utils/recipe-data.js';
+import { withRecipeOwnership, type RecipePayload } from '../utils/recipe-payload.js';
+import type { MealPlanSlot } from '../types/index.js';
+
+export type MealPlanSlotSource =
+  | { source_type: 'recipe'; source_id: string }
+  | { source_type: 'recipe_save'; source_id: string }
+  | { source_type: 'daily_plan_item'; source_id: string };
+
+export type CreateMealPlanSlotInput = MealPlanSlotSource & {
+  date: string;
+  meal_type: MealType;
+  notes?: string | null;
+};
+
+export type UpdateMealPlanSlotInput = {
+  source?: MealPlanSlotSource;
+  notes?: string | null;
+};
+
+export type MoveMealPlanSlotInput = {
+  date: string;
+  meal_type: MealType;
+  // Exchange recipes with the target slot when it is already filled
+  swap?: boolean;
+};
+
+export type MealPlanSlotPayload = MealPlanSlot & {
+  // null when the recipe has since been deleted
+  recipe_data: RecipePayload<RecipeEnvelopeData> | null;
+};
+
+export type MealPlanWeek = {
+  week_start: string;
+  week_end: string;
+  days: Array<{
+    date: string;
+    slots: Record<MealType, MealPlanSlotPayload | null>;
+  }>;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const UNIQUE_VIOLATION = '23505';
+
+const toDateString = (date: Date): string => date.toISOString().split('T')[0];
+
+/**
+ * Monday of the week containing the given YYYY-MM-DD date (UTC)
+ */
+export const getWeekStart = (date: string): string => {
+  const day = new Date(`${date}T00:00:00Z`);
+  const offset = (day.getUTCDay() + 6) % 7;
+  return toDateString(new Date(day.getTime() - offset * DAY_MS));
+};
+
+const addDays = (date: string, days: number): string =>
+  toDateString(new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS));
+
+const emptySlots = (): Record<MealType, MealPlanSlotPayload | null> => ({
+  breakfast: null,
+  lunch: null,
+  dinner: null,
+  dessert: null,
+});
+
+export class MealPlannerService {
+  /**
+   * Get the user's plan for the week containing `date` (defaults to today)
+   */
+  async getWeek(userId: string, date?: string): Promise<MealPlanWeek> {
+    const weekStart = getWeekStart(date ?? toDateString(new Date()));
+    const weekEnd = addDays(weekStart, 6);
+
+    const { data: slots, error } = await supabaseAdmin
+      .from('meal_plan_slots')
+      .select('*')
+      .eq('user_id', userId)
+      .gte('plan_date', weekStart)
+      .lte('plan_date', weekEnd);
+
+    if (error) {
+      throw new BadRequestError('Failed to fetch meal plan');
+    }
+
+    const payloads = await this.toPayloads((slots ?? []) as MealPlanSlot[]);
+    const days = Array.from({ length: 7 }, (_, index) => ({
+      date: addDays(weekStart, index),
+      slots: emptySlots(),
+    }));
+
+    for (const slot of payloads) {
+      const day = days.find((entry) => entry.date === slot.plan_date);
+      if (day && (MEAL_TYPES as readonly string[]).includes(slot.meal_type)) {
+        day.slots[slot.meal_type] = slot;
+      }
+    }
+
+    return { week_start: weekStart, week_end: weekEnd, days };
+  }
+
+  /**
+   * Fill an empty slot from an owned recipe, a save or a shared plan item
+   */
+  async createSlot(userId: string, input: CreateMealPlanSlotInput): Promise<MealPlanSlotPayload> {
+    const resolved = await this.resolveSource(userId, input);
+
+    const { data: slot, error } = await supabaseAdmin
+      .from('meal_plan_slots')
+      .insert({
+        user_id: userId,
+        plan_date: input.date,
+        meal_type: input.meal_type,
+        recipe_id: resolved.recipe_id,
+        daily_plan_item_id: resolved.daily_plan_item_id,
+        notes: input.notes ?? null,
+      })
+      .select('*')
+      .single();
+
+    if (error?.code === UNIQUE_VIOLATION) {
+      throw new ConflictError('Meal slot already filled');
+    }
+    if (error || !slot) {
+      throw new BadRequestError('Failed to create meal slot');
+    }
+
+    return this.toPayload(slot as MealPlanSlot);
+  }
+
+  async getSlot(userId: string, slotId: string): Promise<MealPlanSlotPayload> {
+    const slot = await this.getOwnedSlot(userId, slotId);
+    return this.toPayload(slot);
+  }
+
+  /**
+   * Replace a slot's recipe and/or notes
+   */
+  async updateSlot(
+    userId: string,
+    slotId: string,
+    input: UpdateMealPlanSlotInput
+  ): Promise<MealPlanSlotPayload> {
+    const slot = await this.getOwnedSlot(userId, slotId);
+
+    const updates: Partial<Pick<MealPlanSlot, 'recipe_id' | 'daily_plan_item_id' | 'notes'>> = {};
+    if (input.source) {
+      Object.assign(updates, await this.resolveSource(userId, input.source));
+    }
+    if (input.notes !== undefined) {
+      updates.notes = input.notes;
+    }
+
+    const { data: updated, error } = await supabaseAdmin
+      .from('meal_plan_slots')
+      .update(updates)
+      .eq('id', slot.id)
+      .eq('user_id', userId)
+      .select('*')
+      .single();
+
+    if (error || !updated) {
+      throw new BadRequestError('Failed to update meal slot');
+    }
+
+    return this.toPayload(updated as MealPlanSlot);
+  }
+
+  async deleteSlot(userId: string, slotId: string): Promise<void> {
+    const slot = await this.getOwnedSlot(userId, slotId);
+
+    const { error } = await supabaseAdmin
+      .from('meal_plan_slots')
+      .delete()
+      .eq('id', slot.id)
+      .eq('user_id', userId);
+
+    if (error) {
+      throw new BadRequestError('Failed to delete meal slot');
+    }
+  }
+
+  /**
+   * Move a slot to another day/meal. A filled target is a conflict unless
+   * `swap` is set, in which case the two slots exchange recipes.
+   */
+  async moveSlot(
+    userId: string,
+    slotId: string,
+    input: MoveMealPlanSlotInput
+  ): Promise<MealPlanSlotPayload[]> {
+    const slot = await this.getOwnedSlot(userId, slotId);
+    if (slot.plan_date === input.date && slot.meal_type === input.meal_type) {
+      return [await this.toPayload(slot)];
+    }
+
+    const { data: target, error: targetError } = await supabaseAdmin
+      .from('meal_plan_slots')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('plan_date', input.date)
+      .eq('meal_type', input.meal_type)
+      .maybeSingle();
+
+    if (targetError) {
+      throw new BadRequestError('Failed to fetch target meal slot');
+    }
+
+    if (!target) {
+      const { data: moved, error } = await supabaseAdmin
+        .from('meal_plan_slots')
+        .update({ plan_date: input.date, meal_type: input.meal_type })
+        .eq('id', slot.id)
+        .eq('user_id', userId)
+        .select('*')
+        .single();
+
+      if (error?.code === UNIQUE_VIOLATION) {
+        throw new ConflictError('Meal slot already filled');
+      }
+      if (error || !moved) {
+        throw new BadRequestError('Failed to move meal slot');
+      }
+
+      return [await this.toPayload(moved as MealPlanSlot)];
+    }
+
+    if (!input.swap) {
+      throw new ConflictError('Meal slot already filled');
+    }
+
+    // Swap contents rather than positions so the unique slot index never
+    // clashes; the RPC does both rows in one transaction
+    const { data: swapped, error } = await supabaseAdmin.rpc('swap_meal_plan_slots', {
+      p_user_id: userId,
+      p_slot_id: slot.id,
+      p_date: input.date,
+      p_meal_type: input.meal_type,
+    });
+
+    if (error) {
+      logger.error({ slotId, targetId: target.id, error }, 'Failed to swap meal slots');
+      throw new BadRequestError('Failed to swap meal slots');
+    }
+    const first = swapped?.find((row) => row.id === slot.id);
+    const second = swapped?.find((row) => row.id !== slot.id);
+    if (!first || !second) {
+      throw new ConflictError('Meal slots changed during the move');
+    }
+
+    return this.toPayloads([second as MealPlanSlot, first as MealPlanSlot]);
+  }
+
+  private async resolveSource(
+    userId: string,
+    source: MealPlanSlotSource
+  ): Promise<{ recipe_id: string; daily_plan_item_id: string | null }> {
+    if (source.source_type === 'daily_plan_item') {
+      const { data: planItem, error } = await supabaseAdmin
+        .from('daily_meal_plan_items')
+        .select('id, recipe_id')
+        .eq('id', source.source_id)
+        .maybeSingle();
+
+      if (error || !planItem) {
+        throw new NotFoundError('Suggestion');
+      }
+
+      return { recipe_id: planItem.recipe_id, daily_plan_item_id: planItem.id };
+    }
+
+    if (source.source_type === 'recipe_save') {
+      const { data: save, error } = await supabaseAdmin
+        .from('recipe_saves')
+        .select('recipe_id')
+        .eq('id', source.source_id)
+        .eq('user_id', userId)
+        .is('deleted_at', null)
+        .maybeSingle();
+
+      if (error || !save) {
+        throw new NotFoundError('Recipe save');
+      }
+
+      return { recipe_id: save.recipe_id, daily_plan_item_id: null };
+    }
+
+    const { data: recipe, error } = await supabaseAdmin
+      .from('recipes')
+      .select('id')
+      .eq('id', source.source_id)
+      .eq('user_id', userId)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (error || !recipe) {
+      throw new NotFoundError('Recipe');
+    }
+
+    return { recipe_id: recipe.id, daily_plan_item_id: null };
+  }
+
+  private async getOwnedSlot(userId: string, slotId: string): Promise<MealPlanSlot> {
+    const { data: slot, error } = await supabaseAdmin
+      .from('meal_plan_slots')
+      .select('*')
+      .eq('id', slotId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new BadRequestError('Failed to fetch meal slot');
+    }
+    if (!slot) {
+      throw new NotFoundError('Meal slot');
+    }
+
+    return slot as MealPlanSlot;
+  }
+
+  private async toPayload(slot: MealPlanSlot): Promise<MealPlanSlotPayload> {
+    const [payload] = await this.toPayloads([slot]);
+    return payload;
+  }
+
+  private async toPayloads(slots: MealPlanSlot[]): Promise<MealPlanSlotPayload[]> {
+    const recipeDataById = await buildRecipeDataById([...new Set(slots.map((slot) => slot.recipe_id))]);
+
+    return slots.map((slot) => {
+      const recipeData = recipeDataById.get(slot.recipe_id);
+      return {
+        ...slot,
+        recipe_data: recipeData
+          ? withRecipeOwnership(recipeData, { isUserOwned: slot.daily_plan_item_id === null })
+          : null,
+      };
+    });
+  }
+}
+
+export const mealPlannerService = new MealPlannerService();
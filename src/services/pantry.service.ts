@@ -0,0 +1,331 @@
+import { supabaseAdmin } from '../config/supabase.js';
+import { recipeService } from './recipe.service.js';
+import { preferencesService } from './preferences.service.js';
+import { BadRequestError, ConflictError, NotFoundError } from '../utils/errors.js';
+import { toIngredientColumns } from '../utils/ingredient-parser.js';
+import { findExcludedIngredients, isPantryStaple, pantryItemCovers } from '../utils/ingredient-matching.js';
+import type { PantryItem, RecipeListItem } from '../types/index.js';
+
+export type PantryItemInput = {
+  ingredient_name: string;
+  quantity?: number | null;
+  unit?: string | null;
+};
+
+export type PantryMatchOptions = {
+  page: number;
+  limit: number;
+  includeFeed: boolean;
+  // Count salt, pepper and water as always on hand
+  assumeStaples: boolean;
+};
+
+export type PantryMatch = {
+  recipe: RecipeListItem;
+  coverage: number;
+  matched_ingredients: string[];
+  missing_ingredients: string[];
+};
+
+export interface PaginatedPantryMatches {
+  matches: PantryMatch[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+// Most recent feed recipes considered for matching
+const MAX_FEED_POOL = 500;
+const INGREDIENT_QUERY_CHUNK = 50;
+// PostgREST's max-rows cap on Supabase; longer results are read in pages
+const ROW_PAGE_SIZE = 1000;
+const UNIQUE_VIOLATION = '23505';
+
+const normalizeName = (value: string): string => value.trim().replace(/\s+/g, ' ').toLowerCase();
+
+type CandidateRecipe = {
+  id: string;
+  created_at: string;
+};
+
+type CandidateIngredient = {
+  raw_text: string;
+  ingredient_name: string;
+};
+
+const scoreRecipe = (
+  ingredients: CandidateIngredient[],
+  pantryNames: string[],
+  assumeStaples: boolean
+): Omit<PantryMatch, 'recipe'> | null => {
+  const matched: string[] = [];
+  const missing: string[] = [];
+  let considered = 0;
+
+  for (const ingredient of ingredients) {
+    const inPantry = pantryNames.some((name) => pantryItemCovers(name, ingredient.ingredient_name));
+
+    if (inPantry) {
+      matched.push(ingredient.raw_text);
+      considered += 1;
+    } else if (assumeStaples && isPantryStaple(ingredient.ingredient_name)) {
+      continue;
+    } else {
+      missing.push(ingredient.raw_text);
+      considered += 1;
+    }
+  }
+
+  if (matched.length === 0 || considered === 0) {
+    return null;
+  }
+
+  return {
+    coverage: Math.round((matched.length / considered) * 100) / 100,
+    matched_ingredients: matched,
+    missing_ingredients: missing,
+  };
+};
+
+export class PantryService {
+  async listItems(userId: string): Promise<PantryItem[]> {
+    const { data: items, error } = await supabaseAdmin
+      .from('pantry_items')
+      .select('*')
+      .eq('user_id', userId)
+      .order('ingredient_name');
+
+    if (error) {
+      throw new BadRequestError('Failed to fetch pantry');
+    }
+
+    return (items ?? []) as PantryItem[];
+  }
+
+  /**
+   * Add items to the pantry; an existing ingredient has its quantity replaced
+   */
+  async upsertItems(userId: string, items: PantryItemInput[]): Promise<PantryItem[]> {
+    const rowsByName = new Map<string, PantryItemInput & { ingredient_name: string }>();
+    for (const item of items) {
+      const name = normalizeName(item.ingredient_name);
+      if (name) {
+        rowsByName.set(name, { ...item, ingredient_name: name });
+      }
+    }
+
+    if (rowsByName.size === 0) {
+      throw new BadRequestError('No pantry items to add');
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('pantry_items')
+      .upsert(
+        [...rowsByName.values()].map((item) => ({
+          user_id: userId,
+          ingredient_name: item.ingredient_name,
+          quantity: item.quantity ?? null,
+          unit: item.unit ?? null,
+        })),
+        { onConflict: 'user_id,ingredient_name' }
+      )
+      .select('*');
+
+    if (error) {
+      throw new BadRequestError('Failed to update pantry');
+    }
+
+    return (data ?? []) as PantryItem[];
+  }
+
+  async updateItem(
+    userId: string,
+    itemId: string,
+    updates: Partial<PantryItemInput>
+  ): Promise<PantryItem> {
+    const { data: item, error } = await supabaseAdmin
+      .from('pantry_items')
+      .update({
+        ...(updates.ingredient_name !== undefined && { ingredient_name: normalizeName(updates.ingredient_name) }),
+        ...(updates.quantity !== undefined && { quantity: updates.quantity }),
+        ...(updates.unit !== undefined && { unit: updates.unit }),
+      })
+      .eq('id', itemId)
+      .eq('user_id', userId)
+      .select('*')
+      .maybeSingle();
+
+    if (error?.code === UNIQUE_VIOLATION) {
+      throw new ConflictError('Ingredient already in pantry');
+    }
+    if (error) {
+      throw new BadRequestError('Failed to update pantry item');
+    }
+    if (!item) {
+      throw new NotFoundError('Pantry item');
+    }
+
+    return item as PantryItem;
+  }
+
+  async deleteItem(userId: string, itemId: string): Promise<void> {
+    const { data, error } = await supabaseAdmin
+      .from('pantry_items')
+      .delete()
+      .eq('id', itemId)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) {
+      throw new BadRequestError('Failed to delete pantry item');
+    }
+    if (!data || data.length === 0) {
+      throw new NotFoundError('Pantry item');
+    }
+  }
+
+  /**
+   * Rank owned, saved and feed recipes by how much of each the pantry covers
+   */
+  async matchRecipes(userId: string, options: PantryMatchOptions): Promise<PaginatedPantryMatches> {
+    const { page, limit } = options;
+    const empty = { matches: [], pagination: { page, limit, total: 0, totalPages: 0 } };
+
+    const [pantry, preferences] = await Promise.all([
+      this.listItems(userId),
+      preferencesService.getPreferences(userId),
+    ]);
+
+    if (pantry.length === 0) {
+      return empty;
+    }
+
+    // Saved recipes are owned copies, so user_id covers both. Only ids and
+    // dates are needed to rank; full rows are loaded for the page shown.
+    const ownedRecipes: CandidateRecipe[] = [];
+    for (let offset = 0; ; offset += ROW_PAGE_SIZE) {
+      const { data, error: ownedError } = await supabaseAdmin
+        .from('recipes')
+        .select('id, created_at')
+        .eq('user_id', userId)
+        .is('deleted_at', null)
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .range(offset, offset + ROW_PAGE_SIZE - 1);
+
+      if (ownedError) {
+        throw new BadRequestError('Failed to fetch recipes');
+      }
+      ownedRecipes.push(...(data ?? []));
+      if (!data || data.length < ROW_PAGE_SIZE) break;
+    }
+
+    let feedRecipes: CandidateRecipe[] = [];
+    if (options.includeFeed) {
+      const { data, error: feedError } = await supabaseAdmin
+        .from('recipes')
+        .select('id, created_at')
+        .is('user_id', null)
+        .is('deleted_at', null)
+        .order('created_at', { ascending: false })
+        .limit(MAX_FEED_POOL);
+
+      if (feedError) {
+        throw new BadRequestError('Failed to fetch feed recipes');
+      }
+      feedRecipes = data ?? [];
+    }
+
+    const candidates = [...ownedRecipes, ...feedRecipes];
+    if (candidates.length === 0) {
+      return empty;
+    }
+
+    // Chunked to keep the URL short, and each chunk paged so no recipe is
+    // scored on a list cut off by the row cap
+    const candidateIds = candidates.map((recipe) => recipe.id);
+    const ingredients: Array<{ recipe_id: string; raw_text: string; ingredient_name: string | null }> = [];
+    for (let chunk = 0; chunk < candidateIds.length; chunk += INGREDIENT_QUERY_CHUNK) {
+      const chunkIds = candidateIds.slice(chunk, chunk + INGREDIENT_QUERY_CHUNK);
+      for (let offset = 0; ; offset += ROW_PAGE_SIZE) {
+        const { data, error: ingredientsError } = await supabaseAdmin
+          .from('recipe_ingredients')
+          .select('recipe_id, raw_text, ingredient_name')
+          .in('recipe_id', chunkIds)
+          .order('recipe_id')
+          .order('position')
+          .range(offset, offset + ROW_PAGE_SIZE - 1);
+
+        if (ingredientsError) {
+          throw new BadRequestError('Failed to fetch recipe ingredients');
+        }
+        ingredients.push(...(data ?? []));
+        if (!data || data.length < ROW_PAGE_SIZE) break;
+      }
+    }
+
+    const ingredientsByRecipeId = new Map<string, CandidateIngredient[]>();
+    for (const row of ingredients) {
+      // Older rows may predate structured columns; derive the name on the fly
+      const name = row.ingredient_name ?? toIngredientColumns(row.raw_text).ingredient_name;
+      if (!name) continue;
+      const existing = ingredientsByRecipeId.get(row.recipe_id) ?? [];
+      existing.push({ raw_text: row.raw_text, ingredient_name: name });
+      ingredientsByRecipeId.set(row.recipe_id, existing);
+    }
+
+    const pantryNames = pantry.map((item) => item.ingredient_name);
+    const excluded = preferences?.excluded_ingredients ?? [];
+
+    const scored = candidates
+      .map((recipe) => {
+        const recipeIngredients = ingredientsByRecipeId.get(recipe.id) ?? [];
+        const names = recipeIngredients.map((ingredient) => ingredient.ingredient_name);
+        if (findExcludedIngredients(names, excluded).length > 0) {
+          return null;
+        }
+        const score = scoreRecipe(recipeIngredients, pantryNames, options.assumeStaples);
+        return score ? { recipe, score } : null;
+      })
+      .filter((entry): entry is NonNullable<typeof entry> => entry !== null)
+      .sort((a, b) =>
+        b.score.coverage - a.score.coverage ||
+        a.score.missing_ingredients.length - b.score.missing_ingredients.length ||
+        new Date(b.recipe.created_at).getTime() - new Date(a.recipe.created_at).getTime()
+      );
+
+    const total = scored.length;
+    const pageEntries = scored.slice((page - 1) * limit, page * limit);
+    const pagination = { page, limit, total, totalPages: Math.ceil(total / limit) };
+    if (pageEntries.length === 0) {
+      return { matches: [], pagination };
+    }
+
+    const { data: pageRecipes, error: pageError } = await supabaseAdmin
+      .from('recipes')
+      .select('*')
+      .in('id', pageEntries.map((entry) => entry.recipe.id))
+      .is('deleted_at', null);
+
+    if (pageError) {
+      throw new BadRequestError('Failed to fetch recipes');
+    }
+
+    const listItems = await recipeService.buildListItems(pageRecipes ?? [], userId);
+    const listItemById = new Map(listItems.map((item) => [item.id, item]));
+
+    return {
+      // A recipe deleted since it was ranked drops out of the page
+      matches: pageEntries.flatMap((entry) => {
+        const recipe = listItemById.get(entry.recipe.id);
+        return recipe ? [{ recipe, ...entry.score }] : [];
+      }),
+      pagination,
+    };
+  }
+}
+
+export const pantryService = new PantryService();
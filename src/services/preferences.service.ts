@@ -0,0 +1,177 @@
+import { supabaseAdmin } from '../config/supabase.js';
+import { BadRequestError } from '../utils/errors.js';
+import { toIngredientColumns } from '../utils/ingredient-parser.js';
+import {
+  DEFAULT_PREFERENCES,
+  canonicalizePreferences,
+  evaluateRecipePreferences,
+  type PreferenceEvaluation,
+  type PreferenceFields,
+  type RecipePreferences,
+} from '../utils/preferences.js';
+import { normalizeAllergens, type Allergen } from '../utils/allergens.js';
+import type { UserPreferences } from '../types/index.js';
+
+const RECIPE_QUERY_CHUNK = 50;
+
+export class PreferencesService {
+  /**
+   * Stored preferences in canonical form, or null when the user has none
+   */
+  async getPreferences(userId: string): Promise<UserPreferences | null> {
+    const { data: preferences, error } = await supabaseAdmin
+      .from('user_preferences')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new BadRequestError('Failed to fetch preferences');
+    }
+    if (!preferences) {
+      return null;
+    }
+
+    return {
+      ...preferences,
+      ...canonicalizePreferences(preferences as Partial<PreferenceFields>),
+    } as UserPreferences;
+  }
+
+  /**
+   * Stored preferences, or defaults for a user who has never set any
+   */
+  async getPreferencesOrDefaults(userId: string): Promise<UserPreferences> {
+    const preferences = await this.getPreferences(userId);
+    if (preferences) {
+      return preferences;
+    }
+
+    const now = new Date().toISOString();
+    return { user_id: userId, ...DEFAULT_PREFERENCES, created_at: now, updated_at: now };
+  }
+
+  /**
+   * Allergens the user must avoid; none for anonymous users
+   */
+  async getAllergenProfile(userId: string | null): Promise<Allergen[]> {
+    if (!userId) {
+      return [];
+    }
+    const preferences = await this.getPreferences(userId);
+    return normalizeAllergens(preferences?.allergens ?? []);
+  }
+
+  /**
+   * Replace all preferences; omitted fields reset to their defaults
+   */
+  async replacePreferences(userId: string, input: Partial<PreferenceFields>): Promise<UserPreferences> {
+    return this.writePreferences(userId, { ...DEFAULT_PREFERENCES, ...input });
+  }
+
+  /**
+   * Update only the given fields, keeping the rest. A cuisine newly marked as
+   * preferred leaves the disliked list, and vice versa.
+   */
+  async updatePreferences(userId: string, input: Partial<PreferenceFields>): Promise<UserPreferences> {
+    const current = canonicalizePreferences(await this.getPreferencesOrDefaults(userId));
+    const merged = { ...current, ...input };
+
+    if (input.preferred_cuisines && !input.disliked_cuisines) {
+      merged.disliked_cuisines = current.disliked_cuisines.filter(
+        (cuisine) => !input.preferred_cuisines?.includes(cuisine)
+      );
+    }
+    if (input.disliked_cuisines && !input.preferred_cuisines) {
+      merged.preferred_cuisines = current.preferred_cuisines.filter(
+        (cuisine) => !input.disliked_cuisines?.includes(cuisine)
+      );
+    }
+
+    return this.writePreferences(userId, merged);
+  }
+
+  private async writePreferences(userId: string, fields: PreferenceFields): Promise<UserPreferences> {
+    const { data: preferences, error } = await supabaseAdmin
+      .from('user_preferences')
+      .upsert({
+        user_id: userId,
+        ...canonicalizePreferences(fields),
+        updated_at: new Date().toISOString(),
+      })
+      .select('*')
+      .single();
+
+    if (error || !preferences) {
+      throw new BadRequestError('Failed to update preferences');
+    }
+
+    return preferences as UserPreferences;
+  }
+
+  /**
+   * Evaluate recipes against preferences, keyed by recipe id.
+   * Recipes that no longer exist are left out of the result.
+   */
+  async evaluateRecipes(
+    recipeIds: string[],
+    preferences: RecipePreferences
+  ): Promise<Map<string, PreferenceEvaluation>> {
+    const uniqueIds = Array.from(new Set(recipeIds));
+    const evaluations = new Map<string, PreferenceEvaluation>();
+
+    // Chunked to stay within URL and PostgREST row limits
+    for (let offset = 0; offset < uniqueIds.length; offset += RECIPE_QUERY_CHUNK) {
+      const chunk = uniqueIds.slice(offset, offset + RECIPE_QUERY_CHUNK);
+
+      const [{ data: recipes, error: recipesError }, { data: ingredients, error: ingredientsError }] =
+        await Promise.all([
+          supabaseAdmin
+            .from('recipes')
+            .select('id, cuisine, dietary_labels, prep_time_minutes, cook_time_minutes')
+            .in('id', chunk),
+          supabaseAdmin
+            .from('recipe_ingredients')
+            .select('recipe_id, raw_text, ingredient_name')
+            .in('recipe_id', chunk),
+        ]);
+
+      if (recipesError) {
+        throw new BadRequestError('Failed to fetch recipes');
+      }
+      if (ingredientsError) {
+        throw new BadRequestError('Failed to fetch recipe ingredients');
+      }
+
+      const namesByRecipeId = new Map<string, string[]>();
+      for (const row of ingredients ?? []) {
+        const name = row.ingredient_name ?? toIngredientColumns(row.raw_text).ingredient_name;
+        if (!name) continue;
+        const existing = namesByRecipeId.get(row.recipe_id) ?? [];
+        existing.push(name);
+        namesByRecipeId.set(row.recipe_id, existing);
+      }
+
+      for (const recipe of recipes ?? []) {
+        evaluations.set(
+          recipe.id,
+          evaluateRecipePreferences(
+            {
+              dietary_labels: recipe.dietary_labels,
+              cuisine: recipe.cuisine,
+              ingredient_names: namesByRecipeId.get(recipe.id) ?? [],
+              total_time_minutes: recipe.prep_time_minutes || recipe.cook_time_minutes
+                ? (recipe.prep_time_minutes ?? 0) + (recipe.cook_time_minutes ?? 0)
+                : null,
+            },
+            preferences
+          )
+        );
+      }
+    }
+
+    return evaluations;
+  }
+}
+
+export const preferencesService = new PreferencesService();
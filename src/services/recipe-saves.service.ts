@@ -4,7 +4,14 @@ import { BadRequestError, ConflictError, NotFoundError } from '../utils/errors.j
 import { logger } from '../utils/logger.js';
 import { dbToEnvelope, type RecipeEnvelopeData } from '../schemas/envelope.js';
 import { withRecipeOwnership, type RecipePayload } from '../utils/recipe-payload.js';
-import type { RecipeIngredient, RecipeStep, RecipeMedia } from '../types/index.js';
+import { takePage, toPagination, type CursorPosition } from '../utils/cursor.js';
+import type {
+  CursorPagination,
+  PagePagination,
+  RecipeIngredient,
+  RecipeStep,
+  RecipeMedia,
+} from '../types/index.js';
 
 export type RecipeSaveSource =
   | { source_type: 'daily_plan_item'; source_id: string }
@@ -31,14 +38,11 @@ export type RecipeSaveListItem = {
 
 export interface PaginatedRecipeSaves {
   recipe_saves: RecipeSaveListItem[];
-  pagination: {
-    page: number;
-    limit: number;
-    total: number;
-    totalPages: number;
-  };
+  pagination: PagePagination | CursorPagination;
 }
 
+const UNIQUE_VIOLATION = '23505';
+
 const getExistingSaveBySource = async (
   userId: string,
   sourceRecipeId: string
@@ -48,6 +52,7 @@ const getExistingSaveBySource = async (
     .select('id, recipe_id')
     .eq('user_id', userId)
     .eq('source_recipe_id', sourceRecipeId)
+    .is('deleted_at', null)
     .maybeSingle();
 
   if (error) {
@@ -57,6 +62,25 @@ const getExistingSaveBySource = async (
   return data ?? null;
 };
 
+// The total rides on the page rows, so a page past the end has none; the
+// first row of the list still carries it
+const countRecipeSaves = async (userId: string): Promise<number> => {
+  const { data, error } = await supabaseAdmin.rpc('list_recipe_saves', {
+    p_user_id: userId,
+    p_after_saved_at: null,
+    p_after_id: null,
+    p_limit: 1,
+    p_offset: 0,
+    p_with_total: true,
+  });
+
+  if (error) {
+    throw new BadRequestError('Failed to fetch recipe saves');
+  }
+
+  return Number(data?.[0]?.total_count ?? 0);
+};
+
 export class RecipeSavesService {
   async createRecipeSave(userId: string, input: RecipeSaveSource): Promise<RecipeSaveResult> {
     let sourceRecipeId: string;
@@ -81,6 +105,7 @@ export class RecipeSavesService {
         .select('id, recipe_id')
         .eq('user_id', userId)
         .eq('daily_plan_item_id', planItem.id)
+        .is('deleted_at', null)
         .maybeSingle();
 
       if (itemLookupError) {
@@ -143,6 +168,10 @@ export class RecipeSavesService {
 
     if (saveError || !save) {
       await recipeService.deleteRecipe(copiedRecipe.id, userId);
+      // A concurrent save of the same recipe or suggestion won
+      if (saveError?.code === UNIQUE_VIOLATION) {
+        throw new ConflictError('Recipe already saved');
+      }
       throw new BadRequestError('Failed to save recipe');
     }
 
@@ -167,87 +196,60 @@ export class RecipeSavesService {
       .select('id, recipe_id')
       .eq('id', saveId)
       .eq('user_id', userId)
+      .is('deleted_at', null)
       .single();
 
     if (fetchError || !save) {
       throw new NotFoundError('Recipe save');
     }
 
-    const { error: deleteError } = await supabaseAdmin
-      .from('recipe_saves')
-      .delete()
-      .eq('id', save.id)
-      .eq('user_id', userId);
-
-    if (deleteError) {
-      throw new BadRequestError('Failed to delete recipe save');
-    }
-
+    // The save goes to the trash with its copy, so restoring the recipe undoes the unsave
     const deleted = await recipeService.deleteRecipe(save.recipe_id, userId);
     if (!deleted) {
       logger.warn({ saveId, recipeId: save.recipe_id, userId }, 'Failed to delete saved recipe');
+      throw new BadRequestError('Failed to delete recipe save');
     }
   }
 
-  async listRecipeSaves(userId: string, page: number, limit: number): Promise<PaginatedRecipeSaves> {
-    const offset = (page - 1) * limit;
-
-    const { data: saves, error } = await supabaseAdmin
-      .from('recipe_saves')
-      .select('id, recipe_id, source_recipe_id, daily_plan_item_id, created_at')
-      .eq('user_id', userId);
+  /**
+   * The user's saves merged with the recipes they own, newest first. A cursor
+   * (the previous page's next_cursor) takes precedence over `page` and skips
+   * the total count.
+   */
+  async listRecipeSaves(
+    userId: string,
+    page: number,
+    limit: number,
+    cursor?: CursorPosition
+  ): Promise<PaginatedRecipeSaves> {
+    // One row past the page tells whether another follows
+    const { data: rows, error } = await supabaseAdmin.rpc('list_recipe_saves', {
+      p_user_id: userId,
+      p_after_saved_at: cursor?.created_at ?? null,
+      p_after_id: cursor?.id ?? null,
+      p_limit: limit + 1,
+      p_offset: cursor ? 0 : (page - 1) * limit,
+      p_with_total: !cursor,
+    });
 
     if (error) {
       throw new BadRequestError('Failed to fetch recipe saves');
     }
 
-    const saveItems = (saves ?? []).map((save) => ({
-      kind: 'save' as const,
-      save_id: save.id as string,
-      recipe_id: save.recipe_id as string,
-      source_recipe_id: save.source_recipe_id as string | null,
-      daily_plan_item_id: save.daily_plan_item_id as string | null,
-      saved_at: save.created_at as string,
+    const { rows: pageItems, nextCursor } = takePage(rows ?? [], limit, (item) => ({
+      created_at: item.saved_at,
+      id: item.item_id,
     }));
-
-    const savedRecipeIds = new Set(saveItems.map((save) => save.recipe_id));
-    const { data: ownedRecipes, error: ownedError } = await supabaseAdmin
-      .from('recipes')
-      .select('id, created_at')
-      .eq('user_id', userId)
-      .is('deleted_at', null);
-
-    if (ownedError) {
-      throw new BadRequestError('Failed to fetch recipes');
+    let total = Number(pageItems[0]?.total_count ?? 0);
+    if (!cursor && pageItems.length === 0 && page > 1) {
+      total = await countRecipeSaves(userId);
     }
-
-    const ownedItems = (ownedRecipes ?? [])
-      .filter((recipe) => !savedRecipeIds.has(recipe.id))
-      .map((recipe) => ({
-        kind: 'owned' as const,
-        recipe_id: recipe.id as string,
-        saved_at: recipe.created_at as string,
-        source_recipe_id: null,
-        daily_plan_item_id: null,
-      }));
-
-    const combinedItems = [...saveItems, ...ownedItems].sort(
-      (a, b) => new Date(b.saved_at).getTime() - new Date(a.saved_at).getTime()
-    );
-
-    const total = combinedItems.length;
-    const totalPages = Math.ceil(total / limit);
-    const pageItems = combinedItems.slice(offset, offset + limit);
+    const pagination = toPagination(limit, nextCursor, cursor ? undefined : { page, total });
 
     if (pageItems.length === 0) {
       return {
         recipe_saves: [],
-        pagination: {
-          page,
-          limit,
-          total,
-          totalPages,
-        },
+        pagination,
       };
     }
 
@@ -324,23 +326,18 @@ export class RecipeSavesService {
         continue;
       }
       recipeSaves.push({
-        id: item.kind === 'save' ? item.save_id : item.recipe_id,
+        id: item.item_id,
         saved_at: item.saved_at,
         source_recipe_id: item.source_recipe_id,
         daily_plan_item_id: item.daily_plan_item_id,
         recipe_data: withRecipeOwnership(recipeData, { isUserOwned: true }),
-        is_saved: item.kind === 'save',
+        is_saved: item.is_saved,
       });
     }
 
     return {
       recipe_saves: recipeSaves,
-      pagination: {
-        page,
-        limit,
-        total,
-        totalPages,
-      },
+      pagination,
     };
   }
 }
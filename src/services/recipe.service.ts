@@ -1,10 +1,12 @@
+import { randomUUID } from 'crypto';
 import { supabaseAdmin } from '../config/supabase.js';
 import { logger } from '../utils/logger.js';
+import { AppError, BadRequestError, NotFoundError, PreconditionFailedError } from '../utils/errors.js';
 import { normalizeDietaryLabels } from '../utils/dietary-labels.js';
 import { normalizeCuisine } from '../utils/cuisines.js';
 import { normalizeRecipeTags } from '../utils/recipe-tags.js';
 import {
-  recipeEnvelopeSchema,
+  parseRecipeEnvelope,
   legacyCreateRecipeSchema,
   legacyToEnvelope,
   envelopeToDbRecipe,
@@ -15,8 +17,106 @@ import {
   type RecipeEnvelope,
   type LegacyCreateRecipe,
 } from '../schemas/envelope.js';
-import type { Recipe, RecipeIngredient, RecipeStep, RecipeMedia, RecipeListItem } from '../types/index.js';
+import type {
+  Database,
+  Json,
+  Recipe,
+  RecipeIngredient,
+  RecipeStep,
+  RecipeMedia,
+  RecipeListItem,
+  RecipeRevision,
+  CursorPagination,
+  PagePagination,
+} from '../types/index.js';
 import { withRecipeOwnership } from '../utils/recipe-payload.js';
+import { toIngredientColumns } from '../utils/ingredient-parser.js';
+import { computeRecipeNutrition } from '../utils/nutrition.js';
+import { reconcileDietaryLabels } from '../utils/dietary-inference.js';
+import { diffRecipes, type RecipeDiff } from '../utils/recipe-diff.js';
+import { afterCursorFilter, takePage, toPagination, type CursorPosition } from '../utils/cursor.js';
+
+type RecipeRow = Database['public']['Tables']['recipes']['Row'];
+type RecipeUpdate = Omit<Database['public']['Tables']['recipes']['Update'], 'search_vector'>;
+
+// Postgres error codes raised by the recipe write functions
+const NO_DATA_FOUND = 'P0002';
+const PRECONDITION_FAILED = 'PT412';
+const DATA_EXCEPTION_CLASS = '22';
+const INTEGRITY_VIOLATION_CLASS = '23';
+
+/**
+ * AppError for a failed create_recipe / update_recipe call; nothing was
+ * written when one of these is thrown
+ */
+const toRecipeWriteError = (
+  action: 'create' | 'update' | 'copy',
+  error: { code: string; message: string } | null
+): AppError => {
+  if (error?.code === NO_DATA_FOUND) {
+    return new NotFoundError('Recipe');
+  }
+  if (error?.code === PRECONDITION_FAILED) {
+    return new PreconditionFailedError('Recipe has changed');
+  }
+  if (error?.code.startsWith(DATA_EXCEPTION_CLASS) || error?.code.startsWith(INTEGRITY_VIOLATION_CLASS)) {
+    return new BadRequestError(`Invalid recipe data: ${error.message}`);
+  }
+  return new AppError(`Failed to ${action} recipe: ${error?.message ?? 'no recipe returned'}`, 500, 'RECIPE_WRITE_FAILED');
+};
+
+// Revision row without the stored envelope
+export type RecipeRevisionSummary = Omit<RecipeRevision, 'envelope'> & { title: string };
+
+// Recipes loaded per round trip when exporting a whole library; kept small so
+// their ingredient rows stay under the PostgREST max-rows cap
+const EXPORT_PAGE_SIZE = 25;
+
+export interface UpdateRecipeOptions {
+  // Set when the update restores this revision
+  restoredFrom?: number;
+  // updated_at the client last saw (from If-Match)
+  expectedUpdatedAt?: string;
+  // Rebase onto newer changes instead of failing, when the fields differ
+  merge?: boolean;
+}
+
+export interface RecipeWriteResult {
+  recipe: Recipe;
+  // Dietary labels removed because an ingredient rules them out
+  warnings: string[];
+}
+
+export interface PaginatedRevisions {
+  revisions: RecipeRevisionSummary[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+// Stored envelopes keep the version they were written in
+const readRevisionEnvelope = (envelope: Json): RecipeEnvelope => {
+  try {
+    return parseRecipeEnvelope(envelope);
+  } catch {
+    // Recipes saved before validation (e.g. without steps) fail the schema
+    return envelope as unknown as RecipeEnvelope;
+  }
+};
+
+const toRevisionSummary = (revision: RecipeRevision): RecipeRevisionSummary => {
+  const summary: Partial<RecipeRevision> = { ...revision };
+  delete summary.envelope;
+  return { ...summary, title: readRevisionEnvelope(revision.envelope).recipe.title } as RecipeRevisionSummary;
+};
+
+export interface CursorPaginatedRecipes {
+  recipes: RecipeListItem[];
+  pagination: PagePagination | CursorPagination;
+}
 
 export interface PaginatedRecipes {
   recipes: RecipeListItem[];
@@ -30,100 +130,141 @@ export interface PaginatedRecipes {
 
 export class RecipeService {
   /**
-   * Get paginated list of user's recipes
+   * Get paginated list of user's recipes, newest first. With a cursor the
+   * page starts after it and no total is counted.
    */
   async getUserRecipes(
     userId: string,
     page: number = 1,
     limit: number = 20,
-    search?: string
-  ): Promise<PaginatedRecipes> {
+    search?: string,
+    cursor?: CursorPosition
+  ): Promise<CursorPaginatedRecipes> {
     const offset = (page - 1) * limit;
 
     let query = supabaseAdmin
       .from('recipes')
-      .select('*', { count: 'exact' })
+      .select('*', cursor ? {} : { count: 'exact' })
       .eq('user_id', userId)
       .is('deleted_at', null)
       .order('created_at', { ascending: false })
-      .range(offset, offset + limit - 1);
+      .order('id', { ascending: false });
 
     if (search) {
       query = query.ilike('title', `%${search}%`);
     }
 
-    const { data: recipes, error, count } = await query;
+    // One row past the page tells whether another follows
+    const { data: recipes, error, count } = await (cursor
+      ? query.or(afterCursorFilter(cursor)).limit(limit + 1)
+      : query.range(offset, offset + limit));
 
     if (error) {
       throw new Error(`Failed to fetch recipes: ${error.message}`);
     }
 
-    if (!recipes || recipes.length === 0) {
+    const { rows, nextCursor } = takePage(recipes ?? [], limit, (recipe) => recipe);
+    const pagination = toPagination(limit, nextCursor, cursor ? undefined : { page, total: count ?? 0 });
+
+    if (rows.length === 0) {
+      return { recipes: [], pagination };
+    }
+
+    const recipesWithMedia = await this.buildListItems(rows, userId);
+
+    return {
+      recipes: recipesWithMedia,
+      pagination,
+    };
+  }
+
+  /**
+   * Ranked full-text search over the user's recipes and the global feed.
+   * Anonymous callers (userId null) only search the feed.
+   */
+  async searchRecipes(
+    query: string,
+    userId: string | null,
+    page: number = 1,
+    limit: number = 20
+  ): Promise<PaginatedRecipes> {
+    const offset = (page - 1) * limit;
+
+    const { data: matches, error } = await supabaseAdmin.rpc('search_recipes', {
+      p_query: query,
+      p_user_id: userId,
+      p_include_feed: true,
+      p_limit: limit,
+      p_offset: offset,
+    });
+
+    if (error) {
+      throw new Error(`Failed to search recipes: ${error.message}`);
+    }
+
+    let total = Number(matches?.[0]?.total_count ?? 0);
+    if (!matches || matches.length === 0) {
+      // The total rides on the page rows, so a page past the end has none
+      if (page > 1) {
+        total = await this.countSearchMatches(query, userId);
+      }
       return {
         recipes: [],
-        pagination: { page, limit, total: 0, totalPages: 0 },
+        pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
       };
     }
 
-    // Get media for all recipes
-    const recipeIds = recipes.map((r) => r.id);
-    const { data: media } = await supabaseAdmin
-      .from('recipe_media')
-      .select('recipe_id, media_type, url, name')
-      .in('recipe_id', recipeIds)
-      .order('position');
+    const matchIds = matches.map((match) => match.id);
+    const { data: recipes, error: recipesError } = await supabaseAdmin
+      .from('recipes')
+      .select('*')
+      .in('id', matchIds);
 
-    // Map media to recipes
-    const mediaByRecipeId = new Map<string, RecipeMedia[]>();
-    if (media) {
-      for (const m of media) {
-        const existing = mediaByRecipeId.get(m.recipe_id) || [];
-        existing.push(m as RecipeMedia);
-        mediaByRecipeId.set(m.recipe_id, existing);
-      }
+    if (recipesError) {
+      throw new Error(`Failed to fetch recipes: ${recipesError.message}`);
     }
 
-    const recipesWithMedia: RecipeListItem[] = recipes.map((r) => {
-      const baseItem = {
-        id: r.id,
-        title: r.title,
-        description: r.description,
-        calories: r.calories,
-        prep_time_minutes: r.prep_time_minutes,
-        cook_time_minutes: r.cook_time_minutes,
-        servings: r.servings,
-        tags: normalizeRecipeTags(r.tags ?? []),
-        cuisine: normalizeCuisine(r.cuisine),
-        source_type: r.source_type as 'manual' | 'url' | 'image' | 'ai',
-        created_at: r.created_at,
-        media: (mediaByRecipeId.get(r.id) || []).map((m) => ({
-          media_type: m.media_type as 'image' | 'video',
-          url: m.url,
-          name: m.name,
-        })),
-      };
-
-      return withRecipeOwnership(baseItem, { isUserOwned: true });
-    });
+    // Keep rank order from the search function
+    const rankedRecipes = (recipes ?? []).sort(
+      (a, b) => matchIds.indexOf(a.id) - matchIds.indexOf(b.id)
+    );
 
     return {
-      recipes: recipesWithMedia,
+      recipes: await this.buildListItems(rankedRecipes, userId),
       pagination: {
         page,
         limit,
-        total: count ?? 0,
-        totalPages: Math.ceil((count ?? 0) / limit),
+        total,
+        totalPages: Math.ceil(total / limit),
       },
     };
   }
 
+  /**
+   * Number of search matches, for a page past the end that carries no total
+   */
+  private async countSearchMatches(query: string, userId: string | null): Promise<number> {
+    const { data: matches, error } = await supabaseAdmin.rpc('search_recipes', {
+      p_query: query,
+      p_user_id: userId,
+      p_include_feed: true,
+      p_limit: 1,
+      p_offset: 0,
+    });
+
+    if (error) {
+      throw new Error(`Failed to search recipes: ${error.message}`);
+    }
+    return Number(matches?.[0]?.total_count ?? 0);
+  }
+
   /**
    * Get a single recipe by ID with full details
    */
   async getRecipeById(
     recipeId: string,
     userId: string
-  ): Promise<{ envelope: RecipeEnvelope; isUserOwned: boolean } | null> {
+  ): Promise<{ envelope: RecipeEnvelope; isUserOwned: boolean; updatedAt: string } | null> {
     const { data: recipe, error } = await supabaseAdmin
       .from('recipes')
       .select('*')
@@ -172,6 +313,7 @@ export class RecipeService {
         (media ?? []) as RecipeMedia[]
       ),
       isUserOwned,
+      updatedAt: recipe.updated_at,
     };
   }
 
@@ -181,84 +323,63 @@ export class RecipeService {
   async createRecipe(
     input: RecipeEnvelope | LegacyCreateRecipe,
     userId: string
-  ): Promise<Recipe> {
-    // Normalize to envelope format
+  ): Promise<RecipeWriteResult> {
+    // Normalize to the current envelope version
     let envelope: RecipeEnvelope;
-    if ('format' in input && input.format === 'whatEat-recipe') {
-      envelope = recipeEnvelopeSchema.parse(input);
+    if ('format' in input) {
+      envelope = parseRecipeEnvelope(input);
     } else {
       const legacy = legacyCreateRecipeSchema.parse(input);
       envelope = legacyToEnvelope(legacy);
     }
 
-    // Insert recipe
-    const recipeData = envelopeToDbRecipe(envelope, userId);
-    const { data: recipe, error: recipeError } = await supabaseAdmin
-      .from('recipes')
-      .insert(recipeData)
-      .select()
-      .single();
-
-    if (recipeError || !recipe) {
-      throw new Error(`Failed to create recipe: ${recipeError?.message}`);
-    }
-
-    // Insert ingredients
-    if (envelope.recipe.ingredients.length > 0) {
-      const ingredientsData = envelopeToDbIngredients(envelope, recipe.id);
-      const { error: ingError } = await supabaseAdmin
-        .from('recipe_ingredients')
-        .insert(ingredientsData);
-
-      if (ingError) {
-        // Cleanup on failure
-        await supabaseAdmin.from('recipes').delete().eq('id', recipe.id);
-        throw new Error(`Failed to create ingredients: ${ingError.message}`);
-      }
-    }
+    const dietary = reconcileDietaryLabels(envelope.recipe.dietary_labels, envelope.recipe.ingredients);
+    envelope.recipe.dietary_labels = dietary.dietary_labels;
 
-    // Insert steps
-    if (envelope.recipe.steps.length > 0) {
-      const stepsData = envelopeToDbSteps(envelope, recipe.id);
-      const { error: stepsError } = await supabaseAdmin
-        .from('recipe_steps')
-        .insert(stepsData);
+    const recipe = await this.insertEnvelope(envelope, userId);
 
-      if (stepsError) {
-        await supabaseAdmin.from('recipes').delete().eq('id', recipe.id);
-        throw new Error(`Failed to create steps: ${stepsError.message}`);
-      }
-    }
+    logger.info({ recipeId: recipe.id, userId }, 'Created recipe');
+    return { recipe, warnings: dietary.warnings };
+  }
 
-    // Insert media
-    if (envelope.recipe.media.length > 0) {
-      const mediaData = envelopeToDbMedia(envelope, recipe.id);
-      const { error: mediaError } = await supabaseAdmin
-        .from('recipe_media')
-        .insert(mediaData);
+  /**
+   * Insert an envelope as a new recipe with its ingredients, steps and media,
+   * all or nothing (userId null = global feed recipe)
+   */
+  async insertEnvelope(envelope: RecipeEnvelope, userId: string | null): Promise<Recipe> {
+    const recipeId = randomUUID();
+    const { data: recipe, error } = await supabaseAdmin.rpc('create_recipe', {
+      p_recipe: { id: recipeId, ...envelopeToDbRecipe(envelope, userId) },
+      p_ingredients: envelopeToDbIngredients(envelope, recipeId),
+      p_steps: envelopeToDbSteps(envelope, recipeId),
+      p_media: envelopeToDbMedia(envelope, recipeId),
+    });
 
-      if (mediaError) {
-        await supabaseAdmin.from('recipes').delete().eq('id', recipe.id);
-        throw new Error(`Failed to create media: ${mediaError.message}`);
-      }
+    if (error || !recipe) {
+      throw toRecipeWriteError('create', error);
     }
-
-    logger.info({ recipeId: recipe.id, userId }, 'Created recipe');
     return recipe as Recipe;
   }
 
   /**
-   * Update an existing recipe
+   * Update an existing recipe. The RPC records the result as a new revision
+   * in the same transaction; a recipe's first update also records how it was
+   * before.
+   *
+   * With `expectedUpdatedAt` (from If-Match) nothing is written when the
+   * recipe has changed since; with `merge` as well, the edit is rebased onto
+   * the current recipe unless the same fields were changed in between.
    */
   async updateRecipe(
     recipeId: string,
     userId: string,
-    input: Partial<RecipeEnvelope['recipe']>
-  ): Promise<Recipe> {
+    input: Partial<RecipeEnvelope['recipe']>,
+    options: UpdateRecipeOptions = {}
+  ): Promise<RecipeWriteResult> {
     // Verify ownership
     const { data: existing } = await supabaseAdmin
       .from('recipes')
-      .select('id')
+      .select('id, servings, dietary_labels, updated_at')
       .eq('id', recipeId)
       .eq('user_id', userId)
       .is('deleted_at', null)
@@ -268,10 +389,15 @@ export class RecipeService {
       throw new Error('Recipe not found');
     }
 
+    let expectedUpdatedAt = options.expectedUpdatedAt;
+    if (options.merge && expectedUpdatedAt !== undefined && expectedUpdatedAt !== existing.updated_at) {
+      const merged = await this.mergeConcurrentEdit(recipeId, userId, input, expectedUpdatedAt);
+      input = merged.input;
+      expectedUpdatedAt = merged.updatedAt;
+    }
+
     // Update recipe fields
-    const updateData: Record<string, unknown> = {
-      updated_at: new Date().toISOString(),
-    };
+    const updateData: RecipeUpdate = {};
 
     if (input.title !== undefined) updateData.title = input.title;
     if (input.description !== undefined) updateData.description = input.description;
@@ -281,86 +407,295 @@ export class RecipeService {
     if (input.cook_time_minutes !== undefined) updateData.cook_time_minutes = input.cook_time_minutes;
     if (input.tags !== undefined) updateData.tags = normalizeRecipeTags(input.tags);
     if (input.cuisine !== undefined) updateData.cuisine = normalizeCuisine(input.cuisine);
-    if (input.dietary_labels !== undefined) {
-      updateData.dietary_labels = normalizeDietaryLabels(input.dietary_labels);
+    if (input.metadata !== undefined) updateData.metadata = input.metadata as Json;
+
+    // Nutrition depends on ingredients and servings, dietary labels on
+    // ingredients; whatever is not being changed comes from the stored recipe
+    let warnings: string[] = [];
+    if (input.ingredients !== undefined || input.servings !== undefined || input.dietary_labels !== undefined) {
+      const ingredients = input.ingredients ?? await this.getIngredientLines(recipeId);
+
+      if (input.ingredients !== undefined || input.servings !== undefined) {
+        updateData.nutrition = computeRecipeNutrition(
+          ingredients,
+          input.servings !== undefined ? input.servings : existing.servings
+        ) as Json | null;
+      }
+      if (input.ingredients !== undefined || input.dietary_labels !== undefined) {
+        const dietary = reconcileDietaryLabels(input.dietary_labels ?? existing.dietary_labels, ingredients);
+        updateData.dietary_labels = dietary.dietary_labels;
+        warnings = dietary.warnings;
+      }
     }
-    if (input.metadata !== undefined) updateData.metadata = input.metadata;
 
-    const { data: recipe, error: recipeError } = await supabaseAdmin
-      .from('recipes')
-      .update(updateData)
-      .eq('id', recipeId)
-      .select()
-      .single();
+    // Fields and the provided lists are replaced in one transaction
+    const { data: recipe, error } = await supabaseAdmin.rpc('update_recipe', {
+      p_recipe_id: recipeId,
+      p_user_id: userId,
+      p_changes: updateData,
+      p_ingredients: input.ingredients?.map((ing, index) => ({
+        recipe_id: recipeId,
+        position: index + 1,
+        raw_text: ing.raw_text,
+        ...toIngredientColumns(ing.raw_text),
+        section: ing.section ?? null,
+      })) ?? null,
+      p_steps: input.steps?.map((step, index) => ({
+        recipe_id: recipeId,
+        position: index + 1,
+        instruction: step.instruction,
+        section: step.section ?? null,
+      })) ?? null,
+      p_media: input.media?.map((m, index) => ({
+        recipe_id: recipeId,
+        position: index + 1,
+        media_type: m.media_type,
+        url: m.url,
+        name: m.name ?? null,
+        is_generated: m.is_generated,
+      })) ?? null,
+      p_expected_updated_at: expectedUpdatedAt ?? null,
+      p_restored_from: options.restoredFrom ?? null,
+    });
 
-    if (recipeError) {
-      throw new Error(`Failed to update recipe: ${recipeError.message}`);
+    if (error || !recipe) {
+      throw toRecipeWriteError('update', error);
     }
 
-    // Update ingredients if provided
-    if (input.ingredients !== undefined) {
-      await supabaseAdmin.from('recipe_ingredients').delete().eq('recipe_id', recipeId);
+    logger.info({ recipeId, userId }, 'Updated recipe');
+    return { recipe: recipe as Recipe, warnings };
+  }
 
-      if (input.ingredients.length > 0) {
-        const ingredientsData = input.ingredients.map((ing, index) => ({
-          recipe_id: recipeId,
-          position: index + 1,
-          raw_text: ing.raw_text,
-        }));
-        await supabaseAdmin.from('recipe_ingredients').insert(ingredientsData);
-      }
+  /**
+   * Rebase an edit made against an older version of the recipe onto the
+   * current one, keeping only the fields the edit changed. Fails when one of
+   * them has since been changed to something else, or when the older version
+   * is not among the recipe's revisions.
+   */
+  private async mergeConcurrentEdit(
+    recipeId: string,
+    userId: string,
+    input: Partial<RecipeEnvelope['recipe']>,
+    baseUpdatedAt: string
+  ): Promise<{ input: Partial<RecipeEnvelope['recipe']>; updatedAt: string }> {
+    const [{ data: base, error }, current] = await Promise.all([
+      supabaseAdmin
+        .from('recipe_revisions')
+        .select('envelope')
+        .eq('recipe_id', recipeId)
+        .eq('recipe_updated_at', baseUpdatedAt)
+        .order('revision', { ascending: false })
+        .limit(1)
+        .maybeSingle(),
+      this.getRecipeById(recipeId, userId),
+    ]);
+
+    if (error) {
+      throw new Error(`Failed to fetch revisions: ${error.message}`);
+    }
+    if (!current) {
+      throw new Error('Recipe not found');
+    }
+    if (!base) {
+      throw new PreconditionFailedError('Recipe has changed and the edited version cannot be merged');
     }
 
-    // Update steps if provided
-    if (input.steps !== undefined) {
-      await supabaseAdmin.from('recipe_steps').delete().eq('recipe_id', recipeId);
+    const baseRecipe = readRevisionEnvelope(base.envelope).recipe;
+    const edited = { ...baseRecipe, ...input };
+    const editedFields = diffRecipes(baseRecipe, edited).changed_fields;
+    const changedSince = diffRecipes(baseRecipe, current.envelope.recipe).changed_fields;
+    const differing = diffRecipes(current.envelope.recipe, edited).changed_fields;
 
-      if (input.steps.length > 0) {
-        const stepsData = input.steps.map((step, index) => ({
-          recipe_id: recipeId,
-          position: index + 1,
-          instruction: step.instruction,
-        }));
-        await supabaseAdmin.from('recipe_steps').insert(stepsData);
-      }
+    const conflicts = editedFields.filter((field) => changedSince.includes(field) && differing.includes(field));
+    if (conflicts.length > 0) {
+      throw new PreconditionFailedError('Recipe has conflicting changes', { conflicts });
+    }
+
+    return {
+      input: Object.fromEntries(Object.entries(input).filter(([field]) => editedFields.includes(field))),
+      updatedAt: current.updatedAt,
+    };
+  }
+
+  /**
+   * Stored ingredient lines of a recipe, in order
+   */
+  private async getIngredientLines(recipeId: string): Promise<Array<{ raw_text: string }>> {
+    const { data, error } = await supabaseAdmin
+      .from('recipe_ingredients')
+      .select('raw_text')
+      .eq('recipe_id', recipeId)
+      .order('position');
+
+    if (error) {
+      throw new Error(`Failed to fetch ingredients: ${error.message}`);
     }
+    return data ?? [];
+  }
 
-    // Update media if provided
-    if (input.media !== undefined) {
-      await supabaseAdmin.from('recipe_media').delete().eq('recipe_id', recipeId);
+  /**
+   * Revisions of an owned recipe, newest first. A recipe that has never been
+   * updated has none.
+   */
+  async listRevisions(
+    recipeId: string,
+    userId: string,
+    page: number = 1,
+    limit: number = 20
+  ): Promise<PaginatedRevisions> {
+    await this.assertOwnedRecipe(recipeId, userId);
+    const offset = (page - 1) * limit;
 
-      if (input.media.length > 0) {
-        const mediaData = input.media.map((m, index) => ({
-          recipe_id: recipeId,
-          position: index + 1,
-          media_type: m.media_type,
-          url: m.url,
-          name: m.name ?? null,
-          is_generated: m.is_generated,
-        }));
-        await supabaseAdmin.from('recipe_media').insert(mediaData);
-      }
+    const { data: revisions, error, count } = await supabaseAdmin
+      .from('recipe_revisions')
+      .select('*', { count: 'exact' })
+      .eq('recipe_id', recipeId)
+      .order('revision', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch revisions: ${error.message}`);
     }
 
-    logger.info({ recipeId, userId }, 'Updated recipe');
-    return recipe as Recipe;
+    return {
+      revisions: (revisions ?? []).map((revision) => toRevisionSummary(revision as RecipeRevision)),
+      pagination: {
+        page,
+        limit,
+        total: count ?? 0,
+        totalPages: Math.ceil((count ?? 0) / limit),
+      },
+    };
   }
 
   /**
-   * Delete a recipe (soft delete)
+   * One revision of an owned recipe, with the recipe as it was then
    */
-  async deleteRecipe(recipeId: string, userId: string): Promise<boolean> {
-    const { error } = await supabaseAdmin
+  async getRevision(
+    recipeId: string,
+    userId: string,
+    revision: number
+  ): Promise<{ revision: RecipeRevisionSummary; envelope: RecipeEnvelope }> {
+    await this.assertOwnedRecipe(recipeId, userId);
+
+    const { data, error } = await supabaseAdmin
+      .from('recipe_revisions')
+      .select('*')
+      .eq('recipe_id', recipeId)
+      .eq('revision', revision)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch revision: ${error.message}`);
+    }
+    if (!data) {
+      throw new Error('Revision not found');
+    }
+
+    return {
+      revision: toRevisionSummary(data as RecipeRevision),
+      envelope: readRevisionEnvelope(data.envelope),
+    };
+  }
+
+  /**
+   * Changes from one revision to another (`to` defaults to the latest)
+   */
+  async diffRevisions(
+    recipeId: string,
+    userId: string,
+    from: number,
+    to?: number
+  ): Promise<RecipeDiff & { from: number; to: number }> {
+    const target = to ?? (await this.getLatestRevision(recipeId))?.revision;
+    if (target === undefined) {
+      throw new Error('Revision not found');
+    }
+
+    const [before, after] = await Promise.all([
+      this.getRevision(recipeId, userId, from),
+      this.getRevision(recipeId, userId, target),
+    ]);
+
+    return { from, to: target, ...diffRecipes(before.envelope.recipe, after.envelope.recipe) };
+  }
+
+  /**
+   * Put an owned recipe back the way it was at a revision. The restore is
+   * itself a new revision, so it can be undone.
+   */
+  async restoreRevision(recipeId: string, userId: string, revision: number): Promise<RecipeWriteResult> {
+    const { envelope } = await this.getRevision(recipeId, userId, revision);
+    const recipe = envelope.recipe;
+
+    return this.updateRecipe(
+      recipeId,
+      userId,
+      {
+        title: recipe.title,
+        description: recipe.description ?? null,
+        servings: recipe.servings ?? null,
+        calories: recipe.calories ?? null,
+        prep_time_minutes: recipe.prep_time_minutes ?? null,
+        cook_time_minutes: recipe.cook_time_minutes ?? null,
+        tags: recipe.tags,
+        cuisine: recipe.cuisine ?? null,
+        dietary_labels: recipe.dietary_labels,
+        metadata: recipe.metadata,
+        ingredients: recipe.ingredients,
+        steps: recipe.steps,
+        media: recipe.media,
+      },
+      { restoredFrom: revision }
+    );
+  }
+
+  private async assertOwnedRecipe(recipeId: string, userId: string): Promise<void> {
+    const { data: recipe } = await supabaseAdmin
       .from('recipes')
-      .update({ deleted_at: new Date().toISOString() })
+      .select('id')
       .eq('id', recipeId)
       .eq('user_id', userId)
-      .is('deleted_at', null);
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (!recipe) {
+      throw new Error('Recipe not found');
+    }
+  }
+
+  private async getLatestRevision(recipeId: string): Promise<{ revision: number; envelope: Json } | null> {
+    const { data, error } = await supabaseAdmin
+      .from('recipe_revisions')
+      .select('revision, envelope')
+      .eq('recipe_id', recipeId)
+      .order('revision', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch revisions: ${error.message}`);
+    }
+    return data;
+  }
+
+  /**
+   * Delete a recipe (soft delete): it moves to the trash together with the
+   * user's save of it, until restored or purged
+   */
+  async deleteRecipe(recipeId: string, userId: string): Promise<boolean> {
+    const { data: trashed, error } = await supabaseAdmin.rpc('trash_recipe', {
+      p_recipe_id: recipeId,
+      p_user_id: userId,
+    });
 
     if (error) {
       logger.error({ error, recipeId, userId }, 'Failed to delete recipe');
       return false;
     }
+    if (!trashed) {
+      return false;
+    }
 
     logger.info({ recipeId, userId }, 'Deleted recipe');
     return true;
@@ -402,10 +737,11 @@ export class RecipeService {
       supabaseAdmin.from('recipe_media').select('*').eq('recipe_id', sourceRecipeId).order('position'),
     ]);
 
-    // Create new recipe
-    const { data: newRecipe, error: recipeError } = await supabaseAdmin
-      .from('recipes')
-      .insert({
+    // Create new recipe with its ingredients, steps and media in one transaction
+    const newRecipeId = randomUUID();
+    const { data: newRecipe, error } = await supabaseAdmin.rpc('create_recipe', {
+      p_recipe: {
+        id: newRecipeId,
         user_id: userId,
         title: source.title,
         description: source.description,
@@ -419,57 +755,162 @@ export class RecipeService {
         source_type: source.source_type,
         source_recipe_id: sourceRecipeId,
         metadata: source.metadata,
-      })
-      .select()
-      .single();
+        nutrition: source.nutrition,
+      },
+      p_ingredients: (ingredients ?? []).map((ing) => ({
+        recipe_id: newRecipeId,
+        position: ing.position,
+        raw_text: ing.raw_text,
+        ...toIngredientColumns(ing.raw_text),
+        section: ing.section,
+      })),
+      p_steps: (steps ?? []).map((step) => ({
+        recipe_id: newRecipeId,
+        position: step.position,
+        instruction: step.instruction,
+        section: step.section,
+      })),
+      p_media: (media ?? []).map((m) => ({
+        recipe_id: newRecipeId,
+        position: m.position,
+        media_type: m.media_type,
+        url: m.url,
+        storage_path: m.storage_path,
+        name: m.name,
+        is_generated: m.is_generated,
+      })),
+    });
 
-    if (recipeError || !newRecipe) {
-      throw new Error(`Failed to copy recipe: ${recipeError?.message}`);
-    }
-
-    // Copy ingredients
-    if (ingredients && ingredients.length > 0) {
-      await supabaseAdmin.from('recipe_ingredients').insert(
-        ingredients.map((ing) => ({
-          recipe_id: newRecipe.id,
-          position: ing.position,
-          raw_text: ing.raw_text,
-          quantity: ing.quantity,
-          unit: ing.unit,
-          ingredient_name: ing.ingredient_name,
-        }))
-      );
-    }
-
-    // Copy steps
-    if (steps && steps.length > 0) {
-      await supabaseAdmin.from('recipe_steps').insert(
-        steps.map((step) => ({
-          recipe_id: newRecipe.id,
-          position: step.position,
-          instruction: step.instruction,
-        }))
-      );
-    }
-
-    // Copy media
-    if (media && media.length > 0) {
-      await supabaseAdmin.from('recipe_media').insert(
-        media.map((m) => ({
-          recipe_id: newRecipe.id,
-          position: m.position,
-          media_type: m.media_type,
-          url: m.url,
-          storage_path: m.storage_path,
-          name: m.name,
-          is_generated: m.is_generated,
-        }))
-      );
+    if (error || !newRecipe) {
+      throw toRecipeWriteError('copy', error);
     }
 
     logger.info({ sourceRecipeId, newRecipeId: newRecipe.id, userId }, 'Copied recipe');
     return newRecipe as Recipe;
   }
+
+  /**
+   * Envelopes for every recipe the user owns, oldest first, one page of
+   * recipes at a time so exports stream instead of loading the library
+   */
+  async *iterateUserEnvelopes(userId: string): AsyncGenerator<RecipeEnvelope> {
+    for (let offset = 0; ; offset += EXPORT_PAGE_SIZE) {
+      const { data: recipes, error } = await supabaseAdmin
+        .from('recipes')
+        .select('*')
+        .eq('user_id', userId)
+        .is('deleted_at', null)
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(offset, offset + EXPORT_PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to fetch recipes: ${error.message}`);
+      }
+      if (!recipes || recipes.length === 0) {
+        return;
+      }
+
+      const recipeIds = recipes.map((recipe) => recipe.id);
+      const [
+        { data: ingredients, error: ingredientsError },
+        { data: steps, error: stepsError },
+        { data: media, error: mediaError },
+      ] = await Promise.all([
+        supabaseAdmin.from('recipe_ingredients').select('*').in('recipe_id', recipeIds).order('position'),
+        supabaseAdmin.from('recipe_steps').select('*').in('recipe_id', recipeIds).order('position'),
+        supabaseAdmin.from('recipe_media').select('*').in('recipe_id', recipeIds).order('position'),
+      ]);
+
+      const childError = ingredientsError ?? stepsError ?? mediaError;
+      if (childError) {
+        throw new Error(`Failed to fetch recipe details: ${childError.message}`);
+      }
+
+      const byRecipeId = <T extends { recipe_id: string }>(rows: T[] | null) => {
+        const grouped = new Map<string, T[]>();
+        for (const row of rows ?? []) {
+          const existing = grouped.get(row.recipe_id) ?? [];
+          existing.push(row);
+          grouped.set(row.recipe_id, existing);
+        }
+        return grouped;
+      };
+      const ingredientsByRecipe = byRecipeId(ingredients);
+      const stepsByRecipe = byRecipeId(steps);
+      const mediaByRecipe = byRecipeId(media);
+
+      for (const recipe of recipes) {
+        yield dbToEnvelope(
+          recipe as Recipe,
+          (ingredientsByRecipe.get(recipe.id) ?? []) as RecipeIngredient[],
+          (stepsByRecipe.get(recipe.id) ?? []) as RecipeStep[],
+          (mediaByRecipe.get(recipe.id) ?? []) as RecipeMedia[]
+        );
+      }
+
+      if (recipes.length < EXPORT_PAGE_SIZE) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Attach media and ownership to recipe rows for list views
+   */
+  async buildListItems(
+    recipes: RecipeRow[],
+    userId: string | null
+  ): Promise<RecipeListItem[]> {
+    if (recipes.length === 0) {
+      return [];
+    }
+
+    // Get media for all recipes
+    const recipeIds = recipes.map((r) => r.id);
+    const { data: media } = await supabaseAdmin
+      .from('recipe_media')
+      .select('recipe_id, media_type, url, name')
+      .in('recipe_id', recipeIds)
+      .order('position');
+
+    // Map media to recipes
+    const mediaByRecipeId = new Map<string, RecipeMedia[]>();
+    if (media) {
+      for (const m of media) {
+        const existing = mediaByRecipeId.get(m.recipe_id) || [];
+        existing.push(m as RecipeMedia);
+        mediaByRecipeId.set(m.recipe_id, existing);
+      }
+    }
+
+    const recipesWithMedia: RecipeListItem[] = recipes.map((r) => {
+      const baseItem = {
+        id: r.id,
+        title: r.title,
+        description: r.description,
+        calories: r.calories,
+        prep_time_minutes: r.prep_time_minutes,
+        cook_time_minutes: r.cook_time_minutes,
+        servings: r.servings,
+        tags: normalizeRecipeTags(r.tags ?? []),
+        cuisine: normalizeCuisine(r.cuisine),
+        source_type: r.source_type as 'manual' | 'url' | 'image' | 'ai',
+        created_at: r.created_at,
+        media: (mediaByRecipeId.get(r.id) || []).map((m) => ({
+          media_type: m.media_type as 'image' | 'video',
+          url: m.url,
+          name: m.name,
+        })),
+      };
+
+      return withRecipeOwnership(baseItem, {
+        isUserOwned: userId !== null && r.user_id === userId,
+      });
+    });
+
+    return recipesWithMedia;
+  }
 }
 
 export const recipeService = new RecipeService();
@@ -6,9 +6,9 @@ import type { RecipeShare, Recipe, RecipeIngredient, RecipeStep, RecipeMedia } f
 
 export class ShareService {
   /**
-   * Generate a URL-safe share token
+   * Generate a URL-safe share token (also used for collection shares)
    */
-  private generateToken(length: number = 12): string {
+  generateToken(length: number = 12): string {
     return crypto.randomBytes(length).toString('base64url').slice(0, length);
   }
 
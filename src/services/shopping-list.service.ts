@@ -0,0 +1,303 @@
+import { supabaseAdmin } from '../config/supabase.js';
+import { BadRequestError, NotFoundError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import { AISLE_CATEGORIES, type AisleCategory } from '../utils/aisles.js';
+import { aggregateShoppingList } from '../utils/shopping-list.js';
+import type { ShoppingList, ShoppingListItem } from '../types/index.js';
+
+export type CreateShoppingListInput = {
+  recipe_ids: string[];
+  name?: string;
+};
+
+export type ShoppingListSummary = ShoppingList & {
+  item_count: number;
+  checked_count: number;
+};
+
+export type ShoppingListDetail = ShoppingListSummary & {
+  aisles: Array<{
+    aisle: AisleCategory;
+    items: ShoppingListItem[];
+  }>;
+};
+
+export interface PaginatedShoppingLists {
+  shopping_lists: ShoppingListSummary[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+const DEFAULT_LIST_NAME = 'Shopping list';
+
+const toDetail = (list: ShoppingList, items: ShoppingListItem[]): ShoppingListDetail => {
+  const byAisle = new Map<AisleCategory, ShoppingListItem[]>();
+  for (const item of items) {
+    const aisle = (AISLE_CATEGORIES as readonly string[]).includes(item.aisle)
+      ? item.aisle as AisleCategory
+      : 'other';
+    const existing = byAisle.get(aisle) ?? [];
+    existing.push(item);
+    byAisle.set(aisle, existing);
+  }
+
+  return {
+    ...list,
+    item_count: items.length,
+    checked_count: items.filter((item) => item.is_checked).length,
+    aisles: AISLE_CATEGORIES
+      .filter((aisle) => byAisle.has(aisle))
+      .map((aisle) => ({ aisle, items: byAisle.get(aisle)! })),
+  };
+};
+
+export class ShoppingListService {
+  /**
+   * Build and persist a shopping list from owned, saved or feed recipes
+   */
+  async createShoppingList(userId: string, input: CreateShoppingListInput): Promise<ShoppingListDetail> {
+    const recipeIds = [...new Set(input.recipe_ids)];
+
+    const { data: recipes, error: recipeError } = await supabaseAdmin
+      .from('recipes')
+      .select('id, user_id')
+      .in('id', recipeIds)
+      .is('deleted_at', null);
+
+    if (recipeError) {
+      throw new BadRequestError('Failed to fetch recipes');
+    }
+
+    // Saved copies are owned rows; anything else must be a global feed recipe
+    const accessibleIds = new Set(
+      (recipes ?? [])
+        .filter((recipe) => recipe.user_id === userId || recipe.user_id === null)
+        .map((recipe) => recipe.id)
+    );
+    const missingIds = recipeIds.filter((id) => !accessibleIds.has(id));
+    if (missingIds.length > 0) {
+      throw new NotFoundError('Recipe');
+    }
+
+    const { data: ingredients, error: ingredientError } = await supabaseAdmin
+      .from('recipe_ingredients')
+      .select('recipe_id, raw_text, position')
+      .in('recipe_id', recipeIds)
+      .order('position');
+
+    if (ingredientError) {
+      throw new BadRequestError('Failed to fetch recipe ingredients');
+    }
+
+    // Keep the caller's recipe order so merged names come from the first recipe
+    const orderedIngredients = [...(ingredients ?? [])].sort(
+      (a, b) => recipeIds.indexOf(a.recipe_id) - recipeIds.indexOf(b.recipe_id) || a.position - b.position
+    );
+    const aggregated = aggregateShoppingList(orderedIngredients);
+
+    const { data: list, error: listError } = await supabaseAdmin
+      .from('shopping_lists')
+      .insert({
+        user_id: userId,
+        name: input.name?.trim() || DEFAULT_LIST_NAME,
+        recipe_ids: recipeIds,
+      })
+      .select('*')
+      .single();
+
+    if (listError || !list) {
+      throw new BadRequestError('Failed to create shopping list');
+    }
+
+    let items: ShoppingListItem[] = [];
+    if (aggregated.length > 0) {
+      const { data: insertedItems, error: itemsError } = await supabaseAdmin
+        .from('shopping_list_items')
+        .insert(
+          aggregated.map((item, index) => ({
+            list_id: list.id,
+            position: index,
+            ingredient_name: item.ingredient_name,
+            quantity: item.quantity,
+            unit: item.unit,
+            display_text: item.display_text,
+            aisle: item.aisle,
+            source_recipe_ids: item.source_recipe_ids,
+          }))
+        )
+        .select('*')
+        .order('position');
+
+      if (itemsError) {
+        await supabaseAdmin.from('shopping_lists').delete().eq('id', list.id);
+        throw new BadRequestError('Failed to create shopping list');
+      }
+
+      items = (insertedItems ?? []) as ShoppingListItem[];
+    }
+
+    logger.info({ userId, listId: list.id, recipeCount: recipeIds.length, itemCount: items.length }, 'Created shopping list');
+    return toDetail(list as ShoppingList, items);
+  }
+
+  /**
+   * List a user's shopping lists, newest first
+   */
+  async listShoppingLists(userId: string, page: number, limit: number): Promise<PaginatedShoppingLists> {
+    const offset = (page - 1) * limit;
+
+    const { data: lists, error, count } = await supabaseAdmin
+      .from('shopping_lists')
+      .select('*', { count: 'exact' })
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new BadRequestError('Failed to fetch shopping lists');
+    }
+
+    const total = count ?? 0;
+    const listIds = (lists ?? []).map((list) => list.id);
+    const countsByListId = new Map<string, { item_count: number; checked_count: number }>();
+
+    if (listIds.length > 0) {
+      const { data: items, error: itemsError } = await supabaseAdmin
+        .from('shopping_list_items')
+        .select('list_id, is_checked')
+        .in('list_id', listIds);
+
+      if (itemsError) {
+        throw new BadRequestError('Failed to fetch shopping list items');
+      }
+
+      for (const item of items ?? []) {
+        const counts = countsByListId.get(item.list_id) ?? { item_count: 0, checked_count: 0 };
+        counts.item_count += 1;
+        if (item.is_checked) counts.checked_count += 1;
+        countsByListId.set(item.list_id, counts);
+      }
+    }
+
+    return {
+      shopping_lists: (lists ?? []).map((list) => ({
+        ...(list as ShoppingList),
+        ...(countsByListId.get(list.id) ?? { item_count: 0, checked_count: 0 }),
+      })),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Get a shopping list with its items grouped by aisle
+   */
+  async getShoppingList(userId: string, listId: string): Promise<ShoppingListDetail> {
+    const list = await this.getOwnedList(userId, listId);
+
+    const { data: items, error } = await supabaseAdmin
+      .from('shopping_list_items')
+      .select('*')
+      .eq('list_id', list.id)
+      .order('position');
+
+    if (error) {
+      throw new BadRequestError('Failed to fetch shopping list items');
+    }
+
+    return toDetail(list, (items ?? []) as ShoppingListItem[]);
+  }
+
+  /**
+   * Rename a shopping list
+   */
+  async renameShoppingList(userId: string, listId: string, name: string): Promise<ShoppingListDetail> {
+    const list = await this.getOwnedList(userId, listId);
+
+    const { error } = await supabaseAdmin
+      .from('shopping_lists')
+      .update({ name: name.trim() })
+      .eq('id', list.id)
+      .eq('user_id', userId);
+
+    if (error) {
+      throw new BadRequestError('Failed to update shopping list');
+    }
+
+    return this.getShoppingList(userId, list.id);
+  }
+
+  /**
+   * Check or uncheck a single shopping list item
+   */
+  async setItemChecked(
+    userId: string,
+    listId: string,
+    itemId: string,
+    isChecked: boolean
+  ): Promise<ShoppingListItem> {
+    const list = await this.getOwnedList(userId, listId);
+
+    const { data: item, error } = await supabaseAdmin
+      .from('shopping_list_items')
+      .update({ is_checked: isChecked })
+      .eq('id', itemId)
+      .eq('list_id', list.id)
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      throw new BadRequestError('Failed to update shopping list item');
+    }
+    if (!item) {
+      throw new NotFoundError('Shopping list item');
+    }
+
+    return item as ShoppingListItem;
+  }
+
+  /**
+   * Delete a shopping list and its items
+   */
+  async deleteShoppingList(userId: string, listId: string): Promise<void> {
+    const list = await this.getOwnedList(userId, listId);
+
+    const { error } = await supabaseAdmin
+      .from('shopping_lists')
+      .delete()
+      .eq('id', list.id)
+      .eq('user_id', userId);
+
+    if (error) {
+      throw new BadRequestError('Failed to delete shopping list');
+    }
+  }
+
+  private async getOwnedList(userId: string, listId: string): Promise<ShoppingList> {
+    const { data: list, error } = await supabaseAdmin
+      .from('shopping_lists')
+      .select('*')
+      .eq('id', listId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new BadRequestError('Failed to fetch shopping list');
+    }
+    if (!list) {
+      throw new NotFoundError('Shopping list');
+    }
+
+    return list as ShoppingList;
+  }
+}
+
+export const shoppingListService = new ShoppingListService();
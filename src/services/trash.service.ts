@@ -0,0 +1,134 @@
+import { supabaseAdmin } from '../config/supabase.js';
+import { env } from '../config/env.js';
+import { imageService } from './image.service.js';
+import { recipeService } from './recipe.service.js';
+import { BadRequestError, ConflictError, NotFoundError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import type { RecipeListItem } from '../types/index.js';
+
+export type TrashedRecipeListItem = RecipeListItem & {
+  deleted_at: string;
+  // When the purge job may remove it for good
+  purge_after: string;
+};
+
+export interface PaginatedTrash {
+  recipes: TrashedRecipeListItem[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+export type PurgeResult = {
+  purged: number;
+  files_deleted: number;
+  files_failed: number;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Raised by restore_recipe when the save's recipe or suggestion has been
+// saved again; the unique violation covers a save made at the same time
+const SAVED_AGAIN = 'PT409';
+const UNIQUE_VIOLATION = '23505';
+
+const retentionMs = (): number => env.RECIPE_TRASH_RETENTION_DAYS * DAY_MS;
+
+const purgeAfter = (deletedAt: string): string =>
+  new Date(new Date(deletedAt).getTime() + retentionMs()).toISOString();
+
+export class TrashService {
+  /**
+   * Recipes in the user's trash, most recently deleted first
+   */
+  async listTrash(userId: string, page: number, limit: number): Promise<PaginatedTrash> {
+    const offset = (page - 1) * limit;
+
+    const { data: recipes, error, count } = await supabaseAdmin
+      .from('recipes')
+      .select('*', { count: 'exact' })
+      .eq('user_id', userId)
+      .not('deleted_at', 'is', null)
+      .order('deleted_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new BadRequestError('Failed to fetch trash');
+    }
+
+    const rows = recipes ?? [];
+    const items = await recipeService.buildListItems(rows, userId);
+    const deletedAtById = new Map(rows.map((recipe) => [recipe.id, recipe.deleted_at as string]));
+
+    return {
+      recipes: items.map((item) => {
+        const deletedAt = deletedAtById.get(item.id) as string;
+        return { ...item, deleted_at: deletedAt, purge_after: purgeAfter(deletedAt) };
+      }),
+      pagination: {
+        page,
+        limit,
+        total: count ?? 0,
+        totalPages: Math.ceil((count ?? 0) / limit),
+      },
+    };
+  }
+
+  /**
+   * Take a recipe out of the trash, together with the user's save of it
+   */
+  async restoreRecipe(userId: string, recipeId: string): Promise<void> {
+    const { data: restored, error } = await supabaseAdmin.rpc('restore_recipe', {
+      p_recipe_id: recipeId,
+      p_user_id: userId,
+    });
+
+    if (error?.code === SAVED_AGAIN || error?.code === UNIQUE_VIOLATION) {
+      throw new ConflictError('The recipe or suggestion this recipe was saved from has been saved again');
+    }
+    if (error) {
+      throw new BadRequestError('Failed to restore recipe');
+    }
+    if (!restored) {
+      throw new NotFoundError('Deleted recipe');
+    }
+
+    logger.info({ userId, recipeId }, 'Restored recipe');
+  }
+
+  /**
+   * Hard-delete up to `limit` recipes that have been in the trash longer than
+   * the retention window, then remove their files that no other recipe uses
+   * from storage. A file that fails to delete is logged and left behind.
+   */
+  async purgeExpired(limit: number, now: Date = new Date()): Promise<PurgeResult> {
+    const { data: purged, error } = await supabaseAdmin.rpc('purge_deleted_recipes', {
+      p_deleted_before: new Date(now.getTime() - retentionMs()).toISOString(),
+      p_limit: limit,
+    });
+
+    if (error) {
+      throw new Error(`Failed to purge deleted recipes: ${error.message}`);
+    }
+
+    const result: PurgeResult = { purged: purged?.length ?? 0, files_deleted: 0, files_failed: 0 };
+    for (const recipe of purged ?? []) {
+      for (const storagePath of recipe.orphaned_storage_paths) {
+        if (await imageService.deleteFromStorage(storagePath)) {
+          result.files_deleted += 1;
+        } else {
+          result.files_failed += 1;
+        }
+      }
+    }
+
+    if (result.purged > 0) {
+      logger.info(result, 'Purged deleted recipes');
+    }
+    return result;
+  }
+}
+
+export const trashService = new TrashService();
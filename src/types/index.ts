@@ -22,6 +22,8 @@ export interface Recipe {
   source_url: string | null;
   source_recipe_id: string | null;
   metadata: Json;
+  // RecipeNutrition computed from the ingredients; null until computed
+  nutrition: Json | null;
   created_at: string;
   updated_at: string;
   deleted_at: string | null;
@@ -39,6 +41,7 @@ export interface RecipeIngredient {
   quantity: number | null;
   unit: string | null;
   ingredient_name: string | null;
+  section: string | null;
   created_at: string;
 }
 
@@ -47,6 +50,7 @@ export interface RecipeStep {
   recipe_id: string;
   position: number;
   instruction: string;
+  section: string | null;
   created_at: string;
 }
 
@@ -76,6 +80,39 @@ export interface RecipeShare {
   created_at: string;
 }
 
+// ============================================================================
+// Recipe Revisions
+// ============================================================================
+
+export interface RecipeRevision {
+  id: string;
+  recipe_id: string;
+  revision: number;
+  envelope: Json;
+  changed_fields: string[];
+  restored_from: number | null;
+  created_by: string | null;
+  // The recipe's updated_at in this state (matches its ETag)
+  recipe_updated_at: string | null;
+  created_at: string;
+}
+
+// ============================================================================
+// Recipe Collections
+// ============================================================================
+
+export interface RecipeCollection {
+  id: string;
+  user_id: string;
+  name: string;
+  description: string | null;
+  cover_image_url: string | null;
+  position: number;
+  share_token: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 // ============================================================================
 // Import Jobs
 // ============================================================================
@@ -90,6 +127,22 @@ export interface ImportJob {
   result_recipe_id: string | null;
   error_message: string | null;
   retries: number;
+  metadata: Json;
+  next_attempt_at: string;
+  locked_at: string | null;
+  completed_at: string | null;
+  batch_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ImportBatch {
+  id: string;
+  user_id: string;
+  source: 'urls' | 'bookmarks' | 'text';
+  submitted_count: number;
+  queued_count: number;
+  skipped: Array<{ url: string; reason: string }>;
   created_at: string;
   updated_at: string;
 }
@@ -103,6 +156,11 @@ export interface UserPreferences {
   dietary_restrictions: string[];
   preferred_cuisines: string[];
   excluded_ingredients: string[];
+  skill_level: 'beginner' | 'intermediate' | 'advanced' | null;
+  max_total_time_minutes: number | null;
+  household_size: number | null;
+  disliked_cuisines: string[];
+  allergens: string[];
   created_at: string;
   updated_at: string;
 }
@@ -136,6 +194,66 @@ export interface RecipeSave {
   source_recipe_id: string | null;
   daily_plan_item_id: string | null;
   created_at: string;
+  // Set while the saved copy is in the trash
+  deleted_at: string | null;
+}
+
+// ============================================================================
+// Pantry
+// ============================================================================
+
+export interface PantryItem {
+  id: string;
+  user_id: string;
+  ingredient_name: string;
+  quantity: number | null;
+  unit: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// ============================================================================
+// Personal Meal Planner
+// ============================================================================
+
+export interface MealPlanSlot {
+  id: string;
+  user_id: string;
+  plan_date: string;
+  meal_type: 'breakfast' | 'lunch' | 'dinner' | 'dessert';
+  recipe_id: string;
+  daily_plan_item_id: string | null;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// ============================================================================
+// Shopping Lists
+// ============================================================================
+
+export interface ShoppingList {
+  id: string;
+  user_id: string;
+  name: string;
+  recipe_ids: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ShoppingListItem {
+  id: string;
+  list_id: string;
+  position: number;
+  ingredient_name: string;
+  quantity: number | null;
+  unit: string | null;
+  display_text: string;
+  aisle: string;
+  source_recipe_ids: string[];
+  is_checked: boolean;
+  created_at: string;
+  updated_at: string;
 }
 
 // ============================================================================
@@ -164,6 +282,19 @@ export interface PaginatedResponse<T> {
   };
 }
 
+// Keyset pagination: send next_cursor back as `cursor` for the following page
+export interface CursorPagination {
+  limit: number;
+  next_cursor: string | null;
+}
+
+// Page-number pagination, kept for older clients; it hands out a cursor too
+export interface PagePagination extends CursorPagination {
+  page: number;
+  total: number;
+  totalPages: number;
+}
+
 export interface ApiError {
   error: string;
   code?: string;
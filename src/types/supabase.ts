@@ -190,6 +190,47 @@ export type Database = {
           }
         ];
       };
+      import_batches: {
+        Row: {
+          id: string;
+          user_id: string;
+          source: string;
+          submitted_count: number;
+          queued_count: number;
+          skipped: Json;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          source: string;
+          submitted_count?: number;
+          queued_count?: number;
+          skipped?: Json;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          source?: string;
+          submitted_count?: number;
+          queued_count?: number;
+          skipped?: Json;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "import_batches_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
       import_jobs: {
         Row: {
           id: string;
@@ -203,6 +244,10 @@ export type Database = {
           retries: number;
           metadata: Json;
           target_date: string | null;
+          next_attempt_at: string;
+          locked_at: string | null;
+          completed_at: string | null;
+          batch_id: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -218,6 +263,10 @@ export type Database = {
           retries?: number;
           metadata?: Json;
           target_date?: string | null;
+          next_attempt_at?: string;
+          locked_at?: string | null;
+          completed_at?: string | null;
+          batch_id?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -233,6 +282,10 @@ export type Database = {
           retries?: number;
           metadata?: Json;
           target_date?: string | null;
+          next_attempt_at?: string;
+          locked_at?: string | null;
+          completed_at?: string | null;
+          batch_id?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -250,6 +303,240 @@ export type Database = {
             isOneToOne: false;
             referencedRelation: "recipes";
             referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "import_jobs_batch_id_fkey";
+            columns: ["batch_id"];
+            isOneToOne: false;
+            referencedRelation: "import_batches";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      meal_plan_slots: {
+        Row: {
+          id: string;
+          user_id: string;
+          plan_date: string;
+          meal_type: string;
+          recipe_id: string;
+          daily_plan_item_id: string | null;
+          notes: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          plan_date: string;
+          meal_type: string;
+          recipe_id: string;
+          daily_plan_item_id?: string | null;
+          notes?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          plan_date?: string;
+          meal_type?: string;
+          recipe_id?: string;
+          daily_plan_item_id?: string | null;
+          notes?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "meal_plan_slots_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "meal_plan_slots_recipe_id_fkey";
+            columns: ["recipe_id"];
+            isOneToOne: false;
+            referencedRelation: "recipes";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "meal_plan_slots_daily_plan_item_id_fkey";
+            columns: ["daily_plan_item_id"];
+            isOneToOne: false;
+            referencedRelation: "daily_meal_plan_items";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      pantry_items: {
+        Row: {
+          id: string;
+          user_id: string;
+          ingredient_name: string;
+          quantity: number | null;
+          unit: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          ingredient_name: string;
+          quantity?: number | null;
+          unit?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          ingredient_name?: string;
+          quantity?: number | null;
+          unit?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "pantry_items_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      recipe_collections: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          description: string | null;
+          cover_image_url: string | null;
+          position: number;
+          share_token: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          description?: string | null;
+          cover_image_url?: string | null;
+          position?: number;
+          share_token?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          description?: string | null;
+          cover_image_url?: string | null;
+          position?: number;
+          share_token?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "recipe_collections_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      recipe_collection_items: {
+        Row: {
+          collection_id: string;
+          recipe_id: string;
+          position: number;
+          created_at: string;
+        };
+        Insert: {
+          collection_id: string;
+          recipe_id: string;
+          position: number;
+          created_at?: string;
+        };
+        Update: {
+          collection_id?: string;
+          recipe_id?: string;
+          position?: number;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "recipe_collection_items_collection_id_fkey";
+            columns: ["collection_id"];
+            isOneToOne: false;
+            referencedRelation: "recipe_collections";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "recipe_collection_items_recipe_id_fkey";
+            columns: ["recipe_id"];
+            isOneToOne: false;
+            referencedRelation: "recipes";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      recipe_revisions: {
+        Row: {
+          id: string;
+          recipe_id: string;
+          revision: number;
+          envelope: Json;
+          changed_fields: string[];
+          restored_from: number | null;
+          created_by: string | null;
+          recipe_updated_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          recipe_id: string;
+          revision: number;
+          envelope: Json;
+          changed_fields?: string[];
+          restored_from?: number | null;
+          created_by?: string | null;
+          recipe_updated_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          recipe_id?: string;
+          revision?: number;
+          envelope?: Json;
+          changed_fields?: string[];
+          restored_from?: number | null;
+          created_by?: string | null;
+          recipe_updated_at?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "recipe_revisions_recipe_id_fkey";
+            columns: ["recipe_id"];
+            isOneToOne: false;
+            referencedRelation: "recipes";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "recipe_revisions_created_by_fkey";
+            columns: ["created_by"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
           }
         ];
       };
@@ -261,6 +548,7 @@ export type Database = {
           source_recipe_id: string | null;
           daily_plan_item_id: string | null;
           created_at: string;
+          deleted_at: string | null;
         };
         Insert: {
           id?: string;
@@ -269,6 +557,7 @@ export type Database = {
           source_recipe_id?: string | null;
           daily_plan_item_id?: string | null;
           created_at?: string;
+          deleted_at?: string | null;
         };
         Update: {
           id?: string;
@@ -277,6 +566,7 @@ export type Database = {
           source_recipe_id?: string | null;
           daily_plan_item_id?: string | null;
           created_at?: string;
+          deleted_at?: string | null;
         };
         Relationships: [
           {
@@ -318,6 +608,7 @@ export type Database = {
           quantity: number | null;
           unit: string | null;
           ingredient_name: string | null;
+          section: string | null;
           created_at: string;
         };
         Insert: {
@@ -328,6 +619,7 @@ export type Database = {
           quantity?: number | null;
           unit?: string | null;
           ingredient_name?: string | null;
+          section?: string | null;
           created_at?: string;
         };
         Update: {
@@ -338,6 +630,7 @@ export type Database = {
           quantity?: number | null;
           unit?: string | null;
           ingredient_name?: string | null;
+          section?: string | null;
           created_at?: string;
         };
         Relationships: [
@@ -445,6 +738,7 @@ export type Database = {
           recipe_id: string;
           position: number;
           instruction: string;
+          section: string | null;
           created_at: string;
         };
         Insert: {
@@ -452,6 +746,7 @@ export type Database = {
           recipe_id: string;
           position: number;
           instruction: string;
+          section?: string | null;
           created_at?: string;
         };
         Update: {
@@ -459,6 +754,7 @@ export type Database = {
           recipe_id?: string;
           position?: number;
           instruction?: string;
+          section?: string | null;
           created_at?: string;
         };
         Relationships: [
@@ -488,9 +784,11 @@ export type Database = {
           source_url: string | null;
           source_recipe_id: string | null;
           metadata: Json;
+          nutrition: Json | null;
           created_at: string;
           updated_at: string;
           deleted_at: string | null;
+          search_vector: unknown;
         };
         Insert: {
           id?: string;
@@ -508,9 +806,11 @@ export type Database = {
           source_url?: string | null;
           source_recipe_id?: string | null;
           metadata?: Json;
+          nutrition?: Json | null;
           created_at?: string;
           updated_at?: string;
           deleted_at?: string | null;
+          search_vector?: unknown;
         };
         Update: {
           id?: string;
@@ -528,9 +828,11 @@ export type Database = {
           source_url?: string | null;
           source_recipe_id?: string | null;
           metadata?: Json;
+          nutrition?: Json | null;
           created_at?: string;
           updated_at?: string;
           deleted_at?: string | null;
+          search_vector?: unknown;
         };
         Relationships: [
           {
@@ -549,6 +851,94 @@ export type Database = {
           }
         ];
       };
+      shopping_lists: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          recipe_ids: string[];
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          recipe_ids?: string[];
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          recipe_ids?: string[];
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "shopping_lists_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      shopping_list_items: {
+        Row: {
+          id: string;
+          list_id: string;
+          position: number;
+          ingredient_name: string;
+          quantity: number | null;
+          unit: string | null;
+          display_text: string;
+          aisle: string;
+          source_recipe_ids: string[];
+          is_checked: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          list_id: string;
+          position: number;
+          ingredient_name: string;
+          quantity?: number | null;
+          unit?: string | null;
+          display_text: string;
+          aisle?: string;
+          source_recipe_ids?: string[];
+          is_checked?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          list_id?: string;
+          position?: number;
+          ingredient_name?: string;
+          quantity?: number | null;
+          unit?: string | null;
+          display_text?: string;
+          aisle?: string;
+          source_recipe_ids?: string[];
+          is_checked?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "shopping_list_items_list_id_fkey";
+            columns: ["list_id"];
+            isOneToOne: false;
+            referencedRelation: "shopping_lists";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
       usage_counters: {
         Row: {
           id: string;
@@ -587,6 +977,11 @@ export type Database = {
           dietary_restrictions: string[];
           preferred_cuisines: string[];
           excluded_ingredients: string[];
+          skill_level: string | null;
+          max_total_time_minutes: number | null;
+          household_size: number | null;
+          disliked_cuisines: string[];
+          allergens: string[];
           created_at: string;
           updated_at: string;
         };
@@ -595,6 +990,11 @@ export type Database = {
           dietary_restrictions?: string[];
           preferred_cuisines?: string[];
           excluded_ingredients?: string[];
+          skill_level?: string | null;
+          max_total_time_minutes?: number | null;
+          household_size?: number | null;
+          disliked_cuisines?: string[];
+          allergens?: string[];
           created_at?: string;
           updated_at?: string;
         };
@@ -603,6 +1003,11 @@ export type Database = {
           dietary_restrictions?: string[];
           preferred_cuisines?: string[];
           excluded_ingredients?: string[];
+          skill_level?: string | null;
+          max_total_time_minutes?: number | null;
+          household_size?: number | null;
+          disliked_cuisines?: string[];
+          allergens?: string[];
           created_at?: string;
           updated_at?: string;
         };
@@ -621,7 +1026,207 @@ export type Database = {
       [_ in never]: never;
     };
     Functions: {
-      [_ in never]: never;
+      search_recipes: {
+        Args: {
+          p_query: string;
+          p_user_id?: string | null;
+          p_include_feed?: boolean;
+          p_limit?: number;
+          p_offset?: number;
+        };
+        Returns: {
+          id: string;
+          rank: number;
+          total_count: number;
+        }[];
+      };
+      list_collection_recipes: {
+        Args: {
+          p_collection_id: string;
+          p_cuisines?: string[] | null;
+          p_tags?: string[] | null;
+          p_dietary_labels?: string[] | null;
+          p_search?: string | null;
+          p_limit?: number;
+          p_offset?: number;
+        };
+        Returns: {
+          id: string;
+          total_count: number;
+        }[];
+      };
+      summarize_collections: {
+        Args: {
+          p_collection_ids: string[];
+        };
+        Returns: {
+          collection_id: string;
+          recipe_count: number;
+          first_image_url: string | null;
+        }[];
+      };
+      create_recipe: {
+        Args: {
+          p_recipe: Json;
+          p_ingredients?: Json;
+          p_steps?: Json;
+          p_media?: Json;
+        };
+        Returns: {
+          id: string;
+          user_id: string | null;
+          title: string;
+          description: string | null;
+          servings: number | null;
+          calories: number | null;
+          prep_time_minutes: number | null;
+          cook_time_minutes: number | null;
+          tags: string[];
+          cuisine: string | null;
+          dietary_labels: string[];
+          source_type: string;
+          source_url: string | null;
+          source_recipe_id: string | null;
+          metadata: Json;
+          nutrition: Json | null;
+          created_at: string;
+          updated_at: string;
+          deleted_at: string | null;
+          search_vector: unknown;
+        };
+      };
+      update_recipe: {
+        Args: {
+          p_recipe_id: string;
+          p_user_id: string;
+          p_changes: Json;
+          p_ingredients?: Json | null;
+          p_steps?: Json | null;
+          p_media?: Json | null;
+          p_expected_updated_at?: string | null;
+          p_restored_from?: number | null;
+        };
+        Returns: {
+          id: string;
+          user_id: string | null;
+          title: string;
+          description: string | null;
+          servings: number | null;
+          calories: number | null;
+          prep_time_minutes: number | null;
+          cook_time_minutes: number | null;
+          tags: string[];
+          cuisine: string | null;
+          dietary_labels: string[];
+          source_type: string;
+          source_url: string | null;
+          source_recipe_id: string | null;
+          metadata: Json;
+          nutrition: Json | null;
+          created_at: string;
+          updated_at: string;
+          deleted_at: string | null;
+          search_vector: unknown;
+        };
+      };
+      trash_recipe: {
+        Args: {
+          p_recipe_id: string;
+          p_user_id: string;
+        };
+        Returns: boolean;
+      };
+      restore_recipe: {
+        Args: {
+          p_recipe_id: string;
+          p_user_id: string;
+        };
+        Returns: boolean;
+      };
+      purge_deleted_recipes: {
+        Args: {
+          p_deleted_before: string;
+          p_limit?: number;
+        };
+        Returns: {
+          purged_recipe_id: string;
+          orphaned_storage_paths: string[];
+        }[];
+      };
+      swap_meal_plan_slots: {
+        Args: {
+          p_user_id: string;
+          p_slot_id: string;
+          p_date: string;
+          p_meal_type: string;
+        };
+        Returns: {
+          id: string;
+          user_id: string;
+          plan_date: string;
+          meal_type: string;
+          recipe_id: string;
+          daily_plan_item_id: string | null;
+          notes: string | null;
+          created_at: string;
+          updated_at: string;
+        }[];
+      };
+      list_recipe_saves: {
+        Args: {
+          p_user_id: string;
+          p_after_saved_at?: string | null;
+          p_after_id?: string | null;
+          p_limit?: number;
+          p_offset?: number;
+          p_with_total?: boolean;
+        };
+        Returns: {
+          item_id: string;
+          recipe_id: string;
+          is_saved: boolean;
+          source_recipe_id: string | null;
+          daily_plan_item_id: string | null;
+          saved_at: string;
+          total_count: number | null;
+        }[];
+      };
+      enqueue_import_batch: {
+        Args: {
+          p_user_id: string;
+          p_source: string;
+          p_submitted_count: number;
+          p_urls: string[];
+          p_skipped?: Json;
+        };
+        Returns: string;
+      };
+      claim_import_jobs: {
+        Args: {
+          p_limit?: number;
+          p_stale_after?: string;
+          p_max_retries?: number;
+        };
+        Returns: {
+          id: string;
+          user_id: string;
+          type: string;
+          status: string;
+          input_url: string | null;
+          input_image_path: string | null;
+          result_recipe_id: string | null;
+          error_message: string | null;
+          retries: number;
+          metadata: Json;
+          target_date: string | null;
+          next_attempt_at: string;
+          locked_at: string | null;
+          completed_at: string | null;
+          batch_id: string | null;
+          created_at: string;
+          updated_at: string;
+        }[];
+      };
     };
     Enums: {
       [_ in never]: never;
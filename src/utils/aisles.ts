@@ -0,0 +1,39 @@
+export const AISLE_CATEGORIES = [
+  'produce',
+  'meat_seafood',
+  'dairy_eggs',
+  'bakery',
+  'pantry',
+  'spices',
+  'canned_jarred',
+  'condiments',
+  'frozen',
+  'beverages',
+  'other',
+] as const;
+
+export type AisleCategory = typeof AISLE_CATEGORIES[number];
+
+// Checked in order: "frozen peas" must land in frozen, "peanut butter" in
+// condiments before "butter" pulls it into dairy, "bread flour" in pantry.
+const AISLE_KEYWORDS: Array<[AisleCategory, RegExp]> = [
+  ['frozen', /\bfrozen\b|ice cream/],
+  ['canned_jarred', /\bcanned\b|coconut milk|tomato (?:paste|sauce)|crushed tomatoes|diced tomatoes|\bbeans\b|chickpeas|\bstock\b|\bbroth\b|olives|capers|tuna/],
+  ['condiments', /peanut butter|ketchup|mustard|mayo|mayonnaise|soy sauce|tamari|fish sauce|hot sauce|sriracha|worcestershire|vinegar|\bsalsa\b|\bpesto\b|honey|maple syrup|jam\b|tahini|miso/],
+  ['spices', /\bsalt\b|peppercorns|black pepper|white pepper|cumin|paprika|cinnamon|nutmeg|oregano|turmeric|chili powder|chilli powder|curry powder|garam masala|cayenne|dried |bay lea|ground (?:ginger|coriander|cloves|allspice)|vanilla|seasoning|spice/],
+  ['meat_seafood', /chicken|beef|pork|lamb|turkey|bacon|sausage|ham\b|prosciutto|steak|mince|veal|duck|salmon|shrimp|prawn|fish|cod\b|tilapia|halibut|crab|lobster|scallop|mussel|clam|anchov/],
+  ['dairy_eggs', /\beggs?\b|milk|butter|cream|cheese|yogurt|yoghurt|parmesan|mozzarella|cheddar|feta|ricotta|ghee|buttermilk/],
+  ['pantry', /flour|sugar|\brice\b|pasta|spaghetti|noodle|oats|\boil\b|cornstarch|baking (?:soda|powder)|yeast|cocoa|chocolate|breadcrumbs|panko|quinoa|lentils|couscous|nuts|almonds|walnuts|pecans|cashews|raisins|seeds|cereal|crackers/],
+  ['bakery', /\bbread\b|baguette|tortilla|\bpita\b|\bbuns?\b|rolls?\b|bagel|croissant|naan/],
+  ['beverages', /\bwine\b|\bbeer\b|coffee|\btea\b|soda|sparkling water/],
+  ['produce', /onion|garlic|shallot|scallion|leek|tomato|potato|carrot|celery|pepper|chili|chilli|jalape|lettuce|spinach|kale|cabbage|broccoli|cauliflower|zucchini|courgette|eggplant|aubergine|cucumber|mushroom|avocado|lemon|lime|orange|apple|banana|berr|grape|mango|pineapple|peach|pear|herb|basil|parsley|cilantro|coriander|mint|dill|thyme|rosemary|sage|ginger|squash|pumpkin|corn\b|peas\b|green beans|asparagus|beet|radish|arugula|rocket|fennel/],
+];
+
+/**
+ * Best-effort store aisle for an ingredient name; 'other' when unknown
+ */
+export function categorizeIngredient(ingredientName: string): AisleCategory {
+  const normalized = ingredientName.toLowerCase();
+  const match = AISLE_KEYWORDS.find(([, pattern]) => pattern.test(normalized));
+  return match ? match[0] : 'other';
+}
@@ -0,0 +1,162 @@
+import { parseIngredientLine } from './ingredient-parser.js';
+
+// Major allergen groups (the US "big nine")
+export const ALLERGENS = [
+  'milk',
+  'egg',
+  'fish',
+  'shellfish',
+  'tree_nuts',
+  'peanuts',
+  'wheat',
+  'soy',
+  'sesame',
+] as const;
+
+export type Allergen = typeof ALLERGENS[number];
+
+export type RecipeAllergens = {
+  contains: Allergen[];
+  // ingredient names behind each allergen in `contains`
+  sources: Partial<Record<Allergen, string[]>>;
+};
+
+type AllergenRule = {
+  contains: RegExp;
+  // Whole phrases that look like the allergen but are not, e.g. "almond milk"
+  // for milk. They are cut out before `contains` is tested, so "milk (or
+  // almond milk)" still counts.
+  safe?: RegExp;
+};
+
+const PLANT_BASED = String.raw`vegan|plant[- ]based|non[- ]dairy|dairy[- ]free`;
+
+const ALLERGEN_RULES: Record<Allergen, AllergenRule> = {
+  milk: {
+    contains: /\b(?:milk|butter|buttermilk|cream|cheese|cheddar|mozzarella|parmesan|parmigiano|pecorino|ricotta|feta|gouda|brie|camembert|mascarpone|paneer|halloumi|gruy[eè]re|yog(?:h)?urt|ghee|whey|casein|custard|kefir|half[- ]and[- ]half|cr[eè]me fra[iî]che|queso|alfredo|b[eé]chamel|nutella)\b/,
+    safe: new RegExp(String.raw`\b(?:(?:${PLANT_BASED}|coconut|almond|oat|soy|rice|cashew|hemp|pea|macadamia) (?:milk|cream|butter|cheese|yog(?:h)?urt)|(?:peanut|almond|cashew|apple|cocoa|shea|nut|seed|sunflower|pumpkin seed) butter|butter (?:beans?|lettuce)|butternut|cream of tartar|cream soda|coconut cream|milk thistle)\b`, 'g'),
+  },
+  egg: {
+    contains: /\b(?:eggs?|egg (?:whites?|yolks?)|yolks?|mayo(?:nnaise)?|aioli|meringue|custard|hollandaise|b[eé]arnaise|eggnog)\b/,
+    safe: new RegExp(String.raw`\b(?:(?:${PLANT_BASED}|egg[- ]free|eggless) (?:eggs?|mayo(?:nnaise)?|aioli)|egg replacer|flax eggs?|chia eggs?)\b`, 'g'),
+  },
+  fish: {
+    contains: /\b(?:fish|salmon|tuna|cod|tilapia|halibut|haddock|trout|mackerel|sardines?|anchov(?:y|ies)|herring|pollock|snapper|sea bass|swordfish|mahi[- ]mahi|catfish|sole|flounder|bonito|dashi|caviar|roe|worcestershire)\b/,
+    safe: new RegExp(String.raw`\b(?:(?:${PLANT_BASED}) fish sauce|fish[- ]free)\b`, 'g'),
+  },
+  shellfish: {
+    contains: /\b(?:shrimp|prawns?|crab|lobster|crayfish|crawfish|langoustines?|scallops?|mussels?|clams?|oysters?|cockles?|whelks?|krill|shellfish|squid|calamari|octopus|oyster sauce)\b/,
+    safe: new RegExp(String.raw`\b(?:crab ?apples?|oyster mushrooms?|(?:${PLANT_BASED}|mushroom) oyster sauce)\b`, 'g'),
+  },
+  tree_nuts: {
+    contains: /\b(?:almonds?|walnuts?|pecans?|cashews?|pistachios?|hazelnuts?|filberts?|macadamias?|brazil nuts?|pine nuts|chestnuts?|praline|marzipan|nutella|frangipane|pesto|gianduja|nuts?)\b/,
+    safe: /\b(?:water chestnuts?|nut[- ]free)\b/g,
+  },
+  peanuts: {
+    contains: /\b(?:peanuts?|groundnuts?|monkey nuts|satay|mixed nuts)\b/,
+    safe: /\b(?:peanut[- ]free)\b/g,
+  },
+  wheat: {
+    contains: /\b(?:flour|wheat|spelt|farro|semolina|durum|bulgur|couscous|seitan|bread|breadcrumbs|panko|croutons|pasta|spaghetti|penne|macaroni|linguine|fettuccine|rigatoni|fusilli|lasagna|noodles|ramen|udon|orzo|gnocchi|tortillas?|pitas?|naan|bagels?|buns?|rolls?|crackers?|biscuits?|cookies?|pastry|phyllo|filo|soy sauce|teriyaki|hoisin|graham|pretzels?|wontons?|dumplings?|brioche|baguette|ciabatta|sourdough|dough)\b/,
+    safe: /\b(?:(?:gluten[- ]free|wheat[- ]free|almond|coconut|rice|corn|chickpea|gram|buckwheat|tapioca|cassava|arrowroot|quinoa|sorghum|millet|teff|potato|oat) (?:flour|bread|breadcrumbs|pasta|spaghetti|noodles|tortillas?|crackers?|soy sauce)|rice noodles|soba|buckwheat|corn tortillas?|tamari|lettuce rolls?)\b/g,
+  },
+  soy: {
+    contains: /\b(?:soy|soya|soybeans?|tofu|tempeh|edamame|miso|tamari|shoyu|teriyaki|hoisin|natto|tvp)\b/,
+    safe: /\b(?:soy[- ]free)\b/g,
+  },
+  sesame: {
+    contains: /\b(?:sesame|tahini|halva|halvah|hummus|gomasio|furikake|za'?atar|benne)\b/,
+    safe: /\b(?:sesame[- ]free)\b/g,
+  },
+};
+
+const containsAllergen = (text: string, rule: AllergenRule): boolean => {
+  const remaining = rule.safe ? text.replace(rule.safe, ' ') : text;
+  return remaining.search(rule.contains) !== -1;
+};
+
+/**
+ * Map ingredient lines to the major allergen groups. The whole line is read,
+ * including notes, so "milk (or almond milk)" counts as milk; an allergen
+ * that appears only under a name the rules do not know is missed.
+ */
+export function analyzeAllergens(ingredients: Array<{ raw_text: string }>): RecipeAllergens {
+  const sources: Partial<Record<Allergen, string[]>> = {};
+
+  for (const ingredient of ingredients) {
+    const text = ingredient.raw_text.toLowerCase();
+    const name = parseIngredientLine(ingredient.raw_text).ingredient_name;
+    for (const allergen of ALLERGENS) {
+      const rule = ALLERGEN_RULES[allergen];
+      if (!containsAllergen(text, rule)) continue;
+      // Allergens found only in a note ("or almond milk") name the whole line
+      const source = name && containsAllergen(name, rule) ? name : ingredient.raw_text.trim();
+      const names = sources[allergen] ?? [];
+      if (!names.includes(source)) names.push(source);
+      sources[allergen] = names;
+    }
+  }
+
+  return {
+    contains: ALLERGENS.filter((allergen) => sources[allergen]),
+    sources,
+  };
+}
+
+const ALLERGEN_ALIASES: Record<string, Allergen> = {
+  milk: 'milk',
+  dairy: 'milk',
+  lactose: 'milk',
+  egg: 'egg',
+  eggs: 'egg',
+  fish: 'fish',
+  shellfish: 'shellfish',
+  crustacean: 'shellfish',
+  crustaceans: 'shellfish',
+  'tree nut': 'tree_nuts',
+  'tree nuts': 'tree_nuts',
+  nuts: 'tree_nuts',
+  peanut: 'peanuts',
+  peanuts: 'peanuts',
+  wheat: 'wheat',
+  soy: 'soy',
+  soya: 'soy',
+  soybeans: 'soy',
+  sesame: 'sesame',
+  'sesame seeds': 'sesame',
+};
+
+export function normalizeAllergen(value: string): Allergen | null {
+  const normalized = value.trim().toLowerCase().replace(/[_-]+/g, ' ').replace(/\s+/g, ' ');
+  return ALLERGEN_ALIASES[normalized] ?? null;
+}
+
+export const normalizeAllergens = (values: string[]): Allergen[] => {
+  const allergens = new Set(values.map((value) => normalizeAllergen(value)));
+  return ALLERGENS.filter((allergen) => allergens.has(allergen));
+};
+
+const ALLERGEN_NAMES: Record<Allergen, string> = {
+  milk: 'milk',
+  egg: 'egg',
+  fish: 'fish',
+  shellfish: 'shellfish',
+  tree_nuts: 'tree nuts',
+  peanuts: 'peanuts',
+  wheat: 'wheat',
+  soy: 'soy',
+  sesame: 'sesame',
+};
+
+/**
+ * Warnings for the allergens in a user's profile that a recipe contains,
+ * e.g. `Contains peanuts (peanut butter)`
+ */
+export function buildAllergenWarnings(allergens: RecipeAllergens | undefined, profile: Allergen[]): string[] {
+  if (!allergens) {
+    return [];
+  }
+  return profile
+    .filter((allergen) => allergens.contains.includes(allergen))
+    .map((allergen) => `Contains ${ALLERGEN_NAMES[allergen]} (${(allergens.sources[allergen] ?? []).join(', ')})`);
+}
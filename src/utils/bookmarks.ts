@@ -0,0 +1,58 @@
+import { URL } from 'url';
+
+export type UrlListFormat = 'bookmarks' | 'text';
+
+const HREF_PATTERN = /<a\s[^>]*?href\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/gi;
+const TEXT_URL_PATTERN = /https?:\/\/[^\s<>"']+/gi;
+
+const HTML_ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&quot;': '"',
+  '&#39;': "'",
+  '&apos;': "'",
+  '&lt;': '<',
+  '&gt;': '>',
+};
+
+const decodeEntities = (value: string): string =>
+  value.replace(/&(?:amp|quot|#39|apos|lt|gt);/g, (entity) => HTML_ENTITIES[entity] ?? entity);
+
+// Netscape bookmark exports (Chrome, Firefox, Safari, Pocket) start with this doctype
+export const isBookmarksHtml = (content: string): boolean =>
+  /<!DOCTYPE\s+NETSCAPE-Bookmark-file-1>/i.test(content) || /<a\s[^>]*href\s*=/i.test(content);
+
+/**
+ * Pull http(s) links out of a Netscape bookmarks HTML export or a plain-text
+ * list (one URL per line, or URLs mixed with other text). Order is kept.
+ */
+export function extractUrlsFromList(content: string): { format: UrlListFormat; urls: string[] } {
+  if (isBookmarksHtml(content)) {
+    const urls: string[] = [];
+    for (const match of content.matchAll(HREF_PATTERN)) {
+      const href = decodeEntities((match[1] ?? match[2] ?? match[3] ?? '').trim());
+      if (/^https?:\/\//i.test(href)) {
+        urls.push(href);
+      }
+    }
+    return { format: 'bookmarks', urls };
+  }
+
+  const urls = Array.from(content.matchAll(TEXT_URL_PATTERN), (match) =>
+    // Trailing punctuation from prose ("see https://example.com/pie.") is not part of the URL
+    match[0].replace(/[.,;:!?)\]]+$/, '')
+  );
+  return { format: 'text', urls };
+}
+
+/**
+ * Key used to de-duplicate URLs: fragment dropped, host lowercased
+ */
+export function urlDedupeKey(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    return parsed.toString();
+  } catch {
+    return url.trim();
+  }
+}
@@ -0,0 +1,95 @@
+import { z } from 'zod';
+import type { CursorPagination, PagePagination } from '../types/index.js';
+
+// Where a page ended in (created_at DESC, id DESC) order
+export type CursorPosition = {
+  created_at: string;
+  id: string;
+};
+
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:\.\d{1,6})?(?:Z|[+-]\d{2}(?::?\d{2})?)$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Opaque cursor for a position; clients only pass it back
+ */
+export const encodeCursor = (position: CursorPosition): string =>
+  Buffer.from(JSON.stringify([position.created_at, position.id])).toString('base64url');
+
+/**
+ * Position named by a cursor, or null when it is not one of ours. Both parts
+ * are checked strictly because they end up in a PostgREST filter.
+ */
+export function decodeCursor(cursor: string): CursorPosition | null {
+  try {
+    const value: unknown = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    if (!Array.isArray(value) || value.length !== 2) {
+      return null;
+    }
+    const [createdAt, id] = value;
+    if (typeof createdAt !== 'string' || !TIMESTAMP_PATTERN.test(createdAt)) {
+      return null;
+    }
+    if (typeof id !== 'string' || !UUID_PATTERN.test(id)) {
+      return null;
+    }
+    return { created_at: createdAt, id };
+  } catch {
+    return null;
+  }
+}
+
+// `cursor` query parameter
+export const cursorParamSchema = z
+  .string()
+  .transform((value, ctx) => {
+    const position = decodeCursor(value);
+    if (!position) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Invalid cursor' });
+      return z.NEVER;
+    }
+    return position;
+  })
+  .optional();
+
+/**
+ * PostgREST `or` filter for the rows after a position in
+ * (created_at DESC, id DESC) order
+ */
+export const afterCursorFilter = (position: CursorPosition): string =>
+  `created_at.lt."${position.created_at}",and(created_at.eq."${position.created_at}",id.lt.${position.id})`;
+
+/**
+ * Trim rows fetched with one extra (to tell whether more follow) down to
+ * `limit`, with the cursor for the rest
+ */
+export function takePage<T>(
+  rows: T[],
+  limit: number,
+  positionOf: (row: T) => CursorPosition
+): { rows: T[]; nextCursor: string | null } {
+  if (rows.length <= limit) {
+    return { rows, nextCursor: null };
+  }
+  const page = rows.slice(0, limit);
+  return { rows: page, nextCursor: encodeCursor(positionOf(page[page.length - 1])) };
+}
+
+/**
+ * Pagination block for a response: cursor requests get no counts, page
+ * requests keep page, total and totalPages
+ */
+export const toPagination = (
+  limit: number,
+  nextCursor: string | null,
+  pageInfo?: { page: number; total: number }
+): PagePagination | CursorPagination =>
+  pageInfo
+    ? {
+      page: pageInfo.page,
+      limit,
+      total: pageInfo.total,
+      totalPages: Math.ceil(pageInfo.total / limit),
+      next_cursor: nextCursor,
+    }
+    : { limit, next_cursor: nextCursor };
@@ -0,0 +1,130 @@
+import {
+  CANONICAL_DIETARY_LABELS,
+  normalizeDietaryLabels,
+  type CanonicalDietaryLabel,
+} from './dietary-labels.js';
+import { analyzeAllergens, type Allergen } from './allergens.js';
+import { parseIngredientLine } from './ingredient-parser.js';
+
+// Labels that can be checked against the ingredient list; the others
+// (keto_friendly, high_protein) are kept as given
+export const INFERRED_DIETARY_LABELS = [
+  'vegan',
+  'vegetarian',
+  'gluten_free',
+  'dairy_free',
+  'nut_free',
+  'shellfish_free',
+] as const satisfies readonly CanonicalDietaryLabel[];
+
+export type InferredDietaryLabel = typeof INFERRED_DIETARY_LABELS[number];
+
+type DietaryRule = {
+  contains: RegExp;
+  // Plant-based variants: "vegan sausages", "meatless meatballs"
+  except?: RegExp;
+};
+
+// Labels that promise an allergen group is absent. Allergens are read with
+// the rules in allergens.ts, so a recipe never lists an allergen in
+// `allergens.contains` while keeping a label that promises it is absent.
+const LABEL_ALLERGENS: Record<InferredDietaryLabel, Allergen[]> = {
+  vegan: ['milk', 'egg', 'fish', 'shellfish'],
+  vegetarian: ['fish', 'shellfish'],
+  gluten_free: ['wheat'],
+  dairy_free: ['milk'],
+  nut_free: ['tree_nuts', 'peanuts'],
+  shellfish_free: ['shellfish'],
+};
+
+const PLANT_BASED = String.raw`vegan|vegetarian|plant[- ]based|meatless|imitation`;
+
+// Ingredients outside the allergen groups that still rule labels out
+
+const MEAT: DietaryRule = {
+  contains: /\b(?:beef|steak|sirloin|brisket|pork|bacon|ham|prosciutto|pancetta|salami|pepperoni|chorizo|sausages?|lamb|mutton|veal|venison|chicken|turkey|duck|goose|mince|meatballs?|gelatine?|lard|suet|bone broth)\b/,
+  except: new RegExp(String.raw`\b(?:${PLANT_BASED})\b`),
+};
+
+const OTHER_ANIMAL_PRODUCTS: DietaryRule = {
+  contains: /\b(?:honey|gelatine?)\b/,
+  except: new RegExp(String.raw`\b(?:${PLANT_BASED})\b`),
+};
+
+// Gluten grains other than wheat
+const GLUTEN_GRAINS: DietaryRule = {
+  contains: /\b(?:barley|rye|malt|beer|lager)\b/,
+  except: /\b(?:gluten[- ]free)\b/,
+};
+
+const LABEL_RULES: Partial<Record<InferredDietaryLabel, DietaryRule[]>> = {
+  vegan: [MEAT, OTHER_ANIMAL_PRODUCTS],
+  vegetarian: [MEAT],
+  gluten_free: [GLUTEN_GRAINS],
+};
+
+const breaksRule = (name: string, rule: DietaryRule): boolean =>
+  rule.contains.test(name) && !rule.except?.test(name);
+
+const humanizeLabel = (label: string): string => label.replace(/_/g, '-');
+
+/**
+ * Ingredient names that rule out each inferred label, e.g.
+ * `{ vegan: ['butter'], dairy_free: ['butter'], ... }`
+ */
+export function findDietaryConflicts(
+  ingredients: Array<{ raw_text: string }>
+): Record<InferredDietaryLabel, string[]> {
+  const { sources } = analyzeAllergens(ingredients);
+  const conflicts = Object.fromEntries(
+    INFERRED_DIETARY_LABELS.map((label) => [
+      label,
+      [...new Set(LABEL_ALLERGENS[label].flatMap((allergen) => sources[allergen] ?? []))],
+    ])
+  ) as Record<InferredDietaryLabel, string[]>;
+
+  for (const ingredient of ingredients) {
+    const name = parseIngredientLine(ingredient.raw_text).ingredient_name ?? ingredient.raw_text.toLowerCase();
+    for (const label of INFERRED_DIETARY_LABELS) {
+      const rules = LABEL_RULES[label] ?? [];
+      if (rules.some((rule) => breaksRule(name, rule)) && !conflicts[label].includes(name)) {
+        conflicts[label].push(name);
+      }
+    }
+  }
+  return conflicts;
+}
+
+/**
+ * Check the given dietary labels against the ingredients. A checked label is
+ * removed when an ingredient rules it out, with a warning naming the
+ * ingredients. Labels are never added: an ingredient the rules do not know
+ * ("pesto", "granola") may still contain what the label promises is absent.
+ */
+export function reconcileDietaryLabels(
+  labels: unknown,
+  ingredients: Array<{ raw_text: string }>
+): { dietary_labels: CanonicalDietaryLabel[]; warnings: string[] } {
+  const claimed = normalizeDietaryLabels(labels);
+  if (ingredients.length === 0) {
+    return { dietary_labels: claimed, warnings: [] };
+  }
+
+  const conflicts = findDietaryConflicts(ingredients);
+  const result = new Set<CanonicalDietaryLabel>(claimed);
+  const warnings: string[] = [];
+
+  for (const label of INFERRED_DIETARY_LABELS) {
+    const offending = conflicts[label];
+    if (offending.length === 0 || !result.has(label)) {
+      continue;
+    }
+    result.delete(label);
+    warnings.push(`Removed "${humanizeLabel(label)}" label: recipe contains ${offending.join(', ')}`);
+  }
+
+  return {
+    dietary_labels: CANONICAL_DIETARY_LABELS.filter((label) => result.has(label)),
+    warnings,
+  };
+}
@@ -45,6 +45,12 @@ export class ConflictError extends AppError {
   }
 }
 
+export class PreconditionFailedError extends AppError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(message, 412, 'PRECONDITION_FAILED', details);
+  }
+}
+
 export class RateLimitError extends AppError {
   constructor(message = 'Too many requests') {
     super(message, 429, 'RATE_LIMIT_EXCEEDED');
@@ -0,0 +1,81 @@
+import { ingredientMergeKey } from './shopping-list.js';
+
+// Assumed to be on hand when matching against a pantry
+export const PANTRY_STAPLES = ['salt', 'black pepper', 'pepper', 'water'] as const;
+
+const STAPLE_KEYS = new Set<string>(PANTRY_STAPLES.map((staple) => ingredientMergeKey(staple)));
+
+/**
+ * True when `term` names the ingredient: "chicken" matches "chicken breast"
+ * and "peanut" matches "peanut butter", but "pea" does not match "peanut".
+ */
+export function ingredientMatches(term: string, ingredientName: string): boolean {
+  const termKey = ingredientMergeKey(term);
+  const ingredientKey = ingredientMergeKey(ingredientName);
+  if (!termKey || !ingredientKey) return false;
+  if (termKey === ingredientKey) return true;
+
+  return ` ${ingredientKey} `.includes(` ${termKey} `);
+}
+
+// Words that may come before a pantry item's name without making it a
+// different ingredient ("unsalted butter" is butter, "peanut butter" is not)
+const PANTRY_QUALIFIERS = new Set([
+  'unsalted',
+  'salted',
+  'boneless',
+  'skinless',
+  'extra',
+  'virgin',
+  'extra-virgin',
+  'whole',
+  'ground',
+  'dried',
+  'frozen',
+  'ripe',
+  'raw',
+  'cooked',
+  'plain',
+  'all-purpose',
+  'grated',
+  'shredded',
+  'sliced',
+  'diced',
+  'softened',
+  'melted',
+  'cold',
+  'warm',
+]);
+
+/**
+ * True when a pantry item covers a recipe ingredient: the pantry name must
+ * appear in the ingredient name, preceded only by qualifiers. "butter" covers
+ * "unsalted butter" but not "peanut butter", and "chicken breast" does not
+ * cover "chicken".
+ */
+export function pantryItemCovers(pantryName: string, ingredientName: string): boolean {
+  const pantryKey = ingredientMergeKey(pantryName);
+  const ingredientKey = ingredientMergeKey(ingredientName);
+  if (!pantryKey || !ingredientKey) return false;
+
+  const index = ` ${ingredientKey} `.indexOf(` ${pantryKey} `);
+  if (index === -1) return false;
+
+  return ingredientKey
+    .slice(0, index)
+    .split(' ')
+    .filter(Boolean)
+    .every((word) => PANTRY_QUALIFIERS.has(word));
+}
+
+export const isPantryStaple = (ingredientName: string): boolean =>
+  STAPLE_KEYS.has(ingredientMergeKey(ingredientName));
+
+/**
+ * Excluded terms (from user preferences) that appear in a recipe's ingredients
+ */
+export function findExcludedIngredients(ingredientNames: string[], excluded: string[]): string[] {
+  return excluded.filter((term) =>
+    term.trim().length > 0 && ingredientNames.some((name) => ingredientMatches(term, name))
+  );
+}
@@ -0,0 +1,383 @@
+export const CANONICAL_UNITS = [
+  'tsp',
+  'tbsp',
+  'cup',
+  'fl_oz',
+  'pint',
+  'quart',
+  'gallon',
+  'ml',
+  'l',
+  'oz',
+  'lb',
+  'g',
+  'kg',
+  'mg',
+  'pinch',
+  'dash',
+  'clove',
+  'can',
+  'jar',
+  'package',
+  'stick',
+  'slice',
+  'piece',
+  'bunch',
+  'sprig',
+  'stalk',
+  'head',
+  'handful',
+] as const;
+
+export type CanonicalUnit = typeof CANONICAL_UNITS[number];
+
+export type ParsedIngredient = {
+  quantity: number | null;
+  // Upper bound when the line gives a range ("2-3 cloves"); null otherwise
+  quantity_max: number | null;
+  unit: CanonicalUnit | null;
+  ingredient_name: string | null;
+};
+
+export type IngredientLineParts = {
+  quantity: number | null;
+  quantity_max: number | null;
+  unit: CanonicalUnit | null;
+  size_note: string | null;
+  // Everything after the unit, e.g. "all-purpose flour, sifted"
+  remainder: string;
+};
+
+const UNICODE_FRACTIONS: Record<string, string> = {
+  '½': '1/2',
+  '⅓': '1/3',
+  '⅔': '2/3',
+  '¼': '1/4',
+  '¾': '3/4',
+  '⅕': '1/5',
+  '⅖': '2/5',
+  '⅗': '3/5',
+  '⅘': '4/5',
+  '⅙': '1/6',
+  '⅚': '5/6',
+  '⅐': '1/7',
+  '⅛': '1/8',
+  '⅜': '3/8',
+  '⅝': '5/8',
+  '⅞': '7/8',
+  '⅑': '1/9',
+  '⅒': '1/10',
+};
+
+// Single-letter abbreviations are case-sensitive ("T" = tablespoon, "t" = teaspoon)
+const CASE_SENSITIVE_UNIT_ALIASES: Record<string, CanonicalUnit> = {
+  T: 'tbsp',
+  Tb: 'tbsp',
+  t: 'tsp',
+};
+
+const UNIT_ALIASES: Record<string, CanonicalUnit> = {
+  tsp: 'tsp',
+  tsps: 'tsp',
+  teaspoon: 'tsp',
+  teaspoons: 'tsp',
+  tbsp: 'tbsp',
+  tbsps: 'tbsp',
+  tbs: 'tbsp',
+  tbl: 'tbsp',
+  tablespoon: 'tbsp',
+  tablespoons: 'tbsp',
+  c: 'cup',
+  cup: 'cup',
+  cups: 'cup',
+  'fl oz': 'fl_oz',
+  'fl. oz': 'fl_oz',
+  'fluid ounce': 'fl_oz',
+  'fluid ounces': 'fl_oz',
+  pt: 'pint',
+  pint: 'pint',
+  pints: 'pint',
+  qt: 'quart',
+  quart: 'quart',
+  quarts: 'quart',
+  gal: 'gallon',
+  gallon: 'gallon',
+  gallons: 'gallon',
+  ml: 'ml',
+  milliliter: 'ml',
+  milliliters: 'ml',
+  millilitre: 'ml',
+  millilitres: 'ml',
+  l: 'l',
+  liter: 'l',
+  liters: 'l',
+  litre: 'l',
+  litres: 'l',
+  oz: 'oz',
+  ounce: 'oz',
+  ounces: 'oz',
+  lb: 'lb',
+  lbs: 'lb',
+  pound: 'lb',
+  pounds: 'lb',
+  g: 'g',
+  gr: 'g',
+  gram: 'g',
+  grams: 'g',
+  gramme: 'g',
+  grammes: 'g',
+  kg: 'kg',
+  kilo: 'kg',
+  kilos: 'kg',
+  kilogram: 'kg',
+  kilograms: 'kg',
+  mg: 'mg',
+  milligram: 'mg',
+  milligrams: 'mg',
+  pinch: 'pinch',
+  pinches: 'pinch',
+  dash: 'dash',
+  dashes: 'dash',
+  clove: 'clove',
+  cloves: 'clove',
+  can: 'can',
+  cans: 'can',
+  tin: 'can',
+  tins: 'can',
+  jar: 'jar',
+  jars: 'jar',
+  package: 'package',
+  packages: 'package',
+  pkg: 'package',
+  pkgs: 'package',
+  packet: 'package',
+  packets: 'package',
+  stick: 'stick',
+  sticks: 'stick',
+  slice: 'slice',
+  slices: 'slice',
+  piece: 'piece',
+  pieces: 'piece',
+  pc: 'piece',
+  pcs: 'piece',
+  bunch: 'bunch',
+  bunches: 'bunch',
+  sprig: 'sprig',
+  sprigs: 'sprig',
+  stalk: 'stalk',
+  stalks: 'stalk',
+  head: 'head',
+  heads: 'head',
+  handful: 'handful',
+  handfuls: 'handful',
+};
+
+// Longest aliases first so "fl oz" wins over "fl" and "tbsp" over "t"
+const UNIT_ALIAS_KEYS = [
+  ...Object.keys(UNIT_ALIASES),
+  ...Object.keys(CASE_SENSITIVE_UNIT_ALIASES),
+].sort((a, b) => b.length - a.length);
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const UNIT_PATTERN = new RegExp(
+  `^(${UNIT_ALIAS_KEYS.map(escapeRegExp).join('|')})\\.?(?=\\s|$|[,;)])`,
+  'i'
+);
+
+// Mixed numbers ("1 1/2", "1-1/2") come first so the hyphen is not read as a range
+const NUMBER = String.raw`\d+(?:\s+|-)\d+\/\d+|\d+\/\d+|\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d*\.\d+|\d+(?:[.,]\d+)?`;
+const QUANTITY_PATTERN = new RegExp(
+  String.raw`^(${NUMBER})(?:\s*(-|–|—|to|or)\s*(${NUMBER}))?`,
+  'i'
+);
+
+const WORD_QUANTITIES: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  twelve: 12,
+  half: 0.5,
+  dozen: 12,
+};
+
+const WORD_QUANTITY_PATTERN = new RegExp(`^(${Object.keys(WORD_QUANTITIES).join('|')})\\b\\s*`, 'i');
+
+const normalizeUnicodeFractions = (value: string): string =>
+  value
+    .replace(/⁄/g, '/')
+    .replace(
+      /(\d)?\s*([¼-¾⅐-⅞])/g,
+      (_match, whole: string | undefined, fraction: string) =>
+        `${whole ? `${whole} ` : ''}${UNICODE_FRACTIONS[fraction] ?? fraction}`
+    );
+
+const roundQuantity = (value: number): number => Math.round(value * 1000) / 1000;
+
+// "1,000" / "12,500.5": a comma followed by exactly three digits groups thousands
+const THOUSANDS_PATTERN = /^\d{1,3}(?:,\d{3})+(?:\.\d+)?$/;
+
+/**
+ * Parse a numeric token: "1 1/2", "1-1/2", "3/4", "0.5", "1,5", "1,000"
+ */
+export function parseQuantityToken(token: string): number | null {
+  const trimmed = token.trim();
+  const mixed = trimmed.match(/^(\d+)(?:\s+|-)(\d+)\/(\d+)$/);
+  if (mixed) {
+    const denominator = Number(mixed[3]);
+    if (denominator === 0) return null;
+    return roundQuantity(Number(mixed[1]) + Number(mixed[2]) / denominator);
+  }
+
+  const fraction = trimmed.match(/^(\d+)\/(\d+)$/);
+  if (fraction) {
+    const denominator = Number(fraction[2]);
+    if (denominator === 0) return null;
+    return roundQuantity(Number(fraction[1]) / denominator);
+  }
+
+  const decimal = THOUSANDS_PATTERN.test(trimmed)
+    ? Number(trimmed.replace(/,/g, ''))
+    : Number(trimmed.replace(',', '.'));
+  return Number.isFinite(decimal) ? roundQuantity(decimal) : null;
+}
+
+/**
+ * Resolve a unit alias ("Tablespoons", "T", "lbs.") to its canonical unit
+ */
+export function normalizeUnit(value: string | null | undefined): CanonicalUnit | null {
+  if (!value) return null;
+  const trimmed = value.trim().replace(/\.$/, '');
+  if (CASE_SENSITIVE_UNIT_ALIASES[trimmed]) {
+    return CASE_SENSITIVE_UNIT_ALIASES[trimmed];
+  }
+  return UNIT_ALIASES[trimmed.toLowerCase()] ?? null;
+}
+
+const matchUnit = (value: string): { unit: CanonicalUnit; rest: string } | null => {
+  const match = value.match(UNIT_PATTERN);
+  if (!match) return null;
+
+  const token = match[1];
+  // Case-insensitive match of "T"/"t" must still honour the case-sensitive table
+  const unit = token.length <= 2 && CASE_SENSITIVE_UNIT_ALIASES[token]
+    ? CASE_SENSITIVE_UNIT_ALIASES[token]
+    : UNIT_ALIASES[token.toLowerCase()];
+  if (!unit) return null;
+
+  return { unit, rest: value.slice(match[0].length) };
+};
+
+const cleanIngredientName = (value: string): string | null => {
+  const cleaned = value
+    .replace(/\([^)]*\)/g, ' ')
+    .replace(/^\s*(?:x\s+)?of\s+/i, '')
+    .split(/[,;]/)[0]
+    .replace(/\s+(?:to taste|as needed|for serving|for garnish|optional)\b.*$/i, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+
+  return cleaned.length > 0 ? cleaned.slice(0, 200) : null;
+};
+
+/**
+ * Split a free-text ingredient line into its leading quantity, unit and the
+ * remaining text (original casing, prep notes kept) so it can be re-rendered.
+ */
+export function splitIngredientLine(rawText: string): IngredientLineParts {
+  let rest = normalizeUnicodeFractions(rawText)
+    .replace(/^\s*[-*•]\s*/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  let quantity: number | null = null;
+  let quantityMax: number | null = null;
+
+  const numeric = rest.match(QUANTITY_PATTERN);
+  if (numeric) {
+    const low = parseQuantityToken(numeric[1]);
+    const high = numeric[3] ? parseQuantityToken(numeric[3]) : null;
+
+    if (low === null || high === null || high > low) {
+      quantity = low;
+      quantityMax = high;
+      rest = rest.slice(numeric[0].length).trim();
+    } else if (/^\d+$/.test(numeric[1]) && ['-', '–', '—'].includes(numeric[2]) && high < 1) {
+      // "1 - 1/2": a whole number and a proper fraction is a mixed number, not a range
+      quantity = roundQuantity(low + high);
+      rest = rest.slice(numeric[0].length).trim();
+    }
+    // Any other descending "range" is left unparsed rather than losing half of it
+  } else {
+    const word = rest.match(WORD_QUANTITY_PATTERN);
+    if (word) {
+      const candidateRest = rest.slice(word[0].length).trim();
+      // "a pinch of salt" / "two eggs" count, but "a" alone in "a little oil" does not
+      const isArticle = ['a', 'an'].includes(word[1].toLowerCase());
+      if (!isArticle || matchUnit(candidateRest)) {
+        quantity = WORD_QUANTITIES[word[1].toLowerCase()];
+        rest = candidateRest;
+      }
+    }
+  }
+
+  // "1 (14 oz) can tomatoes": keep the size note between quantity and unit
+  const sizeNoteMatch = quantity !== null ? rest.match(/^\([^)]*\)\s*/) : null;
+  const sizeNote = sizeNoteMatch ? sizeNoteMatch[0].trim() : null;
+  const afterNote = sizeNoteMatch ? rest.slice(sizeNoteMatch[0].length) : rest;
+
+  let unit: CanonicalUnit | null = null;
+  const unitMatch = matchUnit(afterNote);
+  if (unitMatch) {
+    unit = unitMatch.unit;
+    rest = unitMatch.rest.trim();
+  }
+
+  return {
+    quantity,
+    quantity_max: quantityMax,
+    unit,
+    size_note: unit ? sizeNote : null,
+    remainder: unit ? rest : (sizeNote ? `${sizeNote} ${afterNote}`.trim() : rest),
+  };
+}
+
+/**
+ * Parse a free-text ingredient line into quantity, unit and ingredient name.
+ * Deterministic and best-effort: anything it cannot read is returned as null.
+ */
+export function parseIngredientLine(rawText: string): ParsedIngredient {
+  const parts = splitIngredientLine(rawText);
+  return {
+    quantity: parts.quantity,
+    quantity_max: parts.quantity_max,
+    unit: parts.unit,
+    ingredient_name: cleanIngredientName(parts.remainder),
+  };
+}
+
+/**
+ * Structured columns for a `recipe_ingredients` row, derived from raw_text
+ */
+export function toIngredientColumns(rawText: string): {
+  quantity: number | null;
+  unit: CanonicalUnit | null;
+  ingredient_name: string | null;
+} {
+  const parsed = parseIngredientLine(rawText);
+  return {
+    quantity: parsed.quantity,
+    unit: parsed.unit,
+    ingredient_name: parsed.ingredient_name,
+  };
+}
@@ -0,0 +1,3 @@
+export const MEAL_TYPES = ['breakfast', 'lunch', 'dinner', 'dessert'] as const;
+
+export type MealType = typeof MEAL_TYPES[number];
@@ -0,0 +1,216 @@
+import type { CanonicalUnit } from './ingredient-parser.js';
+
+export const NUTRIENT_KEYS = [
+  'calories',
+  'protein_g',
+  'fat_g',
+  'carbohydrates_g',
+  'fiber_g',
+  'sugar_g',
+  'sodium_mg',
+] as const;
+
+export type NutrientKey = typeof NUTRIENT_KEYS[number];
+
+export type Nutrients = Record<NutrientKey, number>;
+
+export type NutrientEntry = {
+  name: string;
+  pattern: RegExp;
+  per_100g: Nutrients;
+  // grams per millilitre, when cup/spoon measures are common
+  density?: number;
+  // weight of one item: "2 eggs", "1 onion"
+  piece_grams?: number;
+  // weight of one count unit ("clove", "slice", "can") for this ingredient
+  unit_grams?: Partial<Record<CanonicalUnit, number>>;
+};
+
+// kcal, protein, fat, carbohydrates, fiber, sugar (g) and sodium (mg) per 100 g
+const per100g = (
+  calories: number,
+  protein_g: number,
+  fat_g: number,
+  carbohydrates_g: number,
+  fiber_g: number,
+  sugar_g: number,
+  sodium_mg: number
+): Nutrients => ({ calories, protein_g, fat_g, carbohydrates_g, fiber_g, sugar_g, sodium_mg });
+
+/**
+ * Offline nutrient table, rounded from USDA FoodData Central (SR Legacy)
+ * values for the raw or as-sold form. Checked in order, most specific first:
+ * "peanut butter" before "butter", "chicken broth" before "chicken".
+ */
+export const NUTRIENT_TABLE: NutrientEntry[] = [
+  // Stocks, sauces and condiments
+  { name: 'broth', pattern: /\bbroth\b|\bstock\b|bouillon/, per_100g: per100g(15, 1.6, 0.5, 1.2, 0, 0.6, 343), density: 1 },
+  { name: 'coconut milk', pattern: /coconut milk|coconut cream/, per_100g: per100g(230, 2.3, 24, 5.5, 2.2, 3.3, 15), density: 1, unit_grams: { can: 400 } },
+  { name: 'almond milk', pattern: /almond milk|oat milk|soy milk/, per_100g: per100g(17, 0.6, 1.1, 1.5, 0.2, 0.7, 70), density: 1.03 },
+  { name: 'peanut butter', pattern: /peanut butter|almond butter/, per_100g: per100g(588, 25, 50, 20, 6, 9.2, 430), density: 1.1 },
+  { name: 'soy sauce', pattern: /soy sauce|tamari/, per_100g: per100g(53, 8.1, 0.6, 4.9, 0.8, 0.4, 5493), density: 1.15 },
+  { name: 'fish sauce', pattern: /fish sauce/, per_100g: per100g(35, 5.1, 0, 3.6, 0, 3.6, 7851), density: 1.2 },
+  { name: 'worcestershire sauce', pattern: /worcestershire/, per_100g: per100g(78, 0, 0, 19.5, 0, 10, 1010), density: 1.1 },
+  { name: 'hot sauce', pattern: /hot sauce|sriracha|tabasco/, per_100g: per100g(40, 0.9, 0.4, 8, 0.8, 5, 2600), density: 1.05 },
+  { name: 'ketchup', pattern: /ketchup/, per_100g: per100g(101, 1, 0.1, 27, 0.3, 22, 907), density: 1.15 },
+  { name: 'mayonnaise', pattern: /mayo(?:nnaise)?\b/, per_100g: per100g(680, 1, 75, 0.6, 0, 0.6, 635), density: 0.91 },
+  { name: 'mustard', pattern: /mustard(?! seed| powder)/, per_100g: per100g(60, 3.7, 3.3, 5.8, 4, 0.9, 1120), density: 1.05 },
+  { name: 'balsamic vinegar', pattern: /balsamic/, per_100g: per100g(88, 0.5, 0, 17, 0, 15, 23), density: 1.06 },
+  { name: 'vinegar', pattern: /vinegar/, per_100g: per100g(18, 0, 0, 0, 0, 0, 2), density: 1 },
+  { name: 'tomato paste', pattern: /tomato paste|tomato puree/, per_100g: per100g(82, 4.3, 0.5, 19, 4.1, 12, 59), density: 1.1, unit_grams: { can: 170 } },
+  { name: 'tomato sauce', pattern: /tomato sauce|marinara|passata/, per_100g: per100g(24, 1.2, 0.3, 5.3, 1.5, 3.6, 474), density: 1.03, unit_grams: { can: 425, jar: 680 } },
+  { name: 'canned tomatoes', pattern: /(?:canned|crushed|diced|chopped|whole peeled|stewed) tomatoes/, per_100g: per100g(32, 1.6, 0.3, 7.3, 1.9, 4.4, 132), density: 1.02, unit_grams: { can: 400 } },
+  { name: 'salsa', pattern: /\bsalsa\b/, per_100g: per100g(36, 1.5, 0.2, 7, 1.9, 4, 711), density: 1.05 },
+  { name: 'pesto', pattern: /\bpesto\b/, per_100g: per100g(450, 5, 45, 6, 1.5, 1, 800), density: 1, unit_grams: { jar: 190 } },
+  { name: 'tahini', pattern: /tahini/, per_100g: per100g(595, 17, 54, 21, 9.3, 0.5, 115), density: 1.02 },
+  { name: 'miso', pattern: /\bmiso\b/, per_100g: per100g(198, 12, 6, 26, 5.4, 6.2, 3728), density: 1.15 },
+  { name: 'honey', pattern: /honey/, per_100g: per100g(304, 0.3, 0, 82, 0.2, 82, 4) },
+  { name: 'maple syrup', pattern: /maple syrup|agave|golden syrup|corn syrup|molasses/, per_100g: per100g(260, 0, 0.1, 67, 0, 60, 12) },
+  { name: 'vanilla extract', pattern: /vanilla/, per_100g: per100g(288, 0.1, 0.1, 12.7, 0, 12.7, 9), density: 0.88 },
+
+  // Dairy and eggs
+  { name: 'buttermilk', pattern: /buttermilk/, per_100g: per100g(40, 3.3, 0.9, 4.8, 0, 4.8, 105) },
+  { name: 'cream cheese', pattern: /cream cheese|mascarpone/, per_100g: per100g(342, 6, 34, 4.1, 0, 3.2, 321), density: 1.02, unit_grams: { package: 226 } },
+  { name: 'sour cream', pattern: /sour cream|creme fraiche|crème fraîche/, per_100g: per100g(198, 2.4, 19, 4.6, 0, 3.4, 31) },
+  { name: 'greek yogurt', pattern: /greek yog(?:h)?urt/, per_100g: per100g(97, 9, 5, 3.9, 0, 3.6, 35), density: 1.05 },
+  { name: 'yogurt', pattern: /yog(?:h)?urt/, per_100g: per100g(61, 3.5, 3.3, 4.7, 0, 4.7, 46) },
+  { name: 'heavy cream', pattern: /heavy cream|whipping cream|double cream/, per_100g: per100g(340, 2.8, 36, 2.7, 0, 2.9, 27) },
+  { name: 'half and half', pattern: /half[- ]and[- ]half|light cream|single cream|\bcream\b/, per_100g: per100g(131, 3.1, 11.5, 4.3, 0, 4.1, 61), density: 1.01 },
+  { name: 'milk', pattern: /\bmilk\b/, per_100g: per100g(61, 3.2, 3.3, 4.8, 0, 5.1, 43) },
+  { name: 'butter', pattern: /butter|\bghee\b/, per_100g: per100g(717, 0.9, 81, 0.1, 0, 0.1, 11), unit_grams: { stick: 113 } },
+  { name: 'parmesan', pattern: /parmesan|parmigiano|pecorino|grana padano/, per_100g: per100g(431, 38, 29, 4.1, 0, 0.9, 1529) },
+  { name: 'feta', pattern: /\bfeta\b/, per_100g: per100g(264, 14.2, 21.3, 4.1, 0, 4.1, 917), density: 0.6 },
+  { name: 'ricotta', pattern: /ricotta|cottage cheese/, per_100g: per100g(174, 11.3, 13, 3, 0, 0.3, 84), density: 1.05 },
+  { name: 'mozzarella', pattern: /mozzarella/, per_100g: per100g(300, 22, 22, 2.2, 0, 1, 627) },
+  { name: 'cheese', pattern: /cheese|cheddar|gruyere|gruyère|monterey jack|swiss|provolone/, per_100g: per100g(403, 24.9, 33, 1.3, 0, 0.5, 621), unit_grams: { slice: 21 } },
+  { name: 'egg white', pattern: /egg whites?/, per_100g: per100g(52, 10.9, 0.2, 0.7, 0, 0.7, 166), piece_grams: 33 },
+  { name: 'egg yolk', pattern: /egg yolks?/, per_100g: per100g(322, 15.9, 26.5, 3.6, 0, 0.6, 48), piece_grams: 17 },
+  { name: 'egg', pattern: /\beggs?\b(?! noodles)/, per_100g: per100g(143, 12.6, 9.5, 0.7, 0, 0.4, 142), piece_grams: 50, density: 1.03 },
+
+  // Meat, fish and protein
+  { name: 'bacon', pattern: /bacon|pancetta/, per_100g: per100g(417, 12.6, 40, 1.3, 0, 0, 833), piece_grams: 25, unit_grams: { slice: 25 } },
+  { name: 'ham', pattern: /\bham\b|prosciutto/, per_100g: per100g(145, 21, 6, 1.5, 0, 0, 1200), unit_grams: { slice: 28 } },
+  { name: 'sausage', pattern: /sausage|chorizo|bratwurst/, per_100g: per100g(300, 13, 27, 1.7, 0, 0.8, 750), piece_grams: 75 },
+  { name: 'chicken breast', pattern: /chicken breasts?/, per_100g: per100g(120, 22.5, 2.6, 0, 0, 0, 45), piece_grams: 200 },
+  { name: 'chicken thigh', pattern: /chicken thighs?/, per_100g: per100g(121, 19.7, 4.1, 0, 0, 0, 95), piece_grams: 115 },
+  { name: 'chicken', pattern: /chicken|turkey/, per_100g: per100g(150, 20, 7.5, 0, 0, 0, 70), density: 0.6 },
+  { name: 'ground beef', pattern: /ground beef|minced beef|beef mince|hamburger/, per_100g: per100g(215, 18.6, 15, 0, 0, 0, 66), density: 0.9 },
+  { name: 'beef', pattern: /beef|steak|sirloin|brisket|chuck/, per_100g: per100g(160, 21, 8, 0, 0, 0, 55) },
+  { name: 'pork', pattern: /pork|lamb|veal/, per_100g: per100g(143, 21, 6, 0, 0, 0, 50), piece_grams: 150 },
+  { name: 'salmon', pattern: /salmon|trout|mackerel/, per_100g: per100g(208, 20, 13, 0, 0, 0, 59), piece_grams: 170 },
+  { name: 'tuna', pattern: /\btuna\b/, per_100g: per100g(116, 25.5, 0.8, 0, 0, 0, 247), unit_grams: { can: 140 } },
+  { name: 'shrimp', pattern: /shrimp|prawns?\b|scallops?/, per_100g: per100g(85, 20, 0.5, 0, 0, 0, 119), density: 0.6 },
+  { name: 'white fish', pattern: /\bcod\b|tilapia|halibut|haddock|white fish|\bfish\b/, per_100g: per100g(82, 18, 0.7, 0, 0, 0, 54), piece_grams: 150 },
+  { name: 'tofu', pattern: /tofu|tempeh/, per_100g: per100g(76, 8, 4.8, 1.9, 0.3, 0.6, 7), unit_grams: { package: 400 } },
+
+  // Spices and seasonings
+  { name: 'salt', pattern: /\bsalt\b/, per_100g: per100g(0, 0, 0, 0, 0, 0, 38758) },
+  { name: 'baking soda', pattern: /baking soda|bicarbonate/, per_100g: per100g(0, 0, 0, 0, 0, 0, 27360) },
+  { name: 'baking powder', pattern: /baking powder/, per_100g: per100g(53, 0, 0, 28, 0.2, 0, 10600) },
+  { name: 'yeast', pattern: /\byeast\b/, per_100g: per100g(325, 40, 7.6, 41, 27, 0, 51), density: 0.6, unit_grams: { package: 7 } },
+  { name: 'black pepper', pattern: /black pepper|white pepper|peppercorns|^pepper$|ground pepper/, per_100g: per100g(251, 10, 3.3, 64, 25, 0.6, 20), density: 0.45 },
+  {
+    name: 'dried spices',
+    pattern: /cumin|paprika|cinnamon|nutmeg|oregano|turmeric|chil(?:i|li) powder|curry powder|garam masala|cayenne|pepper flakes|chil(?:i|li) flakes|garlic powder|onion powder|ground (?:ginger|coriander|cloves|allspice)|dried (?:basil|thyme|rosemary|parsley|dill|sage)|italian seasoning|seasoning|\bspice\b|allspice|cardamom|bay lea/,
+    per_100g: per100g(300, 12, 10, 55, 30, 3, 80),
+    density: 0.5,
+  },
+  { name: 'ginger', pattern: /ginger/, per_100g: per100g(80, 1.8, 0.8, 17.8, 2, 1.7, 13), density: 0.6 },
+  {
+    name: 'fresh herbs',
+    pattern: /basil|parsley|cilantro|coriander|mint|\bdill\b|thyme|rosemary|\bsage\b|chives|tarragon/,
+    per_100g: per100g(30, 3, 0.6, 5, 3, 0.5, 40),
+    density: 0.1,
+    unit_grams: { bunch: 50, sprig: 1, handful: 15 },
+  },
+
+  // Baking and pantry
+  { name: 'almond flour', pattern: /almond flour|almond meal|ground almonds/, per_100g: per100g(571, 21, 50, 21, 10, 4, 1) },
+  { name: 'whole wheat flour', pattern: /whole wheat flour|wholemeal flour/, per_100g: per100g(340, 13.2, 2.5, 72, 10.7, 0.4, 2) },
+  { name: 'bread flour', pattern: /bread flour/, per_100g: per100g(361, 12, 1.7, 72.5, 2.4, 0.3, 2) },
+  { name: 'cornmeal', pattern: /cornmeal|polenta|masa/, per_100g: per100g(370, 8.5, 3.6, 77, 7.3, 0.6, 35), density: 0.68 },
+  { name: 'cornstarch', pattern: /cornstarch|corn starch|cornflour/, per_100g: per100g(381, 0.3, 0.1, 91, 0.9, 0, 9) },
+  { name: 'flour', pattern: /flour/, per_100g: per100g(364, 10.3, 1, 76.3, 2.7, 0.3, 2) },
+  { name: 'cocoa powder', pattern: /cocoa/, per_100g: per100g(228, 19.6, 13.7, 58, 37, 1.8, 21) },
+  { name: 'chocolate', pattern: /chocolate/, per_100g: per100g(480, 4.2, 30, 64, 5.9, 54, 11) },
+  { name: 'brown sugar', pattern: /brown sugar/, per_100g: per100g(380, 0.1, 0, 98, 0, 97, 28) },
+  { name: 'powdered sugar', pattern: /powdered sugar|icing sugar|confectioners/, per_100g: per100g(389, 0, 0, 100, 0, 98, 2) },
+  { name: 'sugar', pattern: /sugar/, per_100g: per100g(387, 0, 0, 100, 0, 100, 1) },
+  { name: 'oil', pattern: /\boil\b|shortening|lard/, per_100g: per100g(884, 0, 100, 0, 0, 0, 2) },
+  { name: 'brown rice', pattern: /brown rice|wild rice/, per_100g: per100g(370, 7.9, 2.9, 77, 3.5, 0.9, 7), density: 0.8 },
+  { name: 'rice', pattern: /\brice\b|risotto|arborio/, per_100g: per100g(365, 7.1, 0.7, 80, 1.3, 0.1, 5) },
+  { name: 'pasta', pattern: /pasta|spaghetti|penne|macaroni|linguine|fettuccine|rigatoni|fusilli|lasagna|noodles?/, per_100g: per100g(371, 13, 1.5, 75, 3.2, 2.7, 6), density: 0.42, unit_grams: { package: 454 } },
+  { name: 'oats', pattern: /\boats\b|oatmeal/, per_100g: per100g(379, 13.2, 6.5, 67.7, 10.1, 1, 6) },
+  { name: 'quinoa', pattern: /quinoa/, per_100g: per100g(368, 14, 6, 64, 7, 0, 5), density: 0.72 },
+  { name: 'couscous', pattern: /couscous|bulgur/, per_100g: per100g(376, 12.8, 0.6, 77, 5, 0, 10), density: 0.73 },
+  { name: 'lentils', pattern: /lentils/, per_100g: per100g(352, 24.6, 1.1, 63, 10.7, 2, 6), density: 0.8 },
+  { name: 'chickpeas', pattern: /chickpeas|garbanzo/, per_100g: per100g(139, 7.1, 2.5, 22.5, 6.2, 4, 246), density: 0.65, unit_grams: { can: 250 } },
+  { name: 'beans', pattern: /(?<!green |string )\bbeans\b/, per_100g: per100g(91, 6, 0.4, 16, 6.5, 0.3, 240), density: 0.7, unit_grams: { can: 250 } },
+  { name: 'breadcrumbs', pattern: /breadcrumbs|bread crumbs|panko/, per_100g: per100g(395, 13, 5, 72, 4.5, 6, 732) },
+  { name: 'corn tortilla', pattern: /corn tortillas?/, per_100g: per100g(218, 5.7, 2.9, 44.6, 6.3, 0.9, 45), piece_grams: 26 },
+  { name: 'tortilla', pattern: /tortillas?|wraps?\b|pita|naan/, per_100g: per100g(306, 8, 8, 50, 3.5, 3, 736), piece_grams: 45 },
+  { name: 'bread', pattern: /\bbread\b|baguette|\bbuns?\b|rolls?\b|bagels?/, per_100g: per100g(265, 9, 3.2, 49, 2.7, 5, 491), piece_grams: 60, unit_grams: { slice: 30 } },
+  { name: 'almonds', pattern: /almonds/, per_100g: per100g(579, 21, 50, 22, 12.5, 4.4, 1) },
+  { name: 'nuts', pattern: /walnuts|pecans|cashews|pistachios|hazelnuts|peanuts|pine nuts|\bnuts\b/, per_100g: per100g(640, 16, 62, 16, 7, 4, 4) },
+  { name: 'seeds', pattern: /seeds/, per_100g: per100g(573, 17.7, 49.7, 23.5, 11.8, 0.3, 11), density: 0.6 },
+  { name: 'raisins', pattern: /raisins|dried cranberries|dates|dried apricots/, per_100g: per100g(299, 3.1, 0.5, 79, 3.7, 59, 11) },
+
+  // Produce
+  { name: 'lemon juice', pattern: /(?:lemon|lime) juice/, per_100g: per100g(22, 0.4, 0.2, 6.9, 0.3, 2.5, 1), density: 1.03 },
+  { name: 'lemon', pattern: /lemons?|limes?/, per_100g: per100g(29, 1.1, 0.3, 9.3, 2.8, 2.5, 2), piece_grams: 80, density: 0.5 },
+  { name: 'orange', pattern: /oranges?/, per_100g: per100g(47, 0.9, 0.1, 11.8, 2.4, 9.4, 0), piece_grams: 140 },
+  { name: 'garlic', pattern: /garlic/, per_100g: per100g(149, 6.4, 0.5, 33, 2.1, 1, 17), piece_grams: 3, density: 0.6, unit_grams: { clove: 3, head: 40 } },
+  { name: 'green onion', pattern: /green onions?|scallions?|spring onions?/, per_100g: per100g(32, 1.8, 0.2, 7.3, 2.6, 2.3, 16), piece_grams: 15, density: 0.4, unit_grams: { bunch: 100, stalk: 15 } },
+  { name: 'shallot', pattern: /shallots?/, per_100g: per100g(72, 2.5, 0.1, 16.8, 3.2, 7.9, 12), piece_grams: 25, density: 0.68 },
+  { name: 'onion', pattern: /onions?|leeks?/, per_100g: per100g(40, 1.1, 0.1, 9.3, 1.7, 4.2, 4), piece_grams: 110, density: 0.68 },
+  { name: 'sweet potato', pattern: /sweet potato(?:es)?|yams?/, per_100g: per100g(86, 1.6, 0.1, 20, 3, 4.2, 55), piece_grams: 130, density: 0.56 },
+  { name: 'potato', pattern: /potato(?:es)?/, per_100g: per100g(77, 2, 0.1, 17.5, 2.2, 0.8, 6), piece_grams: 210, density: 0.63 },
+  { name: 'tomato', pattern: /tomato(?:es)?/, per_100g: per100g(18, 0.9, 0.2, 3.9, 1.2, 2.6, 5), piece_grams: 123, density: 0.76 },
+  { name: 'carrot', pattern: /carrots?/, per_100g: per100g(41, 0.9, 0.2, 9.6, 2.8, 4.7, 69), piece_grams: 61, density: 0.54 },
+  { name: 'celery', pattern: /celery/, per_100g: per100g(14, 0.7, 0.2, 3, 1.6, 1.3, 80), piece_grams: 40, density: 0.43, unit_grams: { stalk: 40 } },
+  { name: 'jalapeno', pattern: /jalape(?:n|ñ)os?|chil(?:i|li)(?:e?s)?\b|serrano/, per_100g: per100g(29, 0.9, 0.4, 6.5, 2.8, 4.1, 3), piece_grams: 14 },
+  { name: 'bell pepper', pattern: /bell peppers?|(?:red|green|yellow|orange) peppers?|capsicum/, per_100g: per100g(26, 1, 0.3, 6, 2.1, 4.2, 4), piece_grams: 120, density: 0.63 },
+  { name: 'mushrooms', pattern: /mushrooms?/, per_100g: per100g(22, 3.1, 0.3, 3.3, 1, 2, 5), piece_grams: 18, density: 0.3 },
+  { name: 'spinach', pattern: /spinach|arugula|rocket|lettuce|greens|chard/, per_100g: per100g(23, 2.9, 0.4, 3.6, 2.2, 0.4, 79), density: 0.13, unit_grams: { handful: 30, bunch: 300, head: 500 } },
+  { name: 'kale', pattern: /\bkale\b|collard/, per_100g: per100g(35, 2.9, 1.5, 4.4, 4.1, 1, 53), density: 0.28, unit_grams: { bunch: 200 } },
+  { name: 'broccoli', pattern: /broccoli/, per_100g: per100g(34, 2.8, 0.4, 6.6, 2.6, 1.7, 33), density: 0.38, unit_grams: { head: 300 } },
+  { name: 'cauliflower', pattern: /cauliflower/, per_100g: per100g(25, 1.9, 0.3, 5, 2, 1.9, 30), density: 0.45, unit_grams: { head: 575 } },
+  { name: 'cabbage', pattern: /cabbage|brussels sprouts/, per_100g: per100g(25, 1.3, 0.1, 5.8, 2.5, 3.2, 18), density: 0.38, unit_grams: { head: 900 } },
+  { name: 'zucchini', pattern: /zucchini|courgettes?|squash/, per_100g: per100g(17, 1.2, 0.3, 3.1, 1, 2.5, 8), piece_grams: 200, density: 0.53 },
+  { name: 'eggplant', pattern: /eggplants?|aubergines?/, per_100g: per100g(25, 1, 0.2, 5.9, 3, 3.5, 2), piece_grams: 450, density: 0.35 },
+  { name: 'cucumber', pattern: /cucumbers?/, per_100g: per100g(15, 0.7, 0.1, 3.6, 0.5, 1.7, 2), piece_grams: 300, density: 0.55 },
+  { name: 'corn', pattern: /\bcorn\b/, per_100g: per100g(86, 3.3, 1.4, 19, 2.7, 6.3, 15), piece_grams: 100, density: 0.65 },
+  { name: 'peas', pattern: /\bpeas\b/, per_100g: per100g(81, 5.4, 0.4, 14.5, 5.7, 5.7, 5), density: 0.61 },
+  { name: 'green beans', pattern: /green beans|string beans|asparagus/, per_100g: per100g(31, 1.8, 0.2, 7, 2.7, 3.3, 6), density: 0.45 },
+  { name: 'avocado', pattern: /avocados?/, per_100g: per100g(160, 2, 14.7, 8.5, 6.7, 0.7, 7), piece_grams: 150, density: 0.6 },
+  { name: 'apple', pattern: /apples?\b/, per_100g: per100g(52, 0.3, 0.2, 13.8, 2.4, 10.4, 1), piece_grams: 180, density: 0.5 },
+  { name: 'banana', pattern: /bananas?/, per_100g: per100g(89, 1.1, 0.3, 22.8, 2.6, 12.2, 1), piece_grams: 118, density: 0.95 },
+  { name: 'berries', pattern: /berr(?:y|ies)/, per_100g: per100g(45, 0.8, 0.3, 11, 2.5, 7, 1), density: 0.62 },
+
+  // Drinks
+  { name: 'wine', pattern: /\bwine\b|sherry|marsala/, per_100g: per100g(83, 0.1, 0, 2.6, 0, 0.6, 5), density: 1 },
+  { name: 'beer', pattern: /\bbeer\b|\bale\b|lager|stout/, per_100g: per100g(43, 0.5, 0, 3.6, 0, 0, 4), density: 1 },
+  { name: 'water', pattern: /\bwater\b|\bice\b/, per_100g: per100g(0, 0, 0, 0, 0, 0, 4), density: 1 },
+];
+
+// Fallback weights for count units when the ingredient has no own value
+export const COUNT_UNIT_GRAMS: Partial<Record<CanonicalUnit, number>> = {
+  pinch: 0.36,
+  dash: 0.6,
+  handful: 30,
+  sprig: 1,
+  stalk: 40,
+  bunch: 100,
+  can: 400,
+  jar: 340,
+  package: 250,
+};
+
+/**
+ * Nutrient table entry for an ingredient name, if it is one we know
+ */
+export function findNutrientEntry(ingredientName: string | null | undefined): NutrientEntry | null {
+  if (!ingredientName) return null;
+  const normalized = ingredientName.toLowerCase();
+  return NUTRIENT_TABLE.find((entry) => entry.pattern.test(normalized)) ?? null;
+}
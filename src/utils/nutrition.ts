@@ -0,0 +1,127 @@
+import { splitIngredientLine, parseIngredientLine, type CanonicalUnit } from './ingredient-parser.js';
+import { isPantryStaple } from './ingredient-matching.js';
+import { findIngredientDensity, toBaseAmount } from './unit-conversion.js';
+import {
+  COUNT_UNIT_GRAMS,
+  NUTRIENT_KEYS,
+  findNutrientEntry,
+  type NutrientEntry,
+  type Nutrients,
+} from './nutrition-data.js';
+
+export type RecipeNutrition = {
+  per_serving: Nutrients;
+  // servings the totals were divided by (1 when the recipe has none)
+  servings: number;
+  // share of the quantified ingredients that were matched and weighed, 0-1
+  confidence: number;
+  // raw_text of lines left out of the totals
+  unmatched_ingredients: string[];
+};
+
+// Lines with no amount that add nothing worth counting
+const NEGLIGIBLE_PATTERN = /\b(?:to taste|as needed|for garnish|for serving|for greasing|optional|cooking spray)\b/i;
+
+const round1 = (value: number): number => Math.round(value * 10) / 10;
+
+const emptyNutrients = (): Nutrients =>
+  Object.fromEntries(NUTRIENT_KEYS.map((key) => [key, 0])) as Nutrients;
+
+// Weight of a "(14 oz)" size note, for cans, jars and packages
+const sizeNoteGrams = (sizeNote: string | null, density: number): number | null => {
+  if (!sizeNote) return null;
+  const parts = splitIngredientLine(sizeNote.replace(/[()]/g, '').replace(/-/g, ' '));
+  if (parts.quantity === null) return null;
+  const base = toBaseAmount(parts.quantity, parts.unit);
+  if (!base) return null;
+  return base.kind === 'mass' ? base.amount : base.amount * density;
+};
+
+/**
+ * Grams of an ingredient line, or null when its amount cannot be weighed
+ */
+function ingredientGrams(
+  quantity: number,
+  unit: CanonicalUnit | null,
+  sizeNote: string | null,
+  entry: NutrientEntry,
+  ingredientName: string
+): number | null {
+  const density = entry.density ?? findIngredientDensity(ingredientName)?.density ?? 1;
+
+  const base = toBaseAmount(quantity, unit);
+  if (base) {
+    return base.kind === 'mass' ? base.amount : base.amount * density;
+  }
+
+  if (!unit || unit === 'piece') {
+    return entry.piece_grams ? quantity * entry.piece_grams : null;
+  }
+
+  const unitGrams = sizeNoteGrams(sizeNote, density) ?? entry.unit_grams?.[unit] ?? COUNT_UNIT_GRAMS[unit];
+  return unitGrams ? quantity * unitGrams : null;
+}
+
+/**
+ * Nutrition per serving from ingredient lines, using the bundled nutrient
+ * table. Lines that cannot be matched or weighed are listed in
+ * `unmatched_ingredients` and lower `confidence`; "salt to taste" style
+ * lines are ignored. Returns null for a recipe with no ingredients.
+ */
+export function computeRecipeNutrition(
+  ingredients: Array<{ raw_text: string }>,
+  servings: number | null | undefined
+): RecipeNutrition | null {
+  if (ingredients.length === 0) {
+    return null;
+  }
+
+  const totals = emptyNutrients();
+  const unmatched: string[] = [];
+  let counted = 0;
+  let matched = 0;
+
+  for (const ingredient of ingredients) {
+    const parts = splitIngredientLine(ingredient.raw_text);
+    const name = parseIngredientLine(ingredient.raw_text).ingredient_name;
+
+    if (parts.quantity === null && (!name || isPantryStaple(name) || NEGLIGIBLE_PATTERN.test(ingredient.raw_text))) {
+      continue;
+    }
+    counted += 1;
+
+    const entry = findNutrientEntry(name);
+    // A range ("2-3 cloves") counts as its midpoint
+    const quantity = parts.quantity !== null && parts.quantity_max !== null
+      ? (parts.quantity + parts.quantity_max) / 2
+      : parts.quantity;
+    const grams = entry && name && quantity !== null
+      ? ingredientGrams(quantity, parts.unit, parts.size_note, entry, name)
+      : null;
+
+    if (!entry || grams === null) {
+      unmatched.push(ingredient.raw_text);
+      continue;
+    }
+
+    matched += 1;
+    for (const key of NUTRIENT_KEYS) {
+      totals[key] += (entry.per_100g[key] * grams) / 100;
+    }
+  }
+
+  const divisor = servings && servings > 0 ? servings : 1;
+  const perServing = emptyNutrients();
+  for (const key of NUTRIENT_KEYS) {
+    perServing[key] = key === 'calories' || key === 'sodium_mg'
+      ? Math.round(totals[key] / divisor)
+      : round1(totals[key] / divisor);
+  }
+
+  return {
+    per_serving: perServing,
+    servings: divisor,
+    confidence: counted > 0 ? Math.round((matched / counted) * 100) / 100 : 0,
+    unmatched_ingredients: unmatched,
+  };
+}
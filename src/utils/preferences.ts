@@ -0,0 +1,173 @@
+import type { UserPreferences } from '../types/index.js';
+import { normalizeDietaryLabels, type CanonicalDietaryLabel } from './dietary-labels.js';
+import { normalizeCuisine, type CanonicalCuisine } from './cuisines.js';
+import { findExcludedIngredients } from './ingredient-matching.js';
+import { normalizeAllergens } from './allergens.js';
+
+export const SKILL_LEVELS = ['beginner', 'intermediate', 'advanced'] as const;
+export type SkillLevel = typeof SKILL_LEVELS[number];
+
+export type PreferenceFields = Omit<UserPreferences, 'user_id' | 'created_at' | 'updated_at'>;
+
+export const DEFAULT_PREFERENCES: PreferenceFields = {
+  dietary_restrictions: [],
+  preferred_cuisines: [],
+  excluded_ingredients: [],
+  skill_level: null,
+  max_total_time_minutes: null,
+  household_size: null,
+  disliked_cuisines: [],
+  allergens: [],
+};
+
+export type RecipePreferences = Pick<
+  UserPreferences,
+  'dietary_restrictions' | 'preferred_cuisines' | 'excluded_ingredients'
+> & Partial<Omit<PreferenceFields, 'dietary_restrictions' | 'preferred_cuisines' | 'excluded_ingredients'>>;
+
+export type PreferenceCandidate = {
+  dietary_labels: string[] | null;
+  cuisine: string | null;
+  ingredient_names: string[];
+  total_time_minutes?: number | null;
+};
+
+export type PreferenceEvaluation = {
+  allowed: boolean;
+  // e.g. "not vegan", "contains peanut"
+  violations: string[];
+  // > 0 when the recipe is in a preferred cuisine
+  boost: number;
+};
+
+// A label that guarantees others: vegan food is also vegetarian and dairy-free
+const IMPLIED_LABELS: Partial<Record<CanonicalDietaryLabel, CanonicalDietaryLabel[]>> = {
+  vegan: ['vegetarian', 'dairy_free'],
+};
+
+const PREFERRED_CUISINE_BOOST = 1;
+
+export const canonicalizeCuisines = (values: string[]): CanonicalCuisine[] =>
+  Array.from(new Set(
+    values
+      .map((value) => normalizeCuisine(value))
+      .filter((value): value is CanonicalCuisine => value !== null)
+  ));
+
+export const canonicalizeIngredientNames = (values: string[]): string[] =>
+  Array.from(new Set(
+    values
+      .map((value) => value.trim().replace(/\s+/g, ' ').toLowerCase())
+      .filter(Boolean)
+  ));
+
+const isSkillLevel = (value: unknown): value is SkillLevel =>
+  SKILL_LEVELS.includes(value as SkillLevel);
+
+/**
+ * Canonicalize stored preferences. Rows written before validation existed can
+ * hold free-form values; anything that does not map to a canonical value is dropped.
+ */
+export function canonicalizePreferences(row: Partial<PreferenceFields>): PreferenceFields {
+  return {
+    dietary_restrictions: normalizeDietaryLabels(row.dietary_restrictions ?? []),
+    preferred_cuisines: canonicalizeCuisines(row.preferred_cuisines ?? []),
+    excluded_ingredients: canonicalizeIngredientNames(row.excluded_ingredients ?? []),
+    skill_level: isSkillLevel(row.skill_level) ? row.skill_level : null,
+    max_total_time_minutes: row.max_total_time_minutes ?? null,
+    household_size: row.household_size ?? null,
+    disliked_cuisines: canonicalizeCuisines(row.disliked_cuisines ?? []),
+    allergens: normalizeAllergens(row.allergens ?? []),
+  };
+}
+
+export const hasActivePreferences = (preferences: RecipePreferences): boolean =>
+  preferences.dietary_restrictions.length > 0 ||
+  preferences.preferred_cuisines.length > 0 ||
+  preferences.excluded_ingredients.length > 0 ||
+  (preferences.disliked_cuisines?.length ?? 0) > 0 ||
+  Boolean(preferences.max_total_time_minutes);
+
+/**
+ * Check a recipe against dietary restrictions, excluded ingredients, disliked
+ * cuisines and the time limit. Recipes with no dietary labels cannot prove
+ * compliance and are rejected when the user has restrictions; recipes with
+ * unknown timings pass the time limit.
+ */
+export function evaluateRecipePreferences(
+  recipe: PreferenceCandidate,
+  preferences: RecipePreferences
+): PreferenceEvaluation {
+  const violations: string[] = [];
+
+  const required = normalizeDietaryLabels(preferences.dietary_restrictions);
+  if (required.length > 0) {
+    const labels = new Set<CanonicalDietaryLabel>(normalizeDietaryLabels(recipe.dietary_labels ?? []));
+    for (const label of [...labels]) {
+      IMPLIED_LABELS[label]?.forEach((implied) => labels.add(implied));
+    }
+    for (const label of required) {
+      if (!labels.has(label)) violations.push(`not ${label}`);
+    }
+  }
+
+  for (const term of findExcludedIngredients(recipe.ingredient_names, preferences.excluded_ingredients)) {
+    violations.push(`contains ${term}`);
+  }
+
+  const cuisine = normalizeCuisine(recipe.cuisine);
+  if (cuisine && canonicalizeCuisines(preferences.disliked_cuisines ?? []).includes(cuisine)) {
+    violations.push(`${cuisine} cuisine`);
+  }
+
+  const maxMinutes = preferences.max_total_time_minutes;
+  if (maxMinutes && recipe.total_time_minutes && recipe.total_time_minutes > maxMinutes) {
+    violations.push(`takes ${recipe.total_time_minutes} minutes`);
+  }
+
+  const preferredCuisines = canonicalizeCuisines(preferences.preferred_cuisines);
+  const boost = cuisine && preferredCuisines.includes(cuisine) ? PREFERRED_CUISINE_BOOST : 0;
+
+  return { allowed: violations.length === 0, violations, boost };
+}
+
+/**
+ * Prompt lines that carry the user's preferences into AI generation
+ */
+export function buildPreferenceConstraints(preferences: RecipePreferences): string[] {
+  const lines: string[] = [];
+
+  const restrictions = normalizeDietaryLabels(preferences.dietary_restrictions);
+  if (restrictions.length > 0) {
+    lines.push(`The recipe MUST be: ${restrictions.join(', ')}. Include these in dietary_labels.`);
+  }
+
+  const excluded = canonicalizeIngredientNames(preferences.excluded_ingredients);
+  if (excluded.length > 0) {
+    lines.push(`Never use these ingredients (or products containing them): ${excluded.join(', ')}.`);
+  }
+
+  const cuisines = canonicalizeCuisines(preferences.preferred_cuisines);
+  if (cuisines.length > 0) {
+    lines.push(`If the request does not name a cuisine, prefer one of: ${cuisines.join(', ')}.`);
+  }
+
+  const disliked = canonicalizeCuisines(preferences.disliked_cuisines ?? []);
+  if (disliked.length > 0) {
+    lines.push(`Unless the request asks for it, avoid these cuisines: ${disliked.join(', ')}.`);
+  }
+
+  if (preferences.max_total_time_minutes) {
+    lines.push(`Total prep and cook time should not exceed ${preferences.max_total_time_minutes} minutes.`);
+  }
+
+  if (preferences.skill_level) {
+    lines.push(`Pitch the techniques at a ${preferences.skill_level} cook.`);
+  }
+
+  if (preferences.household_size) {
+    lines.push(`Unless the request says otherwise, serve ${preferences.household_size}.`);
+  }
+
+  return lines;
+}
@@ -0,0 +1,121 @@
+import type { CanonicalUnit, IngredientLineParts } from './ingredient-parser.js';
+
+// Kitchen-friendly fractions, checked in order of preference
+const FRACTIONS: Array<[number, string]> = [
+  [1 / 2, '1/2'],
+  [1 / 4, '1/4'],
+  [3 / 4, '3/4'],
+  [1 / 3, '1/3'],
+  [2 / 3, '2/3'],
+  [1 / 8, '1/8'],
+  [3 / 8, '3/8'],
+  [5 / 8, '5/8'],
+  [7 / 8, '7/8'],
+];
+
+const FRACTION_TOLERANCE = 0.03;
+
+// Metric quantities read better as decimals than as fractions
+const DECIMAL_UNITS = new Set<CanonicalUnit>(['g', 'kg', 'mg', 'ml', 'l']);
+
+const UNIT_LABELS: Record<CanonicalUnit, [singular: string, plural: string]> = {
+  tsp: ['tsp', 'tsp'],
+  tbsp: ['tbsp', 'tbsp'],
+  cup: ['cup', 'cups'],
+  fl_oz: ['fl oz', 'fl oz'],
+  pint: ['pint', 'pints'],
+  quart: ['quart', 'quarts'],
+  gallon: ['gallon', 'gallons'],
+  ml: ['ml', 'ml'],
+  l: ['l', 'l'],
+  oz: ['oz', 'oz'],
+  lb: ['lb', 'lb'],
+  g: ['g', 'g'],
+  kg: ['kg', 'kg'],
+  mg: ['mg', 'mg'],
+  pinch: ['pinch', 'pinches'],
+  dash: ['dash', 'dashes'],
+  clove: ['clove', 'cloves'],
+  can: ['can', 'cans'],
+  jar: ['jar', 'jars'],
+  package: ['package', 'packages'],
+  stick: ['stick', 'sticks'],
+  slice: ['slice', 'slices'],
+  piece: ['piece', 'pieces'],
+  bunch: ['bunch', 'bunches'],
+  sprig: ['sprig', 'sprigs'],
+  stalk: ['stalk', 'stalks'],
+  head: ['head', 'heads'],
+  handful: ['handful', 'handfuls'],
+};
+
+const formatDecimal = (value: number, maxDecimals: number): string => {
+  const factor = 10 ** maxDecimals;
+  return String(Math.round(value * factor) / factor);
+};
+
+/**
+ * Render a quantity for display: "1 1/2" for kitchen units, "1.25" / "250"
+ * for metric units. Values that do not land on a common fraction fall back
+ * to at most two decimals.
+ */
+export function formatQuantity(value: number, unit?: CanonicalUnit | null): string {
+  if (!Number.isFinite(value) || value <= 0) {
+    return '0';
+  }
+
+  if (unit && DECIMAL_UNITS.has(unit)) {
+    if (value >= 100) return String(Math.round(value / 5) * 5);
+    if (value >= 10) return String(Math.round(value));
+    return formatDecimal(value, value >= 1 ? 1 : 2);
+  }
+
+  const whole = Math.floor(value);
+  const remainder = value - whole;
+
+  if (remainder < FRACTION_TOLERANCE) {
+    return whole > 0 ? String(whole) : formatDecimal(value, 2);
+  }
+  if (1 - remainder < FRACTION_TOLERANCE) {
+    return String(whole + 1);
+  }
+
+  for (const [fraction, label] of FRACTIONS) {
+    if (Math.abs(remainder - fraction) < FRACTION_TOLERANCE) {
+      return whole > 0 ? `${whole} ${label}` : label;
+    }
+  }
+
+  return formatDecimal(value, 2);
+}
+
+/**
+ * Display label for a canonical unit, pluralized for the given quantity
+ */
+export function formatUnit(unit: CanonicalUnit, quantity: number | null): string {
+  const [singular, plural] = UNIT_LABELS[unit];
+  return quantity !== null && quantity > 1 ? plural : singular;
+}
+
+/**
+ * Re-render an ingredient line from its parsed parts, e.g. after scaling
+ */
+export function renderIngredientLine(parts: IngredientLineParts): string {
+  if (parts.quantity === null) {
+    return parts.remainder;
+  }
+
+  const min = formatQuantity(parts.quantity, parts.unit);
+  const max = parts.quantity_max !== null ? formatQuantity(parts.quantity_max, parts.unit) : null;
+  // "2-3" reads fine, but "1-1 1/2" does not
+  const quantity = max === null
+    ? min
+    : `${min}${min.includes(' ') || max.includes(' ') ? ' to ' : '-'}${max}`;
+  const unit = parts.unit
+    ? formatUnit(parts.unit, parts.quantity_max ?? parts.quantity)
+    : null;
+
+  return [quantity, parts.size_note, unit, parts.remainder]
+    .filter((part): part is string => Boolean(part))
+    .join(' ');
+}
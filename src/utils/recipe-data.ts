@@ -0,0 +1,82 @@
+import { supabaseAdmin } from '../config/supabase.js';
+import { BadRequestError } from './errors.js';
+import { dbToEnvelope, type RecipeEnvelope } from '../schemas/envelope.js';
+import type { Recipe, RecipeIngredient, RecipeStep, RecipeMedia } from '../types/index.js';
+
+/**
+ * Load full envelope data for a set of recipes, keyed by recipe id.
+ * Soft-deleted recipes are left out of the map.
+ */
+export const buildRecipeDataById = async (
+  recipeIds: string[]
+): Promise<Map<string, RecipeEnvelope['recipe']>> => {
+  const dataById = new Map<string, RecipeEnvelope['recipe']>();
+  if (recipeIds.length === 0) {
+    return dataById;
+  }
+
+  const { data: recipes, error: recipeError } = await supabaseAdmin
+    .from('recipes')
+    .select('*')
+    .in('id', recipeIds)
+    .is('deleted_at', null);
+
+  if (recipeError) {
+    throw new BadRequestError('Failed to fetch recipes');
+  }
+
+  const [
+    { data: ingredients },
+    { data: steps },
+    { data: media },
+  ] = await Promise.all([
+    supabaseAdmin
+      .from('recipe_ingredients')
+      .select('*')
+      .in('recipe_id', recipeIds)
+      .order('position'),
+    supabaseAdmin
+      .from('recipe_steps')
+      .select('*')
+      .in('recipe_id', recipeIds)
+      .order('position'),
+    supabaseAdmin
+      .from('recipe_media')
+      .select('*')
+      .in('recipe_id', recipeIds)
+      .order('position'),
+  ]);
+
+  const ingredientsByRecipeId = new Map<string, RecipeIngredient[]>();
+  for (const ingredient of ingredients ?? []) {
+    const existing = ingredientsByRecipeId.get(ingredient.recipe_id) ?? [];
+    existing.push(ingredient as RecipeIngredient);
+    ingredientsByRecipeId.set(ingredient.recipe_id, existing);
+  }
+
+  const stepsByRecipeId = new Map<string, RecipeStep[]>();
+  for (const step of steps ?? []) {
+    const existing = stepsByRecipeId.get(step.recipe_id) ?? [];
+    existing.push(step as RecipeStep);
+    stepsByRecipeId.set(step.recipe_id, existing);
+  }
+
+  const mediaByRecipeId = new Map<string, RecipeMedia[]>();
+  for (const item of media ?? []) {
+    const existing = mediaByRecipeId.get(item.recipe_id) ?? [];
+    existing.push(item as RecipeMedia);
+    mediaByRecipeId.set(item.recipe_id, existing);
+  }
+
+  for (const recipe of recipes ?? []) {
+    const envelope = dbToEnvelope(
+      recipe as Recipe,
+      ingredientsByRecipeId.get(recipe.id) ?? [],
+      stepsByRecipeId.get(recipe.id) ?? [],
+      mediaByRecipeId.get(recipe.id) ?? []
+    );
+    dataById.set(recipe.id, envelope.recipe);
+  }
+
+  return dataById;
+};
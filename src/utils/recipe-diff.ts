@@ -0,0 +1,123 @@
+import type { RecipeEnvelopeData } from '../schemas/envelope.js';
+
+// Fields compared as whole values; nutrition and source follow from them
+const SCALAR_FIELDS = [
+  'title',
+  'description',
+  'servings',
+  'calories',
+  'prep_time_minutes',
+  'cook_time_minutes',
+  'tags',
+  'cuisine',
+  'dietary_labels',
+  'metadata',
+] as const;
+
+type ScalarField = typeof SCALAR_FIELDS[number];
+
+export type FieldChange = {
+  field: ScalarField;
+  from: unknown;
+  to: unknown;
+};
+
+export type LineChange = {
+  op: 'unchanged' | 'added' | 'removed';
+  text: string;
+  section: string | null;
+};
+
+export type RecipeDiff = {
+  changed_fields: string[];
+  fields: FieldChange[];
+  // Whole lists, in order, so unchanged lines give context
+  ingredients: LineChange[];
+  steps: LineChange[];
+  media: LineChange[];
+};
+
+type Line = { text: string; section: string | null };
+
+// jsonb does not keep object key order, so keys are sorted before comparing
+const stableStringify = (value: unknown): string =>
+  JSON.stringify(value ?? null, (_key, nested: unknown) =>
+    nested && typeof nested === 'object' && !Array.isArray(nested)
+      ? Object.fromEntries(Object.entries(nested).sort(([a], [b]) => a.localeCompare(b)))
+      : nested
+  );
+
+const sameValue = (a: unknown, b: unknown): boolean => stableStringify(a) === stableStringify(b);
+
+const sameLine = (a: Line, b: Line): boolean => a.text === b.text && a.section === b.section;
+
+/**
+ * Line diff via longest common subsequence; removals come before additions
+ * at each change
+ */
+function diffLines(before: Line[], after: Line[]): LineChange[] {
+  const lengths: number[][] = Array.from({ length: before.length + 1 }, () =>
+    new Array<number>(after.length + 1).fill(0)
+  );
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] = sameLine(before[i], after[j])
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const changes: LineChange[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && sameLine(before[i], after[j])) {
+      changes.push({ op: 'unchanged', ...before[i] });
+      i += 1;
+      j += 1;
+    } else if (i < before.length && (j >= after.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+      changes.push({ op: 'removed', ...before[i] });
+      i += 1;
+    } else {
+      changes.push({ op: 'added', ...after[j] });
+      j += 1;
+    }
+  }
+  return changes;
+}
+
+const ingredientLines = (recipe: RecipeEnvelopeData): Line[] =>
+  recipe.ingredients.map((ingredient) => ({ text: ingredient.raw_text, section: ingredient.section ?? null }));
+
+const stepLines = (recipe: RecipeEnvelopeData): Line[] =>
+  recipe.steps.map((step) => ({ text: step.instruction, section: step.section ?? null }));
+
+const mediaLines = (recipe: RecipeEnvelopeData): Line[] =>
+  recipe.media.map((item) => ({ text: item.url, section: null }));
+
+/**
+ * Fields and lists that differ between two versions of a recipe
+ */
+export function diffRecipes(before: RecipeEnvelopeData, after: RecipeEnvelopeData): RecipeDiff {
+  const fields = SCALAR_FIELDS
+    .filter((field) => !sameValue(before[field], after[field]))
+    .map((field) => ({ field, from: before[field] ?? null, to: after[field] ?? null }));
+
+  const ingredients = diffLines(ingredientLines(before), ingredientLines(after));
+  const steps = diffLines(stepLines(before), stepLines(after));
+  const media = diffLines(mediaLines(before), mediaLines(after));
+
+  const listChanged = (changes: LineChange[]) => changes.some((change) => change.op !== 'unchanged');
+  return {
+    changed_fields: [
+      ...fields.map((change) => change.field),
+      ...(listChanged(ingredients) ? ['ingredients'] : []),
+      ...(listChanged(steps) ? ['steps'] : []),
+      ...(listChanged(media) ? ['media'] : []),
+    ],
+    fields,
+    ingredients,
+    steps,
+    media,
+  };
+}
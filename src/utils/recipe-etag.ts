@@ -0,0 +1,26 @@
+/**
+ * Recipe ETags wrap the recipe's updated_at, so an If-Match can be checked
+ * inside the write and traced back to the revision the client last saw
+ */
+export const toRecipeEtag = (updatedAt: string): string =>
+  `"${Buffer.from(updatedAt).toString('base64url')}"`;
+
+/**
+ * updated_at named by an If-Match header. undefined means no precondition (no
+ * header or `*`); null means a tag that can never match (malformed, weak or a
+ * list of tags).
+ */
+export function parseRecipeIfMatch(header: string | undefined): string | null | undefined {
+  const value = header?.trim();
+  if (!value || value === '*') {
+    return undefined;
+  }
+
+  const match = /^"([A-Za-z0-9_-]+)"$/.exec(value);
+  if (!match) {
+    return null;
+  }
+
+  const updatedAt = Buffer.from(match[1], 'base64url').toString();
+  return Number.isNaN(Date.parse(updatedAt)) ? null : updatedAt;
+}
@@ -0,0 +1,286 @@
+import type { RecipeEnvelope, RecipeEnvelopeData } from '../schemas/envelope.js';
+
+export const RECIPE_OUTPUT_FORMATS = ['jsonld', 'whatEat', 'markdown', 'text'] as const;
+export type RecipeOutputFormat = typeof RECIPE_OUTPUT_FORMATS[number];
+
+export type RecipeOutput = {
+  body: string;
+  content_type: string;
+  extension: string;
+};
+
+// schema.org RestrictedDiet values for the dietary labels that have one
+const SCHEMA_ORG_DIETS: Record<string, string> = {
+  vegan: 'https://schema.org/VeganDiet',
+  vegetarian: 'https://schema.org/VegetarianDiet',
+  gluten_free: 'https://schema.org/GlutenFreeDiet',
+};
+
+const isoDuration = (minutes: number | null | undefined): string | undefined => {
+  if (!minutes || minutes <= 0) return undefined;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return `PT${hours ? `${hours}H` : ''}${rest ? `${rest}M` : ''}`;
+};
+
+const totalMinutes = (recipe: RecipeEnvelopeData): number | null => {
+  const total = (recipe.prep_time_minutes ?? 0) + (recipe.cook_time_minutes ?? 0);
+  return total > 0 ? total : null;
+};
+
+const humanize = (value: string): string => value.replace(/_/g, ' ');
+
+const formatMinutes = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (!hours) return `${rest} min`;
+  return rest ? `${hours} h ${rest} min` : `${hours} h`;
+};
+
+type Sectioned = { section?: string | null };
+
+// Consecutive items that share a section; unsectioned items form groups with a null name
+function sectionGroups<T extends Sectioned>(items: T[]): Array<{ section: string | null; items: T[] }> {
+  const groups: Array<{ section: string | null; items: T[] }> = [];
+  for (const item of items) {
+    const section = item.section ?? null;
+    const last = groups[groups.length - 1];
+    if (last && last.section === section) {
+      last.items.push(item);
+    } else {
+      groups.push({ section, items: [item] });
+    }
+  }
+  return groups;
+}
+
+const howToSteps = (steps: RecipeEnvelopeData['steps'], offset = 0) =>
+  steps.map((step, index) => ({
+    '@type': 'HowToStep',
+    position: offset + index + 1,
+    text: step.instruction,
+  }));
+
+const jsonLdInstructions = (steps: RecipeEnvelopeData['steps']): Record<string, unknown>[] => {
+  if (!steps.some((step) => step.section)) {
+    return howToSteps(steps);
+  }
+  let position = 0;
+  return sectionGroups(steps).map((group, index) => {
+    const section = {
+      '@type': 'HowToSection',
+      name: group.section ?? undefined,
+      position: index + 1,
+      itemListElement: howToSteps(group.items, position),
+    };
+    position += group.items.length;
+    return section;
+  });
+};
+
+// List lines under an optional subheading per section; step numbers run across sections
+function sectionedLines<T extends Sectioned>(
+  items: T[],
+  heading: (section: string) => string,
+  line: (item: T, index: number) => string
+): string[] {
+  const lines: string[] = [];
+  let index = 0;
+  for (const group of sectionGroups(items)) {
+    if (group.section) {
+      if (lines.length > 0) lines.push('');
+      lines.push(heading(group.section));
+    }
+    for (const item of group.items) {
+      lines.push(line(item, index));
+      index += 1;
+    }
+  }
+  return lines;
+}
+
+const authorOf = (recipe: RecipeEnvelopeData): string | null => {
+  const authorName = recipe.metadata?.author_name;
+  return typeof authorName === 'string' && authorName.trim() ? authorName.trim() : null;
+};
+
+// Computed nutrition when there is some, else the recipe's own calorie figure
+const jsonLdNutrition = (recipe: RecipeEnvelopeData): Record<string, unknown> | undefined => {
+  const nutrition = recipe.nutrition?.per_serving;
+  if (nutrition && nutrition.calories > 0) {
+    return {
+      '@type': 'NutritionInformation',
+      calories: `${nutrition.calories} calories`,
+      proteinContent: `${nutrition.protein_g} g`,
+      fatContent: `${nutrition.fat_g} g`,
+      carbohydrateContent: `${nutrition.carbohydrates_g} g`,
+      fiberContent: `${nutrition.fiber_g} g`,
+      sugarContent: `${nutrition.sugar_g} g`,
+      sodiumContent: `${nutrition.sodium_mg} mg`,
+    };
+  }
+  return recipe.calories
+    ? { '@type': 'NutritionInformation', calories: `${recipe.calories} calories` }
+    : undefined;
+};
+
+/**
+ * schema.org `Recipe` JSON-LD, the shape `extractFromJsonLd` reads on import.
+ * `url` is the canonical page for the recipe (e.g. its share link), if any.
+ */
+export function toJsonLd(envelope: RecipeEnvelope, url?: string): Record<string, unknown> {
+  const { recipe } = envelope;
+  const images = recipe.media.filter((item) => item.media_type === 'image').map((item) => item.url);
+  const author = authorOf(recipe);
+  const diets = recipe.dietary_labels
+    .map((label) => SCHEMA_ORG_DIETS[label])
+    .filter((diet): diet is string => Boolean(diet));
+
+  const jsonLd: Record<string, unknown> = {
+    '@context': 'https://schema.org',
+    '@type': 'Recipe',
+    name: recipe.title,
+    description: recipe.description ?? undefined,
+    url,
+    image: images.length > 0 ? images : undefined,
+    author: author ? { '@type': 'Person', name: author } : undefined,
+    recipeYield: recipe.servings ? `${recipe.servings} servings` : undefined,
+    prepTime: isoDuration(recipe.prep_time_minutes),
+    cookTime: isoDuration(recipe.cook_time_minutes),
+    totalTime: isoDuration(totalMinutes(recipe)),
+    recipeCuisine: recipe.cuisine ?? undefined,
+    keywords: recipe.tags.length > 0 ? recipe.tags.map(humanize).join(', ') : undefined,
+    suitableForDiet: diets.length > 0 ? diets : undefined,
+    nutrition: jsonLdNutrition(recipe),
+    recipeIngredient: recipe.ingredients.map((ingredient) => ingredient.raw_text),
+    recipeInstructions: jsonLdInstructions(recipe.steps),
+    isBasedOn: recipe.source.url ?? undefined,
+  };
+
+  // Drop unset fields so the output stays readable
+  return Object.fromEntries(Object.entries(jsonLd).filter(([, value]) => value !== undefined));
+}
+
+const detailsOf = (recipe: RecipeEnvelopeData): string[] => {
+  const details: string[] = [];
+  if (recipe.servings) details.push(`Servings: ${recipe.servings}`);
+  if (recipe.prep_time_minutes) details.push(`Prep time: ${formatMinutes(recipe.prep_time_minutes)}`);
+  if (recipe.cook_time_minutes) details.push(`Cook time: ${formatMinutes(recipe.cook_time_minutes)}`);
+  if (recipe.calories) details.push(`Calories: ${recipe.calories}`);
+  if (recipe.cuisine) details.push(`Cuisine: ${humanize(recipe.cuisine)}`);
+  if (recipe.dietary_labels.length > 0) {
+    details.push(`Diet: ${recipe.dietary_labels.map(humanize).join(', ')}`);
+  }
+  if (recipe.tags.length > 0) details.push(`Tags: ${recipe.tags.map(humanize).join(', ')}`);
+  return details;
+};
+
+const sourceLine = (recipe: RecipeEnvelopeData): string | null => {
+  const author = authorOf(recipe);
+  if (recipe.source.url) return `Source: ${recipe.source.url}`;
+  return author ? `By ${author}` : null;
+};
+
+export function toMarkdown(envelope: RecipeEnvelope): string {
+  const { recipe } = envelope;
+  const image = recipe.media.find((item) => item.media_type === 'image');
+  const source = sourceLine(recipe);
+  const lines: string[] = [`# ${recipe.title}`, ''];
+
+  if (image) lines.push(`![${recipe.title}](${image.url})`, '');
+  if (recipe.description) lines.push(recipe.description, '');
+
+  const details = detailsOf(recipe);
+  if (details.length > 0) {
+    lines.push(...details.map((detail) => `- ${detail}`), '');
+  }
+
+  const subheading = (section: string) => `### ${section}\n`;
+  lines.push(
+    '## Ingredients',
+    '',
+    ...sectionedLines(recipe.ingredients, subheading, (ingredient) => `- ${ingredient.raw_text}`),
+    ''
+  );
+  lines.push(
+    '## Steps',
+    '',
+    ...sectionedLines(recipe.steps, subheading, (step, index) => `${index + 1}. ${step.instruction}`),
+    ''
+  );
+
+  if (source) lines.push(`_${source}_`, '');
+  return lines.join('\n');
+}
+
+export function toPlainText(envelope: RecipeEnvelope): string {
+  const { recipe } = envelope;
+  const source = sourceLine(recipe);
+  const lines: string[] = [recipe.title.toUpperCase(), ''];
+
+  if (recipe.description) lines.push(recipe.description, '');
+
+  const details = detailsOf(recipe);
+  if (details.length > 0) lines.push(...details, '');
+
+  const subheading = (section: string) => `${section}:`;
+  lines.push(
+    'INGREDIENTS',
+    ...sectionedLines(recipe.ingredients, subheading, (ingredient) => `- ${ingredient.raw_text}`),
+    ''
+  );
+  lines.push(
+    'STEPS',
+    ...sectionedLines(recipe.steps, subheading, (step, index) => `${index + 1}. ${step.instruction}`),
+    ''
+  );
+
+  if (source) lines.push(source, '');
+  return lines.join('\n');
+}
+
+/**
+ * Render a recipe in one of the export formats. `whatEat` is the envelope
+ * itself and can be posted back to POST /recipes as is.
+ */
+export function renderRecipe(envelope: RecipeEnvelope, format: RecipeOutputFormat): RecipeOutput {
+  switch (format) {
+    case 'jsonld':
+      return {
+        body: JSON.stringify(toJsonLd(envelope), null, 2),
+        content_type: 'application/ld+json; charset=utf-8',
+        extension: 'jsonld',
+      };
+    case 'whatEat':
+      return {
+        body: JSON.stringify(envelope, null, 2),
+        content_type: 'application/json; charset=utf-8',
+        extension: 'json',
+      };
+    case 'markdown':
+      return {
+        body: toMarkdown(envelope),
+        content_type: 'text/markdown; charset=utf-8',
+        extension: 'md',
+      };
+    case 'text':
+      return {
+        body: toPlainText(envelope),
+        content_type: 'text/plain; charset=utf-8',
+        extension: 'txt',
+      };
+  }
+}
+
+/**
+ * File name for an exported recipe, unique per recipe id
+ */
+export function exportFileName(recipe: RecipeEnvelopeData, extension: string): string {
+  const slug = recipe.title
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60) || 'recipe';
+  return recipe.id ? `${slug}-${recipe.id.slice(0, 8)}.${extension}` : `${slug}.${extension}`;
+}
@@ -0,0 +1,49 @@
+import { JSDOM } from 'jsdom';
+import { parseServings, parseTimeText } from '../recipe-text.js';
+import { emptyExportedRecipe, type ExportedRecipe } from './types.js';
+
+type DomElement = JSDOM['window']['Element']['prototype'];
+
+const textOf = (element: DomElement | null): string | null => {
+  const text = element?.textContent?.replace(/\s+/g, ' ').trim();
+  return text ? text : null;
+};
+
+const textsOf = (root: DomElement, selector: string): string[] =>
+  Array.from(root.querySelectorAll(selector))
+    .map((element) => textOf(element))
+    .filter((text): text is string => Boolean(text));
+
+/**
+ * Copy Me That export (`recipes.html` inside the export zip). Every recipe is
+ * a `div.recipe`; element ids repeat across recipes, so lookups are scoped.
+ */
+export function parseCopyMeThatHtml(html: string): ExportedRecipe[] {
+  const { document } = new JSDOM(html).window;
+
+  return Array.from(document.querySelectorAll('div.recipe')).map((root) => {
+    const warnings: string[] = [];
+    const image = root.querySelector('img.recipeImage, img#recipeImage');
+    const imageSrc = image?.getAttribute('src') ?? null;
+    const imageUrl = imageSrc && /^https?:\/\//i.test(imageSrc) ? imageSrc : null;
+    if (imageSrc && !imageUrl) {
+      warnings.push('Photo was not imported');
+    }
+
+    return {
+      ...emptyExportedRecipe(),
+      title: textOf(root.querySelector('.recipeName, #name')),
+      description: textOf(root.querySelector('.recipeDescription, #description')),
+      notes: textsOf(root, '.recipeNote, #recipeNotes li').join('\n') || null,
+      servings: parseServings(textOf(root.querySelector('#recipeYield, .recipeYield'))),
+      prep_time_minutes: parseTimeText(textOf(root.querySelector('#recipePrepTime, .recipePrepTime'))),
+      cook_time_minutes: parseTimeText(textOf(root.querySelector('#recipeCookTime, .recipeCookTime'))),
+      tags: textsOf(root, '.recipeCategory'),
+      ingredients: textsOf(root, '.recipeIngredient, #recipeIngredients li'),
+      steps: textsOf(root, '.instruction, #recipeInstructions li'),
+      source_url: root.querySelector('#original_link, a.original_link')?.getAttribute('href') ?? null,
+      image_url: imageUrl,
+      warnings,
+    };
+  });
+}
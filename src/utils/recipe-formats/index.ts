@@ -0,0 +1,150 @@
+import { ImportError } from '../errors.js';
+import { isRecord } from '../recipe-text.js';
+import { createUnpackBudget, isGzip, isZip, readZipEntries, type UnpackBudget, type ZipEntry } from '../zip.js';
+import { parseCopyMeThatHtml } from './copy-me-that.js';
+import {
+  isMasterCookText,
+  isMasterCookXml,
+  parseMasterCookText,
+  parseMasterCookXml,
+} from './mastercook.js';
+import { isMealMasterText, parseMealMasterText } from './meal-master.js';
+import { isMealieRecipe, parseMealieRecipe } from './mealie.js';
+import { parsePaprikaExport } from './paprika.js';
+import { isTandoorRecipe, parseTandoorRecipe } from './tandoor.js';
+import type { ExportedRecipe, RecipeExportFormat } from './types.js';
+
+export * from './types.js';
+
+export type ParsedRecipeExport = {
+  format: RecipeExportFormat;
+  recipes: ExportedRecipe[];
+};
+
+const unsupportedFile = () =>
+  new ImportError(
+    'File is not a supported recipe export (Paprika, Mealie, Tandoor, Copy Me That, MasterCook or Meal-Master)',
+    'IMPORT_UNSUPPORTED_FILE',
+    415
+  );
+
+const isCopyMeThatHtml = (text: string): boolean =>
+  /<div[^>]*class=["'][^"']*\brecipe\b/i.test(text) && /recipeName|recipeIngredient/i.test(text);
+
+function parseJsonRecipes(nodes: unknown[]): ParsedRecipeExport | null {
+  const records = nodes.flatMap((node) => {
+    if (Array.isArray(node)) return node.filter(isRecord);
+    if (isRecord(node) && Array.isArray(node.recipes)) return node.recipes.filter(isRecord);
+    return isRecord(node) ? [node] : [];
+  });
+
+  if (records.length > 0 && records.every(isTandoorRecipe)) {
+    return { format: 'tandoor', recipes: records.map(parseTandoorRecipe) };
+  }
+  if (records.length > 0 && records.some(isMealieRecipe)) {
+    return { format: 'mealie', recipes: records.filter(isMealieRecipe).map(parseMealieRecipe) };
+  }
+  return null;
+}
+
+function parseJsonText(text: string): ParsedRecipeExport | null {
+  try {
+    return parseJsonRecipes([JSON.parse(text)]);
+  } catch {
+    return null;
+  }
+}
+
+function parseText(text: string): ParsedRecipeExport | null {
+  const trimmed = text.replace(/^\uFEFF/, '').trimStart();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    return parseJsonText(trimmed);
+  }
+  if (isMasterCookXml(trimmed)) {
+    return { format: 'mastercook', recipes: parseMasterCookXml(trimmed) };
+  }
+  if (isCopyMeThatHtml(trimmed)) {
+    return { format: 'copymethat', recipes: parseCopyMeThatHtml(trimmed) };
+  }
+  if (isMasterCookText(trimmed)) {
+    return { format: 'mastercook', recipes: parseMasterCookText(trimmed) };
+  }
+  if (isMealMasterText(trimmed)) {
+    return { format: 'mealmaster', recipes: parseMealMasterText(trimmed) };
+  }
+  return null;
+}
+
+function parseArchive(entries: ZipEntry[], budget: UnpackBudget): ParsedRecipeExport | null {
+  const named = (pattern: RegExp) => entries.filter((entry) => pattern.test(entry.name));
+
+  const paprika = named(/\.paprikarecipe$/i);
+  if (paprika.length > 0) {
+    return { format: 'paprika', recipes: parsePaprikaExport(paprika.map((entry) => entry.data), budget) };
+  }
+
+  const html = named(/\.html?$/i)
+    .map((entry) => entry.data.toString('utf8'))
+    .filter(isCopyMeThatHtml);
+  if (html.length > 0) {
+    return { format: 'copymethat', recipes: html.flatMap(parseCopyMeThatHtml) };
+  }
+
+  // Tandoor exports are a zip of per-recipe zips, each holding recipe.json
+  const nested = named(/\.zip$/i).flatMap((entry) =>
+    isZip(entry.data) ? readZipEntries(entry.data, budget).filter((inner) => /(^|\/)recipe\.json$/i.test(inner.name)) : []
+  );
+  const jsonEntries = [...nested, ...named(/\.json$/i)];
+  const nodes = jsonEntries.flatMap((entry) => {
+    try {
+      return [JSON.parse(entry.data.toString('utf8')) as unknown];
+    } catch {
+      return [];
+    }
+  });
+  if (nodes.length > 0) {
+    const parsed = parseJsonRecipes(nodes);
+    if (parsed) return parsed;
+  }
+
+  for (const entry of named(/\.(mxp|mx2|mmf|mm|txt)$/i)) {
+    const parsed = parseText(entry.data.toString('latin1'));
+    if (parsed) return parsed;
+  }
+  return null;
+}
+
+/**
+ * Detect the app a recipe export came from and read its recipes. Detection
+ * looks at the content first; the file name only picks the text encoding.
+ * Everything unpacked from one file, nested archives included, shares a
+ * single size budget.
+ */
+export function parseRecipeExport(fileName: string, buffer: Buffer): ParsedRecipeExport {
+  const budget = createUnpackBudget();
+  let parsed: ParsedRecipeExport | null;
+  try {
+    if (isZip(buffer)) {
+      parsed = parseArchive(readZipEntries(buffer, budget), budget);
+    } else if (isGzip(buffer)) {
+      parsed = { format: 'paprika', recipes: parsePaprikaExport([buffer], budget) };
+    } else {
+      // Meal-Master and MasterCook text predate UTF-8
+      const legacyText = /\.(mxp|mmf|mm)$/i.test(fileName);
+      parsed = parseText(buffer.toString(legacyText ? 'latin1' : 'utf8'));
+    }
+  } catch (error) {
+    if (error instanceof ImportError) throw error;
+    if (error instanceof RangeError) {
+      throw new ImportError('Export file is too large once unpacked', 'IMPORT_FILE_TOO_LARGE', 413);
+    }
+    throw new ImportError('Export file could not be read', 'IMPORT_UNREADABLE_FILE', 422, {
+      reason: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  if (!parsed) {
+    throw unsupportedFile();
+  }
+  return parsed;
+}
@@ -0,0 +1,151 @@
+import { JSDOM } from 'jsdom';
+import { parseServings, parseTimeText } from '../recipe-text.js';
+import { emptyExportedRecipe, type ExportedRecipe } from './types.js';
+
+type DomElement = JSDOM['window']['Element']['prototype'];
+
+const MXP_START = /^\s*\*\s*Exported from\s+MasterCook/i;
+const MXP_DIRECTIONS_END = /^\s*(?:-\s+){4,}-?\s*$/;
+const MXP_TABLE_RULE = /^-{4,}\s+-{4,}\s+-{4,}/;
+
+export const isMasterCookText = (text: string): boolean =>
+  /^\s*\*\s*Exported from\s+MasterCook/im.test(text);
+
+export const isMasterCookXml = (text: string): boolean =>
+  /<mx2[\s>]/i.test(text.slice(0, 2000));
+
+const headerValue = (line: string, label: string): string | null => {
+  const match = line.match(new RegExp(`${label}\\s*:\\s*(.*?)(?:\\s{2,}\\S.*)?$`, 'i'));
+  return match?.[1].trim() || null;
+};
+
+function parseMxpIngredient(line: string): string | null {
+  if (!line.trim()) return null;
+  // Columns: amount (8), measure (12), ingredient -- preparation
+  const amount = line.slice(0, 8).trim();
+  const measure = line.slice(8, 24).trim();
+  const rest = line.slice(24).trim();
+  const [name, preparation] = rest.split(/\s+--\s+/, 2);
+  const text = [amount, measure, name].filter(Boolean).join(' ');
+  if (!text) return null;
+  return preparation ? `${text}, ${preparation.trim()}` : text;
+}
+
+function parseMxpRecipe(lines: string[]): ExportedRecipe {
+  const recipe = emptyExportedRecipe();
+  let index = 0;
+
+  while (index < lines.length && !lines[index].trim()) index += 1;
+  recipe.title = lines[index]?.trim() || null;
+  index += 1;
+
+  for (; index < lines.length && !MXP_TABLE_RULE.test(lines[index]); index += 1) {
+    const line = lines[index];
+    if (/Recipe By\s*:/i.test(line)) {
+      recipe.author_name = headerValue(line, 'Recipe By');
+    }
+    if (/Serving Size\s*:/i.test(line)) {
+      recipe.servings = parseServings(headerValue(line, 'Serving Size'));
+    }
+    if (/Preparation Time\s*:/i.test(line)) {
+      recipe.prep_time_minutes = parseTimeText(line.match(/Preparation Time\s*:\s*(\S+)/i)?.[1]);
+    }
+    if (/Categories\s*:/i.test(line)) {
+      // Categories are laid out in two padded columns and may wrap to following lines
+      let categories = line.replace(/^.*Categories\s*:/i, '');
+      while (lines[index + 1] && /^\s{10,}\S/.test(lines[index + 1]) && !/Amount\s+Measure/i.test(lines[index + 1])) {
+        index += 1;
+        categories += `  ${lines[index]}`;
+      }
+      recipe.tags = categories.split(/\s{2,}/).map((tag) => tag.trim()).filter(Boolean);
+    }
+  }
+  index += 1;
+
+  for (; index < lines.length && lines[index].trim(); index += 1) {
+    const ingredient = parseMxpIngredient(lines[index]);
+    if (ingredient) recipe.ingredients.push(ingredient);
+  }
+
+  const directions: string[] = [];
+  for (; index < lines.length && !MXP_DIRECTIONS_END.test(lines[index]); index += 1) {
+    directions.push(lines[index].trim());
+  }
+  recipe.steps = directions
+    .join('\n')
+    .split(/\n{2,}|\n(?=\d+[.)]\s)/)
+    .map((paragraph) => paragraph.replace(/\n/g, ' ').trim())
+    .filter(Boolean);
+
+  const trailer = lines.slice(index + 1).join('\n');
+  const notes = trailer.match(/NOTES\s*:\s*([\s\S]*)$/i)?.[1].trim();
+  recipe.notes = notes || null;
+  const source = trailer.match(/^\s*Source\s*:\s*"?(.*?)"?\s*$/im)?.[1];
+  if (source && /^https?:\/\//i.test(source)) {
+    recipe.source_url = source;
+  }
+  return recipe;
+}
+
+/**
+ * MasterCook text export (`.mxp`), one or many recipes per file
+ */
+export function parseMasterCookText(text: string): ExportedRecipe[] {
+  const blocks: string[][] = [];
+  for (const line of text.replace(/\r\n?/g, '\n').split('\n')) {
+    if (MXP_START.test(line)) {
+      blocks.push([]);
+      continue;
+    }
+    blocks[blocks.length - 1]?.push(line);
+  }
+  return blocks.map(parseMxpRecipe);
+}
+
+const childText = (parent: DomElement, tag: string): string | null =>
+  parent.getElementsByTagName(tag)[0]?.textContent?.trim() || null;
+
+const childTexts = (parent: DomElement, tag: string): string[] =>
+  Array.from(parent.getElementsByTagName(tag))
+    .map((element) => element.textContent?.trim() ?? '')
+    .filter(Boolean);
+
+/**
+ * MasterCook XML export (`.mx2`): `RcpE` elements under an `mx2` root
+ */
+export function parseMasterCookXml(xml: string): ExportedRecipe[] {
+  // MasterCook writes `standalone` before `encoding`, which XML parsers reject
+  const body = xml.replace(/^\s*<\?xml[^>]*\?>/, '');
+  const { document } = new JSDOM(body, { contentType: 'text/xml' }).window;
+
+  return Array.from(document.getElementsByTagName('RcpE')).map((node) => {
+    const ingredients = Array.from(node.getElementsByTagName('IngR'))
+      .map((ingredient) => {
+        const text = ['qty', 'unit', 'name']
+          .map((attribute) => ingredient.getAttribute(attribute)?.trim())
+          .filter(Boolean)
+          .join(' ');
+        const preparation = childText(ingredient, 'IngP');
+        return preparation ? `${text}, ${preparation}` : text;
+      })
+      .filter(Boolean);
+
+    const notes = [childText(node, 'Note'), childText(node, 'SrvI')].filter(Boolean).join('\n');
+    const source = childText(node, 'Srce');
+
+    return {
+      ...emptyExportedRecipe(),
+      title: node.getAttribute('name')?.trim() || null,
+      description: childText(node, 'Desc'),
+      notes: notes || null,
+      servings: parseServings(node.getElementsByTagName('Serv')[0]?.getAttribute('qty') ?? null),
+      prep_time_minutes: parseTimeText(node.getElementsByTagName('PrpT')[0]?.getAttribute('elapsed')),
+      cook_time_minutes: parseTimeText(node.getElementsByTagName('CTim')[0]?.getAttribute('elapsed')),
+      tags: childTexts(node, 'CatT'),
+      ingredients,
+      steps: childTexts(node, 'DirT'),
+      source_url: source && /^https?:\/\//i.test(source) ? source : null,
+      author_name: node.getAttribute('author')?.trim() || null,
+    };
+  });
+}
@@ -0,0 +1,165 @@
+import { parseServings, sectionHeadingLine } from '../recipe-text.js';
+import { emptyExportedRecipe, type ExportedRecipe } from './types.js';
+
+// Two-letter Meal-Master unit codes
+const UNIT_CODES: Record<string, string> = {
+  x: '',
+  ea: '',
+  sm: 'small',
+  md: 'medium',
+  lg: 'large',
+  cn: 'can',
+  pk: 'package',
+  pn: 'pinch',
+  dr: 'drop',
+  ds: 'dash',
+  ct: 'carton',
+  bn: 'bunch',
+  sl: 'slice',
+  t: 'tsp',
+  ts: 'tsp',
+  T: 'tbsp',
+  tb: 'tbsp',
+  fl: 'fl oz',
+  c: 'cup',
+  pt: 'pint',
+  qt: 'quart',
+  ga: 'gallon',
+  oz: 'oz',
+  lb: 'lb',
+  ml: 'ml',
+  cb: 'cubic cm',
+  cl: 'cl',
+  dl: 'dl',
+  l: 'l',
+  mg: 'mg',
+  cg: 'cg',
+  dg: 'dg',
+  g: 'g',
+  kg: 'kg',
+};
+
+const RECIPE_START = /^(?:MMMMM|-----).*Meal-Master/i;
+// Bare "MMMMM" or "-----" closes a recipe; section rules like "MMMMM---FILLING---" do not
+const RECIPE_END = /^(?:MMMMM|-----)\s*$/;
+const SECTION_RULE = /^(?:MMMMM|-----)-*\s*(.*?)\s*-*$/;
+// 7-column quantity, space, 2-column unit code, space, ingredient
+const INGREDIENT_LINE = /^([\d\s/.-]{7}) ([A-Za-z ]{2}) (\S.*)$/;
+
+export const isMealMasterText = (text: string): boolean =>
+  /^(?:MMMMM|-----).*Meal-Master/im.test(text);
+
+function parseIngredientColumn(column: string): string | null {
+  const match = column.match(INGREDIENT_LINE);
+  if (!match) return null;
+
+  const quantity = match[1].trim();
+  const code = match[2].trim();
+  const unit = code in UNIT_CODES ? UNIT_CODES[code] : code;
+  return [quantity, unit, match[3].trim()].filter(Boolean).join(' ');
+}
+
+// Two-column layouts put a second ingredient at column 41
+function splitIngredientLine(line: string): string[] | null {
+  const left = parseIngredientColumn(line.length > 41 ? line.slice(0, 39).trimEnd() : line);
+  if (!left) return null;
+  const right = line.length > 41 ? parseIngredientColumn(line.slice(41)) : null;
+  if (line.length > 41 && !right) {
+    return [parseIngredientColumn(line) ?? left];
+  }
+  return right ? [left, right] : [left];
+}
+
+// Section names are usually upper case: "FILLING" reads as "Filling"
+const sectionName = (name: string): string =>
+  name === name.toUpperCase() ? name.charAt(0) + name.slice(1).toLowerCase() : name;
+
+function parseRecipe(lines: string[]): ExportedRecipe {
+  const recipe = emptyExportedRecipe();
+  const ingredients: string[] = [];
+  const directions: string[] = [];
+  let inDirections = false;
+
+  for (const line of lines) {
+    const header = line.match(/^\s*(Title|Categories|Yield|Servings)\s*:\s*(.*)$/i);
+    if (header && !inDirections && ingredients.length === 0) {
+      const [, key, value] = header;
+      if (/^title$/i.test(key)) recipe.title = value.trim() || null;
+      if (/^categories$/i.test(key)) {
+        recipe.tags = value.split(',').map((tag) => tag.trim()).filter((tag) => tag && tag.toLowerCase() !== 'none');
+      }
+      if (/^(yield|servings)$/i.test(key)) recipe.servings = parseServings(value);
+      continue;
+    }
+
+    const sectionRule = inDirections ? null : line.match(SECTION_RULE);
+    if (sectionRule) {
+      // "MMMMM---FILLING---" heads the ingredients below it
+      const name = sectionRule[1].trim();
+      if (name) ingredients.push(sectionHeadingLine(sectionName(name)));
+      continue;
+    }
+
+    if (!line.trim()) {
+      if (directions.length > 0 && directions[directions.length - 1] !== '') {
+        directions.push('');
+      }
+      continue;
+    }
+
+    if (!inDirections) {
+      // "-and sliced" continues the previous ingredient
+      const continuation = line.match(/^\s{8,}-(.*)$/);
+      if (continuation && ingredients.length > 0) {
+        ingredients[ingredients.length - 1] += ` ${continuation[1].trim()}`;
+        continue;
+      }
+      const parsed = splitIngredientLine(line);
+      if (parsed) {
+        ingredients.push(...parsed);
+        continue;
+      }
+      if (ingredients.length === 0 && !recipe.title) {
+        continue;
+      }
+      inDirections = true;
+    }
+
+    directions.push(line.trim());
+  }
+
+  // Paragraphs are steps; lines inside a paragraph are soft-wrapped
+  recipe.steps = directions
+    .join('\n')
+    .split(/\n{2,}/)
+    .map((paragraph) => paragraph.replace(/\n/g, ' ').trim())
+    .filter(Boolean);
+  recipe.ingredients = ingredients;
+  return recipe;
+}
+
+/**
+ * Meal-Master text export (`.mmf`/`.txt`), one or many recipes per file
+ */
+export function parseMealMasterText(text: string): ExportedRecipe[] {
+  const recipes: ExportedRecipe[] = [];
+  let current: string[] | null = null;
+
+  for (const line of text.replace(/\r\n?/g, '\n').split('\n')) {
+    if (RECIPE_START.test(line)) {
+      if (current) recipes.push(parseRecipe(current));
+      current = [];
+      continue;
+    }
+    if (!current) continue;
+    if (RECIPE_END.test(line)) {
+      recipes.push(parseRecipe(current));
+      current = null;
+      continue;
+    }
+    current.push(line);
+  }
+
+  if (current) recipes.push(parseRecipe(current));
+  return recipes;
+}
@@ -0,0 +1,96 @@
+import { formatQuantity } from '../quantity-format.js';
+import {
+  asString,
+  isRecord,
+  parseServings,
+  parseTimeText,
+  sectionHeadingLine,
+  splitInstructions,
+} from '../recipe-text.js';
+import { emptyExportedRecipe, type ExportedRecipe } from './types.js';
+
+export const isMealieRecipe = (node: Record<string, unknown>): boolean =>
+  Array.isArray(node.recipeIngredient) || Array.isArray(node.recipe_ingredient);
+
+const names = (value: unknown): string[] =>
+  (Array.isArray(value) ? value : [])
+    .map((item) => (isRecord(item) ? asString(item.name) : asString(item)))
+    .filter((item): item is string => Boolean(item));
+
+const nameOf = (value: unknown): string | null =>
+  isRecord(value) ? asString(value.name) : asString(value);
+
+function ingredientText(value: unknown): string | null {
+  if (!isRecord(value)) return asString(value);
+
+  const original = asString(value.originalText) ?? asString(value.display);
+  if (original) return original;
+
+  const quantity = typeof value.quantity === 'number' && value.quantity > 0
+    ? formatQuantity(value.quantity)
+    : null;
+  const composed = [quantity, nameOf(value.unit), nameOf(value.food)].filter(Boolean).join(' ');
+  const note = asString(value.note);
+  if (composed && note) return `${composed}, ${note}`;
+  return composed || note;
+}
+
+/**
+ * Mealie recipe JSON (single recipe as exported per recipe in the backup zip)
+ */
+export function parseMealieRecipe(node: Record<string, unknown>): ExportedRecipe {
+  const warnings: string[] = [];
+  const ingredientNodes = (node.recipeIngredient ?? node.recipe_ingredient) as unknown[];
+  const instructionNodes = Array.isArray(node.recipeInstructions)
+    ? node.recipeInstructions
+    : Array.isArray(node.recipe_instructions) ? node.recipe_instructions : [];
+
+  // A `title` on an ingredient or step starts a section ("For the sauce")
+  const sectionTitle = (value: unknown): string[] => {
+    const title = isRecord(value) ? asString(value.title) : null;
+    return title ? [sectionHeadingLine(title)] : [];
+  };
+
+  const ingredients = ingredientNodes.flatMap((ingredient: unknown) => {
+    const text = ingredientText(ingredient);
+    return text ? [...sectionTitle(ingredient), text] : sectionTitle(ingredient);
+  });
+
+  const steps = instructionNodes.flatMap((step: unknown) => {
+    const text = isRecord(step) ? asString(step.text) : asString(step);
+    return text ? [...sectionTitle(step), ...splitInstructions(text)] : [];
+  });
+
+  const notes = (Array.isArray(node.notes) ? node.notes : [])
+    .map((note: unknown) => (isRecord(note) ? [asString(note.title), asString(note.text)].filter(Boolean).join(': ') : null))
+    .filter((note): note is string => Boolean(note));
+
+  const prepTime = parseTimeText(node.prepTime ?? node.prep_time);
+  let cookTime = parseTimeText(node.performTime ?? node.cookTime ?? node.perform_time ?? node.cook_time);
+  const totalTime = parseTimeText(node.totalTime ?? node.total_time);
+  if (!prepTime && !cookTime && totalTime) {
+    cookTime = totalTime;
+  }
+
+  // Images live beside the JSON in Mealie backups and are not carried over
+  if (asString(node.image)) {
+    warnings.push('Photo was not imported');
+  }
+
+  return {
+    ...emptyExportedRecipe(),
+    title: asString(node.name),
+    description: asString(node.description),
+    notes: notes.length > 0 ? notes.join('\n') : null,
+    servings: typeof node.recipeServings === 'number' && node.recipeServings > 0
+      ? Math.round(node.recipeServings)
+      : parseServings(asString(node.recipeYield ?? node.recipe_yield)),
+    prep_time_minutes: prepTime,
+    cook_time_minutes: cookTime,
+    tags: [...names(node.tags), ...names(node.recipeCategory ?? node.recipe_category)],
+    ingredients,
+    steps,
+    source_url: asString(node.orgURL ?? node.org_url),
+    warnings,
+  };
+}
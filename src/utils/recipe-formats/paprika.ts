@@ -0,0 +1,59 @@
+import { gunzip, isGzip, type UnpackBudget } from '../zip.js';
+import {
+  asString,
+  isRecord,
+  normalizeStringList,
+  parseServings,
+  parseTimeText,
+  splitInstructions,
+} from '../recipe-text.js';
+import { emptyExportedRecipe, type ExportedRecipe } from './types.js';
+
+/**
+ * Paprika exports: `.paprikarecipes` is a zip of `.paprikarecipe` entries,
+ * each a gzipped JSON document. A single `.paprikarecipe` file is accepted too.
+ * Takes the documents (the archive's entries, or the single file) and unpacks
+ * them within `budget`.
+ */
+export function parsePaprikaExport(documents: Buffer[], budget: UnpackBudget): ExportedRecipe[] {
+  return documents.map((document) => {
+    const parsed: unknown = JSON.parse(
+      (isGzip(document) ? gunzip(document, budget) : document).toString('utf8')
+    );
+    return isRecord(parsed) ? parsePaprikaRecipe(parsed) : { ...emptyExportedRecipe(), warnings: ['Unreadable recipe entry'] };
+  });
+}
+
+function parsePaprikaRecipe(node: Record<string, unknown>): ExportedRecipe {
+  const warnings: string[] = [];
+  const imageUrl = asString(node.image_url);
+  if (!imageUrl && asString(node.photo_data)) {
+    warnings.push('Photo was not imported');
+  }
+
+  const totalTime = parseTimeText(node.total_time);
+  const prepTime = parseTimeText(node.prep_time);
+  let cookTime = parseTimeText(node.cook_time);
+  if (!prepTime && !cookTime && totalTime) {
+    cookTime = totalTime;
+  }
+
+  const directions = asString(node.directions);
+
+  return {
+    ...emptyExportedRecipe(),
+    title: asString(node.name),
+    description: asString(node.description),
+    notes: asString(node.notes),
+    servings: parseServings(asString(node.servings)),
+    prep_time_minutes: prepTime,
+    cook_time_minutes: cookTime,
+    tags: normalizeStringList(node.categories),
+    ingredients: normalizeStringList(asString(node.ingredients)),
+    steps: directions ? splitInstructions(directions) : [],
+    source_url: asString(node.source_url),
+    image_url: imageUrl,
+    author_name: asString(node.source),
+    warnings,
+  };
+}
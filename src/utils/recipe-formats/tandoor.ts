@@ -0,0 +1,68 @@
+import { formatQuantity } from '../quantity-format.js';
+import { asString, isRecord, sectionHeadingLine, splitInstructions } from '../recipe-text.js';
+import { emptyExportedRecipe, type ExportedRecipe } from './types.js';
+
+export const isTandoorRecipe = (node: Record<string, unknown>): boolean =>
+  Array.isArray(node.steps) &&
+  ('working_time' in node || 'waiting_time' in node || 'keywords' in node);
+
+const nameOf = (value: unknown): string | null =>
+  isRecord(value) ? asString(value.name) : asString(value);
+
+const positiveInt = (value: unknown): number | null =>
+  typeof value === 'number' && value > 0 ? Math.round(value) : null;
+
+function ingredientText(value: Record<string, unknown>): string | null {
+  const original = asString(value.original_text);
+  if (original) return original;
+
+  const amount = typeof value.amount === 'number' && value.amount > 0 && !value.no_amount
+    ? formatQuantity(value.amount)
+    : null;
+  const composed = [amount, nameOf(value.unit), nameOf(value.food)].filter(Boolean).join(' ');
+  const note = asString(value.note);
+  if (composed && note) return `${composed}, ${note}`;
+  return composed || note;
+}
+
+/**
+ * Tandoor recipe JSON (`recipe.json` inside each per-recipe zip of an export).
+ * Ingredients are attached to steps; they are flattened in step order.
+ */
+export function parseTandoorRecipe(node: Record<string, unknown>): ExportedRecipe {
+  const ingredients: string[] = [];
+  const steps: string[] = [];
+
+  for (const step of node.steps as unknown[]) {
+    if (!isRecord(step)) continue;
+
+    for (const ingredient of Array.isArray(step.ingredients) ? step.ingredients : []) {
+      if (!isRecord(ingredient)) continue;
+      const text = ingredientText(ingredient);
+      // Headers group the ingredients below them ("For the sauce")
+      if (text) ingredients.push(ingredient.is_header ? sectionHeadingLine(text) : text);
+    }
+
+    const instruction = asString(step.instruction) ?? asString(step.instructions);
+    if (instruction) {
+      const name = asString(step.name);
+      if (name) steps.push(sectionHeadingLine(name));
+      steps.push(...splitInstructions(instruction));
+    }
+  }
+
+  return {
+    ...emptyExportedRecipe(),
+    title: asString(node.name),
+    description: asString(node.description),
+    servings: positiveInt(node.servings),
+    prep_time_minutes: positiveInt(node.working_time),
+    cook_time_minutes: positiveInt(node.waiting_time),
+    tags: (Array.isArray(node.keywords) ? node.keywords : [])
+      .map(nameOf)
+      .filter((item): item is string => Boolean(item)),
+    ingredients,
+    steps,
+    source_url: asString(node.source_url),
+  };
+}
@@ -0,0 +1,57 @@
+export const RECIPE_EXPORT_FORMATS = [
+  'paprika',
+  'mealie',
+  'tandoor',
+  'copymethat',
+  'mastercook',
+  'mealmaster',
+] as const;
+
+export type RecipeExportFormat = typeof RECIPE_EXPORT_FORMATS[number];
+
+export const RECIPE_EXPORT_FORMAT_LABELS: Record<RecipeExportFormat, string> = {
+  paprika: 'Paprika',
+  mealie: 'Mealie',
+  tandoor: 'Tandoor',
+  copymethat: 'Copy Me That',
+  mastercook: 'MasterCook',
+  mealmaster: 'Meal-Master',
+};
+
+/**
+ * A recipe as read from another app's export, before it becomes an envelope
+ */
+export type ExportedRecipe = {
+  title: string | null;
+  description: string | null;
+  notes: string | null;
+  servings: number | null;
+  prep_time_minutes: number | null;
+  cook_time_minutes: number | null;
+  tags: string[];
+  cuisine: string | null;
+  ingredients: string[];
+  steps: string[];
+  source_url: string | null;
+  image_url: string | null;
+  author_name: string | null;
+  // Things in the export that could not be carried over
+  warnings: string[];
+};
+
+export const emptyExportedRecipe = (): ExportedRecipe => ({
+  title: null,
+  description: null,
+  notes: null,
+  servings: null,
+  prep_time_minutes: null,
+  cook_time_minutes: null,
+  tags: [],
+  cuisine: null,
+  ingredients: [],
+  steps: [],
+  source_url: null,
+  image_url: null,
+  author_name: null,
+  warnings: [],
+});
@@ -1,8 +1,11 @@
 import type { RecipeOwnership } from '../types/index.js';
+import { analyzeAllergens, type RecipeAllergens } from './allergens.js';
 
 export type RecipePayload<T extends { id: string | null }> = T & {
   ownership: RecipeOwnership;
   editable_recipe_id: string | null;
+  // Full recipes only; list items have no ingredients to read
+  allergens?: RecipeAllergens;
 };
 
 type OwnershipOptions = {
@@ -21,6 +24,9 @@ export const buildRecipeOwnership = (
   can_delete: options?.canDelete ?? isUserOwned,
 });
 
+const hasIngredientLines = (recipe: object): recipe is { ingredients: Array<{ raw_text: string }> } =>
+  Array.isArray((recipe as { ingredients?: unknown }).ingredients);
+
 export const withRecipeOwnership = <T extends { id: string | null }>(
   recipe: T,
   options: OwnershipOptions
@@ -39,5 +45,6 @@ export const withRecipeOwnership = <T extends { id: string | null }>(
     ...recipe,
     ownership: buildRecipeOwnership(options.isUserOwned, { canEdit, canDelete }),
     editable_recipe_id: editableRecipeId,
+    ...(hasIngredientLines(recipe) ? { allergens: analyzeAllergens(recipe.ingredients) } : {}),
   };
 };
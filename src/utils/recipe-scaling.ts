@@ -0,0 +1,75 @@
+import type { RecipeEnvelopeData } from '../schemas/envelope.js';
+import { splitIngredientLine } from './ingredient-parser.js';
+import { renderIngredientLine } from './quantity-format.js';
+
+type EnvelopeIngredient = RecipeEnvelopeData['ingredients'][number];
+
+export type ScaledIngredient = EnvelopeIngredient & {
+  quantity_max: number | null;
+  // raw_text keeps the original line; scaled_text is the re-rendered one
+  scaled_text: string;
+};
+
+export type ScaledRecipeData = Omit<RecipeEnvelopeData, 'ingredients'> & {
+  ingredients: ScaledIngredient[];
+};
+
+export type ScalingSummary = {
+  original_servings: number;
+  servings: number;
+  factor: number;
+};
+
+const roundQuantity = (value: number): number => Math.round(value * 1000) / 1000;
+
+/**
+ * Rescale ingredient quantities from the recipe's stored servings.
+ * Returns null when the recipe has no servings to scale from.
+ */
+export function scaleRecipeData(
+  recipe: RecipeEnvelopeData,
+  servings: number
+): { recipe: ScaledRecipeData; scaling: ScalingSummary } | null {
+  if (!recipe.servings) {
+    return null;
+  }
+
+  const factor = servings / recipe.servings;
+
+  const ingredients = recipe.ingredients.map((ingredient): ScaledIngredient => {
+    const parts = splitIngredientLine(ingredient.raw_text);
+    if (parts.quantity === null) {
+      return {
+        ...ingredient,
+        quantity_max: null,
+        scaled_text: ingredient.raw_text,
+      };
+    }
+
+    const scaledParts = {
+      ...parts,
+      quantity: roundQuantity(parts.quantity * factor),
+      quantity_max: parts.quantity_max !== null ? roundQuantity(parts.quantity_max * factor) : null,
+    };
+
+    return {
+      ...ingredient,
+      quantity: scaledParts.quantity,
+      quantity_max: scaledParts.quantity_max,
+      scaled_text: renderIngredientLine(scaledParts),
+    };
+  });
+
+  return {
+    recipe: {
+      ...recipe,
+      servings,
+      ingredients,
+    },
+    scaling: {
+      original_servings: recipe.servings,
+      servings,
+      factor: roundQuantity(factor),
+    },
+  };
+}
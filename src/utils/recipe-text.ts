@@ -0,0 +1,203 @@
+// Field parsers shared by the URL importer and the recipe-manager export importers
+
+export function splitInstructions(text: string): string[] {
+  const lines = text
+    .split(/\r?\n+/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+  if (lines.length > 1) {
+    return lines.map(stripLeadingNumber);
+  }
+
+  const sentences = text
+    .split(/(?<=[.!?])\s+(?=[A-Z0-9])/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+  if (sentences.length > 1) {
+    return sentences.map(stripLeadingNumber);
+  }
+
+  return text.trim() ? [stripLeadingNumber(text.trim())] : [];
+}
+
+export function stripLeadingNumber(text: string): string {
+  return text.replace(/^\s*\d+[\).:-]?\s*/, '').trim();
+}
+
+export function normalizeStringList(value: unknown): string[] {
+  if (!value) return [];
+  if (Array.isArray(value)) {
+    return value
+      .map((item) => (typeof item === 'string' ? item : null))
+      .filter((item): item is string => Boolean(item))
+      .map((item) => item.trim())
+      .filter(Boolean);
+  }
+  if (typeof value === 'string') {
+    return value
+      .split(/\r?\n+/)
+      .map((item) => item.trim())
+      .filter(Boolean);
+  }
+  return [];
+}
+
+export function parseServings(value: unknown): number | null {
+  if (typeof value === 'number' && Number.isFinite(value)) return Math.round(value);
+  if (typeof value === 'string') {
+    const match = value.match(/(\d+)\s*/);
+    if (match) return Number(match[1]);
+  }
+  if (Array.isArray(value) && value.length > 0) {
+    return parseServings(value[0]);
+  }
+  return null;
+}
+
+export function parseDurationToMinutes(value: unknown): number | null {
+  if (!value) return null;
+  if (typeof value === 'number' && Number.isFinite(value)) return Math.round(value);
+  if (typeof value !== 'string') return null;
+  const isoMatch = value.match(/P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?/);
+  if (isoMatch) {
+    const days = Number(isoMatch[1] ?? 0);
+    const hours = Number(isoMatch[2] ?? 0);
+    const minutes = Number(isoMatch[3] ?? 0);
+    return days * 24 * 60 + hours * 60 + minutes;
+  }
+  const numberMatch = value.match(/(\d+)/);
+  return numberMatch ? Number(numberMatch[1]) : null;
+}
+
+export function asString(value: unknown): string | null {
+  if (typeof value === 'string' && value.trim().length > 0) {
+    return value.trim();
+  }
+  return null;
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value && typeof value === 'object' && !Array.isArray(value));
+}
+
+export function truncate(value: string, max: number): string {
+  if (value.length <= max) return value;
+  return value.slice(0, max).trim();
+}
+
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<script[\s\S]*?<\/script>/gi, ' ')
+    .replace(/<style[\s\S]*?<\/style>/gi, ' ')
+    .replace(/<\/(p|div|section|article|h1|h2|h3|h4|h5|h6|li|br|tr|td)>/gi, '\n')
+    .replace(/<li[^>]*>/gi, '\n- ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/&amp;/gi, '&')
+    .replace(/&quot;/gi, '"')
+    .replace(/&#39;/gi, "'")
+    .replace(/&lt;/gi, '<')
+    .replace(/&gt;/gi, '>')
+    .replace(/\s+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+const TIME_UNIT_MINUTES: Array<[RegExp, number]> = [
+  [/^d/i, 24 * 60],
+  [/^h/i, 60],
+  [/^m/i, 1],
+];
+
+/**
+ * Minutes from free-form times as written by recipe apps: "1 hr 30 mins",
+ * "45 minutes", "1:30", "PT1H30M" or a bare number of minutes
+ */
+export function parseTimeText(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) && value > 0 ? Math.round(value) : null;
+  }
+  const text = asString(value);
+  if (!text) return null;
+
+  if (/^P(?:\d|T)/i.test(text)) {
+    return parseDurationToMinutes(text.toUpperCase()) || null;
+  }
+
+  const clock = text.match(/^(\d{1,2}):(\d{2})$/);
+  if (clock) {
+    return Number(clock[1]) * 60 + Number(clock[2]) || null;
+  }
+
+  let total = 0;
+  for (const match of text.matchAll(/(\d+(?:\.\d+)?)\s*(days?|d|hours?|hrs?|h|minutes?|mins?|m)\b/gi)) {
+    const unit = TIME_UNIT_MINUTES.find(([pattern]) => pattern.test(match[2]));
+    total += Number(match[1]) * (unit?.[1] ?? 0);
+  }
+  if (total > 0) {
+    return Math.round(total);
+  }
+
+  const bare = text.match(/^(\d+)$/);
+  return bare && Number(bare[1]) > 0 ? Number(bare[1]) : null;
+}
+
+export type SectionedLine = {
+  text: string;
+  section: string | null;
+};
+
+export const MAX_SECTION_LENGTH = 100;
+
+// "Make the glaze:" opens a step, not a section
+const STEP_VERB_PATTERN =
+  /^(add|assemble|bake|beat|blend|boil|bring|chill|chop|combine|cook|cover|cut|fold|fry|grill|heat|knead|let|make|melt|mix|place|pour|preheat|prepare|put|remove|roast|roll|season|serve|simmer|slice|spread|stir|top|transfer|whisk)\b/i;
+
+/**
+ * The section name when a line is a group heading rather than an item:
+ * "For the sauce:", "Frosting:", "## Filling" or "FOR THE DOUGH"
+ */
+export function parseSectionHeading(line: string): string | null {
+  const text = line.trim().replace(/^#+\s*/, '').replace(/^[*_]+|[*_]+$/g, '').trim();
+  if (!text || text.length > MAX_SECTION_LENGTH) return null;
+
+  // A longer line ending in a colon is more likely a step introducing a list
+  const words = text.replace(/:$/, '').split(/\s+/);
+  if (/:$/.test(text) && words.length <= 5 && !/^\d/.test(text) && !STEP_VERB_PATTERN.test(text)) {
+    return text.replace(/:$/, '').trim() || null;
+  }
+  if (/^for (the )?[a-z]/i.test(text) && words.length <= 5 && !/[.,;!?]$/.test(text)) {
+    return text;
+  }
+  // Markdown headings are marked as such by the source
+  if (/^#+\s/.test(line.trim()) && words.length <= 5 && !/[.;!?]$/.test(text)) {
+    return text.replace(/:$/, '').trim() || null;
+  }
+  return null;
+}
+
+// Headings travel inside flat ingredient/step lists as "<name>:" lines
+export const sectionHeadingLine = (section: string): string => `${section.replace(/:$/, '')}:`;
+
+/**
+ * Assign every item to the heading above it. Heading lines are dropped, as
+ * are headings with no items under them.
+ */
+export function groupSections(lines: string[]): SectionedLine[] {
+  const items: SectionedLine[] = [];
+  let section: string | null = null;
+
+  for (const line of lines) {
+    const heading = parseSectionHeading(line);
+    if (heading) {
+      section = heading;
+      continue;
+    }
+    const text = line.trim();
+    if (text) {
+      items.push({ text, section });
+    }
+  }
+  return items;
+}
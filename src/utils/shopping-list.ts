@@ -0,0 +1,205 @@
+import { AISLE_CATEGORIES, categorizeIngredient, type AisleCategory } from './aisles.js';
+import { parseIngredientLine, type CanonicalUnit } from './ingredient-parser.js';
+import { renderIngredientLine } from './quantity-format.js';
+import {
+  METRIC_UNITS,
+  UNIT_DEFINITIONS,
+  findIngredientDensity,
+  pickDisplayUnit,
+  roundConverted,
+  toBaseAmount,
+  type MeasurementSystem,
+  type UnitKind,
+} from './unit-conversion.js';
+
+export type ShoppingListSourceIngredient = {
+  recipe_id: string;
+  raw_text: string;
+};
+
+export type AggregatedShoppingItem = {
+  ingredient_name: string;
+  quantity: number | null;
+  unit: CanonicalUnit | null;
+  display_text: string;
+  aisle: AisleCategory;
+  source_recipe_ids: string[];
+};
+
+type GroupEntry = {
+  recipe_id: string;
+  quantity: number | null;
+  unit: CanonicalUnit | null;
+};
+
+type IngredientGroup = {
+  name: string;
+  entries: GroupEntry[];
+};
+
+// Descriptors that do not change what goes in the basket
+const IGNORED_DESCRIPTORS = new Set([
+  'fresh',
+  'large',
+  'medium',
+  'small',
+  'extra-large',
+  'chopped',
+  'minced',
+  'finely',
+  'roughly',
+  'organic',
+]);
+
+const PACKAGED_UNITS = new Set<CanonicalUnit>(['can', 'jar']);
+
+const singularize = (word: string): string => {
+  if (word.length <= 3 || /(?:ss|us|is)$/.test(word)) return word;
+  if (word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (/(?:oes|ches|shes|xes)$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith('s')) return word.slice(0, -1);
+  return word;
+};
+
+/**
+ * Key used to merge like ingredients: "2 large eggs" and "1 egg" share "egg"
+ */
+export function ingredientMergeKey(ingredientName: string): string {
+  const words = ingredientName
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, ' ')
+    .split(/\s+/)
+    .filter((word) => word && !IGNORED_DESCRIPTORS.has(word));
+
+  if (words.length === 0) return ingredientName.toLowerCase().trim();
+  words[words.length - 1] = singularize(words[words.length - 1]);
+  return words.join(' ');
+}
+
+const uniqueRecipeIds = (entries: GroupEntry[]): string[] =>
+  [...new Set(entries.map((entry) => entry.recipe_id))];
+
+const buildItem = (
+  name: string,
+  quantity: number | null,
+  unit: CanonicalUnit | null,
+  entries: GroupEntry[]
+): AggregatedShoppingItem => ({
+  ingredient_name: name,
+  quantity,
+  unit,
+  display_text: quantity === null
+    ? name
+    : renderIngredientLine({ quantity, quantity_max: null, unit, size_note: null, remainder: name }),
+  aisle: unit && PACKAGED_UNITS.has(unit) ? 'canned_jarred' : categorizeIngredient(name),
+  source_recipe_ids: uniqueRecipeIds(entries),
+});
+
+/**
+ * Sum weights and volumes for one ingredient. Volumes fold into weight when
+ * both appear and the ingredient density is known.
+ */
+const sumMeasured = (name: string, entries: GroupEntry[]): AggregatedShoppingItem[] => {
+  const totals: Record<UnitKind, { amount: number; entries: GroupEntry[] }> = {
+    volume: { amount: 0, entries: [] },
+    mass: { amount: 0, entries: [] },
+  };
+
+  for (const entry of entries) {
+    const base = toBaseAmount(entry.quantity ?? 0, entry.unit);
+    if (!base) continue;
+    totals[base.kind].amount += base.amount;
+    totals[base.kind].entries.push(entry);
+  }
+
+  const density = findIngredientDensity(name);
+  if (density && totals.volume.entries.length > 0 && totals.mass.entries.length > 0) {
+    totals.mass.amount += totals.volume.amount * density.density;
+    totals.mass.entries.push(...totals.volume.entries);
+    totals.volume = { amount: 0, entries: [] };
+  }
+
+  return (['mass', 'volume'] as const)
+    .filter((kind) => totals[kind].entries.length > 0)
+    .map((kind) => {
+      const { amount, entries: kindEntries } = totals[kind];
+      const units = new Set(kindEntries.map((entry) => entry.unit!));
+      const system: MeasurementSystem = [...units].some((unit) => METRIC_UNITS.has(unit))
+        ? 'metric'
+        : 'imperial';
+      // Keep the recipe's own unit when every line agrees on it
+      const unit = units.size === 1 && UNIT_DEFINITIONS[[...units][0]]?.kind === kind
+        ? [...units][0]
+        : pickDisplayUnit(kind, amount, system);
+      const quantity = roundConverted(amount / UNIT_DEFINITIONS[unit]!.base, system);
+      return buildItem(name, quantity, unit, kindEntries);
+    });
+};
+
+const aggregateGroup = (group: IngredientGroup): AggregatedShoppingItem[] => {
+  const measured: GroupEntry[] = [];
+  const counted = new Map<CanonicalUnit | null, GroupEntry[]>();
+  const unquantified: GroupEntry[] = [];
+
+  for (const entry of group.entries) {
+    if (entry.quantity === null) {
+      unquantified.push(entry);
+    } else if (entry.unit && UNIT_DEFINITIONS[entry.unit]) {
+      measured.push(entry);
+    } else {
+      const existing = counted.get(entry.unit) ?? [];
+      existing.push(entry);
+      counted.set(entry.unit, existing);
+    }
+  }
+
+  const items = sumMeasured(group.name, measured);
+  for (const [unit, entries] of counted) {
+    const quantity = entries.reduce((total, entry) => total + (entry.quantity ?? 0), 0);
+    items.push(buildItem(group.name, Math.round(quantity * 1000) / 1000, unit, entries));
+  }
+
+  // "salt to taste" only needs its own line when no recipe gave an amount
+  if (items.length === 0) {
+    items.push(buildItem(group.name, null, null, unquantified));
+  } else if (unquantified.length > 0) {
+    const ids = new Set(items[0].source_recipe_ids);
+    unquantified.forEach((entry) => ids.add(entry.recipe_id));
+    items[0].source_recipe_ids = [...ids];
+  }
+
+  return items;
+};
+
+/**
+ * Merge ingredient lines from several recipes into a shopping list, summing
+ * compatible units and ordering items by store aisle.
+ */
+export function aggregateShoppingList(
+  ingredients: ShoppingListSourceIngredient[]
+): AggregatedShoppingItem[] {
+  const groups = new Map<string, IngredientGroup>();
+
+  for (const ingredient of ingredients) {
+    const parsed = parseIngredientLine(ingredient.raw_text);
+    const name = parsed.ingredient_name ?? ingredient.raw_text.trim().toLowerCase();
+    if (!name) continue;
+
+    const key = ingredientMergeKey(name);
+    const group = groups.get(key) ?? { name, entries: [] };
+    group.entries.push({
+      recipe_id: ingredient.recipe_id,
+      // Shop for the top of a range ("2-3 cloves" buys 3)
+      quantity: parsed.quantity_max ?? parsed.quantity,
+      unit: parsed.unit,
+    });
+    groups.set(key, group);
+  }
+
+  return [...groups.values()]
+    .flatMap((group) => aggregateGroup(group))
+    .sort((a, b) =>
+      AISLE_CATEGORIES.indexOf(a.aisle) - AISLE_CATEGORIES.indexOf(b.aisle) ||
+      a.ingredient_name.localeCompare(b.ingredient_name)
+    );
+}
@@ -0,0 +1,278 @@
+import type { RecipeEnvelopeData } from '../schemas/envelope.js';
+import { splitIngredientLine, type CanonicalUnit, type IngredientLineParts } from './ingredient-parser.js';
+import { renderIngredientLine } from './quantity-format.js';
+
+export const MEASUREMENT_SYSTEMS = ['metric', 'imperial'] as const;
+
+export type MeasurementSystem = typeof MEASUREMENT_SYSTEMS[number];
+
+export type UnitKind = 'volume' | 'mass';
+
+// Base amounts are millilitres for volume and grams for mass
+export const UNIT_DEFINITIONS: Partial<Record<CanonicalUnit, { kind: UnitKind; base: number }>> = {
+  tsp: { kind: 'volume', base: 4.92892 },
+  tbsp: { kind: 'volume', base: 14.7868 },
+  cup: { kind: 'volume', base: 236.588 },
+  fl_oz: { kind: 'volume', base: 29.5735 },
+  pint: { kind: 'volume', base: 473.176 },
+  quart: { kind: 'volume', base: 946.353 },
+  gallon: { kind: 'volume', base: 3785.41 },
+  ml: { kind: 'volume', base: 1 },
+  l: { kind: 'volume', base: 1000 },
+  oz: { kind: 'mass', base: 28.3495 },
+  lb: { kind: 'mass', base: 453.592 },
+  g: { kind: 'mass', base: 1 },
+  kg: { kind: 'mass', base: 1000 },
+  mg: { kind: 'mass', base: 0.001 },
+};
+
+// Spoon measures are used on both sides of the Atlantic; leave them alone
+const SPOON_UNITS = new Set<CanonicalUnit>(['tsp', 'tbsp']);
+
+export const METRIC_UNITS = new Set<CanonicalUnit>(['ml', 'l', 'g', 'kg', 'mg']);
+
+type IngredientDensity = {
+  pattern: RegExp;
+  // grams per millilitre
+  density: number;
+  // dry goods are weighed in metric kitchens; liquids stay in ml
+  dry: boolean;
+};
+
+// Ordered most specific first: "brown sugar" must win over "sugar" and
+// "buttermilk" over "butter". Single words are bounded so "butternut",
+// "licorice" and "unsalted" do not match by accident.
+const INGREDIENT_DENSITIES: IngredientDensity[] = [
+  { pattern: /brown sugar/, density: 0.93, dry: true },
+  { pattern: /powdered sugar|icing sugar|confectioners/, density: 0.51, dry: true },
+  { pattern: /almond flour|almond meal/, density: 0.41, dry: true },
+  { pattern: /bread flour/, density: 0.54, dry: true },
+  { pattern: /whole wheat flour/, density: 0.51, dry: true },
+  { pattern: /peanut butter/, density: 1.1, dry: true },
+  { pattern: /\bbuttermilk\b/, density: 1.03, dry: false },
+  { pattern: /heavy cream|whipping cream|double cream/, density: 1.0, dry: false },
+  { pattern: /sour cream/, density: 1.03, dry: true },
+  { pattern: /rolled oats/, density: 0.38, dry: true },
+  { pattern: /breadcrumbs|bread crumbs|panko/, density: 0.25, dry: true },
+  { pattern: /grated cheese|\bparmesan\b/, density: 0.42, dry: true },
+  { pattern: /shredded cheese|\b(?:cheddar|mozzarella)\b/, density: 0.47, dry: true },
+  { pattern: /chocolate chips/, density: 0.72, dry: true },
+  { pattern: /baking soda|baking powder/, density: 0.9, dry: true },
+  { pattern: /cornstarch|corn starch|cornflour/, density: 0.54, dry: true },
+  { pattern: /\bflour\b/, density: 0.53, dry: true },
+  { pattern: /\bcocoa\b/, density: 0.42, dry: true },
+  { pattern: /\bsugar\b/, density: 0.85, dry: true },
+  { pattern: /\bbutter\b/, density: 0.96, dry: true },
+  { pattern: /\bhoney\b/, density: 1.42, dry: false },
+  { pattern: /maple syrup|\b(?:syrup|molasses)\b/, density: 1.33, dry: false },
+  { pattern: /\boil\b/, density: 0.92, dry: false },
+  { pattern: /\b(?:yogurt|yoghurt)\b/, density: 1.03, dry: true },
+  { pattern: /\b(?:milk|cream)\b/, density: 1.03, dry: false },
+  { pattern: /\b(?:water|stock|broth|juice|wine|vinegar)\b/, density: 1.0, dry: false },
+  { pattern: /\boats\b/, density: 0.38, dry: true },
+  { pattern: /\brice\b/, density: 0.8, dry: true },
+  { pattern: /\bsalt\b/, density: 1.2, dry: true },
+  { pattern: /\b(?:walnuts|pecans|almonds|nuts?)\b/, density: 0.5, dry: true },
+  { pattern: /\braisins\b/, density: 0.63, dry: true },
+];
+
+/**
+ * Approximate density for an ingredient name, if it is one we know
+ */
+export function findIngredientDensity(
+  ingredientName: string | null | undefined
+): { density: number; dry: boolean } | null {
+  if (!ingredientName) return null;
+  const normalized = ingredientName.toLowerCase();
+  const match = INGREDIENT_DENSITIES.find((entry) => entry.pattern.test(normalized));
+  return match ? { density: match.density, dry: match.dry } : null;
+}
+
+/**
+ * Convert a quantity to its base amount (ml or g); null for count units
+ */
+export function toBaseAmount(
+  quantity: number,
+  unit: CanonicalUnit | null
+): { kind: UnitKind; amount: number } | null {
+  const definition = unit ? UNIT_DEFINITIONS[unit] : undefined;
+  if (!definition) return null;
+  return { kind: definition.kind, amount: quantity * definition.base };
+}
+
+const pickMetricUnit = (kind: UnitKind, amount: number): CanonicalUnit => {
+  if (kind === 'mass') return amount >= 1000 ? 'kg' : 'g';
+  return amount >= 1000 ? 'l' : 'ml';
+};
+
+const pickImperialUnit = (kind: UnitKind, amount: number): CanonicalUnit => {
+  if (kind === 'mass') return amount >= UNIT_DEFINITIONS.lb!.base ? 'lb' : 'oz';
+  if (amount < UNIT_DEFINITIONS.tbsp!.base) return 'tsp';
+  if (amount < UNIT_DEFINITIONS.cup!.base / 4) return 'tbsp';
+  return 'cup';
+};
+
+/**
+ * Most readable unit for a base amount (ml or g) in the given system
+ */
+export function pickDisplayUnit(kind: UnitKind, amount: number, system: MeasurementSystem): CanonicalUnit {
+  return system === 'metric' ? pickMetricUnit(kind, amount) : pickImperialUnit(kind, amount);
+}
+
+/**
+ * Pick the target unit and return the multiplier from the source quantity
+ */
+const planConversion = (
+  quantity: number,
+  unit: CanonicalUnit,
+  ingredientName: string | null,
+  system: MeasurementSystem
+): { unit: CanonicalUnit; factor: number } | null => {
+  const base = toBaseAmount(quantity, unit);
+  if (!base || SPOON_UNITS.has(unit)) return null;
+  // Already written in the requested system
+  if (METRIC_UNITS.has(unit) === (system === 'metric')) return null;
+
+  const density = findIngredientDensity(ingredientName);
+  const definition = UNIT_DEFINITIONS[unit]!;
+  let kind = base.kind;
+  let amount = base.amount;
+  // multiplier from source base amount to target base amount (density hops)
+  let densityFactor = 1;
+
+  if (system === 'metric') {
+    if (kind === 'volume' && density?.dry) {
+      kind = 'mass';
+      densityFactor = density.density;
+      amount *= densityFactor;
+    }
+    const target = pickMetricUnit(kind, amount);
+    if (target === unit) return null;
+    return { unit: target, factor: (definition.base * densityFactor) / UNIT_DEFINITIONS[target]!.base };
+  }
+
+  if (kind === 'mass' && density) {
+    kind = 'volume';
+    densityFactor = 1 / density.density;
+    amount *= densityFactor;
+  }
+  const target = pickImperialUnit(kind, amount);
+  if (target === unit) return null;
+  return { unit: target, factor: (definition.base * densityFactor) / UNIT_DEFINITIONS[target]!.base };
+};
+
+const roundTo = (value: number, step: number): number => Math.round(value / step) * step;
+
+/**
+ * Round a converted amount: metric is rounded at render time, US amounts
+ * snap to kitchen fractions
+ */
+export function roundConverted(value: number, system: MeasurementSystem): number {
+  if (system === 'metric') return Math.round(value * 1000) / 1000;
+  if (value < 4) {
+    const eighths = Math.max(roundTo(value, 1 / 8), 1 / 8);
+    const thirds = Math.max(roundTo(value, 1 / 3), 1 / 3);
+    return Math.abs(thirds - value) < Math.abs(eighths - value) ? thirds : eighths;
+  }
+  if (value < 10) return roundTo(value, 0.25);
+  return Math.round(value);
+}
+
+/**
+ * Convert parsed ingredient parts into the requested measurement system.
+ * Count units ("2 cloves") and spoon measures are returned unchanged.
+ */
+export function convertIngredientParts(
+  parts: IngredientLineParts,
+  ingredientName: string | null,
+  system: MeasurementSystem
+): IngredientLineParts {
+  if (parts.quantity === null || !parts.unit) {
+    return parts;
+  }
+
+  const plan = planConversion(parts.quantity, parts.unit, ingredientName, system);
+  if (!plan) {
+    return parts;
+  }
+
+  return {
+    ...parts,
+    unit: plan.unit,
+    quantity: roundConverted(parts.quantity * plan.factor, system),
+    quantity_max: parts.quantity_max !== null
+      ? roundConverted(parts.quantity_max * plan.factor, system)
+      : null,
+  };
+}
+
+const TEMPERATURE_PATTERN = /(\d{2,3})(\s*(?:°|º|degrees?|deg\.?))?\s*(F|C|Fahrenheit|Celsius)\b/g;
+
+// Without a degree sign, only oven-range numbers count ("200 C", not "12 C")
+const MIN_BARE_TEMPERATURE = 90;
+
+/**
+ * Rewrite oven temperatures in free text ("350°F", "180 degrees C")
+ */
+export function convertTemperaturesInText(text: string, system: MeasurementSystem): string {
+  return text.replace(TEMPERATURE_PATTERN, (match, value: string, degreeSign: string | undefined, scale: string) => {
+    const degrees = Number(value);
+    if (!degreeSign && degrees < MIN_BARE_TEMPERATURE) return match;
+
+    const isFahrenheit = scale.toLowerCase().startsWith('f');
+
+    if (system === 'metric' && isFahrenheit) {
+      return `${roundTo(((degrees - 32) * 5) / 9, 5)}°C`;
+    }
+    if (system === 'imperial' && !isFahrenheit) {
+      const fahrenheit = (degrees * 9) / 5 + 32;
+      return `${roundTo(fahrenheit, fahrenheit >= 250 ? 25 : 5)}°F`;
+    }
+    return match;
+  });
+}
+
+type EnvelopeIngredient = RecipeEnvelopeData['ingredients'][number];
+type EnvelopeStep = RecipeEnvelopeData['steps'][number];
+
+export type ConvertedRecipeData = Omit<RecipeEnvelopeData, 'ingredients' | 'steps'> & {
+  // raw_text / instruction keep the original wording alongside the converted one
+  ingredients: Array<EnvelopeIngredient & { converted_text: string }>;
+  steps: Array<EnvelopeStep & { converted_instruction: string }>;
+  units: MeasurementSystem;
+};
+
+/**
+ * Render a recipe's ingredients and oven temperatures in metric or US units
+ */
+export function convertRecipeData(
+  recipe: RecipeEnvelopeData,
+  system: MeasurementSystem
+): ConvertedRecipeData {
+  const ingredients = recipe.ingredients.map((ingredient) => {
+    const parts = splitIngredientLine(ingredient.raw_text);
+    const converted = convertIngredientParts(parts, ingredient.ingredient_name ?? null, system);
+    if (converted === parts) {
+      return { ...ingredient, converted_text: ingredient.raw_text };
+    }
+
+    return {
+      ...ingredient,
+      quantity: converted.quantity,
+      unit: converted.unit,
+      converted_text: renderIngredientLine(converted),
+    };
+  });
+
+  const steps = recipe.steps.map((step) => ({
+    ...step,
+    converted_instruction: convertTemperaturesInText(step.instruction, system),
+  }));
+
+  return {
+    ...recipe,
+    ingredients,
+    steps,
+    units: system,
+  };
+}
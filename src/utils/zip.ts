@@ -0,0 +1,198 @@
+import zlib from 'zlib';
+import type { Writable } from 'stream';
+
+export type ZipEntry = {
+  name: string;
+  data: Buffer;
+};
+
+// Bytes that may still be unpacked; shared by every read of one upload so
+// nested archives cannot each claim the full allowance
+export type UnpackBudget = {
+  remaining: number;
+};
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+// Default cap on total unpacked size, guards against zip bombs
+const DEFAULT_MAX_UNPACKED_BYTES = 100 * 1024 * 1024;
+
+export const createUnpackBudget = (maxUnpackedBytes = DEFAULT_MAX_UNPACKED_BYTES): UnpackBudget => ({
+  remaining: maxUnpackedBytes,
+});
+
+const spendBudget = (budget: UnpackBudget, bytes: number): void => {
+  budget.remaining -= bytes;
+  if (budget.remaining < 0) {
+    throw new RangeError('Archive is too large once unpacked');
+  }
+};
+
+export const isZip = (buffer: Buffer): boolean =>
+  buffer.length >= 4 && buffer.readUInt32LE(0) === LOCAL_HEADER_SIGNATURE;
+
+export const isGzip = (buffer: Buffer): boolean =>
+  buffer.length >= 2 && buffer[0] === 0x1f && buffer[1] === 0x8b;
+
+/**
+ * Read the file entries of a zip archive (stored or deflated, no zip64 or
+ * encryption). Directories are skipped. Unpacked bytes are taken from
+ * `budget`.
+ */
+export function readZipEntries(buffer: Buffer, budget: UnpackBudget = createUnpackBudget()): ZipEntry[] {
+  let eocd = -1;
+  for (let offset = buffer.length - 22; offset >= Math.max(0, buffer.length - 22 - 0xffff); offset -= 1) {
+    if (buffer.readUInt32LE(offset) === EOCD_SIGNATURE) {
+      eocd = offset;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new Error('Not a zip archive');
+  }
+
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  let cursor = buffer.readUInt32LE(eocd + 16);
+  const entries: ZipEntry[] = [];
+
+  for (let index = 0; index < entryCount; index += 1) {
+    if (cursor + 46 > buffer.length || buffer.readUInt32LE(cursor) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('Corrupt zip central directory');
+    }
+
+    const method = buffer.readUInt16LE(cursor + 10);
+    const compressedSize = buffer.readUInt32LE(cursor + 20);
+    const nameLength = buffer.readUInt16LE(cursor + 28);
+    const extraLength = buffer.readUInt16LE(cursor + 30);
+    const commentLength = buffer.readUInt16LE(cursor + 32);
+    const localOffset = buffer.readUInt32LE(cursor + 42);
+    const name = buffer.toString('utf8', cursor + 46, cursor + 46 + nameLength);
+    cursor += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) {
+      continue;
+    }
+
+    if (localOffset + 30 > buffer.length || buffer.readUInt32LE(localOffset) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error('Corrupt zip entry');
+    }
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    const raw = buffer.subarray(dataStart, dataStart + compressedSize);
+
+    let data: Buffer;
+    if (method === METHOD_STORED) {
+      data = Buffer.from(raw);
+    } else if (method === METHOD_DEFLATE) {
+      data = zlib.inflateRawSync(raw, { maxOutputLength: Math.max(1, budget.remaining) });
+    } else {
+      throw new Error(`Unsupported zip compression method ${method}`);
+    }
+
+    spendBudget(budget, data.length);
+    entries.push({ name, data });
+  }
+
+  return entries;
+}
+
+export function gunzip(buffer: Buffer, budget: UnpackBudget = createUnpackBudget()): Buffer {
+  const data = zlib.gunzipSync(buffer, { maxOutputLength: Math.max(1, budget.remaining) });
+  spendBudget(budget, data.length);
+  return data;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n += 1) {
+    let c = n;
+    for (let k = 0; k < 8; k += 1) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Writes a zip archive entry by entry to a stream, so large exports are
+ * never held in memory whole. Entries are deflated; no zip64, so keep
+ * archives under 4 GB and 65535 entries.
+ */
+export class ZipWriter {
+  private offset = 0;
+  private centralDirectory: Buffer[] = [];
+  private entryCount = 0;
+
+  constructor(private readonly output: Writable) {}
+
+  async addFile(name: string, content: Buffer | string): Promise<void> {
+    const data = typeof content === 'string' ? Buffer.from(content, 'utf8') : content;
+    const compressed = zlib.deflateRawSync(data);
+    const fileName = Buffer.from(name, 'utf8');
+    const checksum = crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(LOCAL_HEADER_SIGNATURE, 0);
+    local.writeUInt16LE(20, 4); // version needed
+    local.writeUInt16LE(0x0800, 6); // UTF-8 names
+    local.writeUInt16LE(METHOD_DEFLATE, 8);
+    local.writeUInt32LE(checksum, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(fileName.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(CENTRAL_HEADER_SIGNATURE, 0);
+    central.writeUInt16LE(20, 4); // version made by
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(METHOD_DEFLATE, 10);
+    central.writeUInt32LE(checksum, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(fileName.length, 28);
+    central.writeUInt32LE(this.offset, 42);
+    this.centralDirectory.push(central, fileName);
+
+    await this.write(Buffer.concat([local, fileName, compressed]));
+    this.offset += local.length + fileName.length + compressed.length;
+    this.entryCount += 1;
+  }
+
+  async finish(): Promise<void> {
+    const directory = Buffer.concat(this.centralDirectory);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(EOCD_SIGNATURE, 0);
+    end.writeUInt16LE(this.entryCount, 8);
+    end.writeUInt16LE(this.entryCount, 10);
+    end.writeUInt32LE(directory.length, 12);
+    end.writeUInt32LE(this.offset, 16);
+    await this.write(Buffer.concat([directory, end]));
+  }
+
+  private async write(chunk: Buffer): Promise<void> {
+    if (!this.output.write(chunk)) {
+      // A closed stream never drains; the caller checks for disconnects
+      await new Promise<void>((resolve) => {
+        const done = () => {
+          this.output.removeListener('drain', done);
+          this.output.removeListener('close', done);
+          resolve();
+        };
+        this.output.once('drain', done);
+        this.output.once('close', done);
+      });
+    }
+  }
+}
@@ -0,0 +1,70 @@
+-- ============================================================================
+-- Shopping lists (aggregated ingredients across recipes)
+-- ============================================================================
+
+CREATE TABLE shopping_lists (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  recipe_ids uuid[] NOT NULL DEFAULT '{}',  -- recipes the list was built from
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE shopping_list_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  list_id uuid NOT NULL REFERENCES shopping_lists(id) ON DELETE CASCADE,
+  position int NOT NULL,
+  ingredient_name text NOT NULL,
+  quantity numeric,  -- NULL when no recipe gave an amount ("salt to taste")
+  unit text,
+  display_text text NOT NULL,
+  aisle text NOT NULL DEFAULT 'other' CHECK (aisle IN (
+    'produce', 'meat_seafood', 'dairy_eggs', 'bakery', 'pantry', 'spices',
+    'canned_jarred', 'condiments', 'frozen', 'beverages', 'other'
+  )),
+  source_recipe_ids uuid[] NOT NULL DEFAULT '{}',
+  is_checked boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- ============================================================================
+-- Row Level Security
+-- ============================================================================
+
+ALTER TABLE shopping_lists ENABLE ROW LEVEL SECURITY;
+ALTER TABLE shopping_list_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage own shopping lists" ON shopping_lists
+  FOR ALL USING (user_id = auth.uid());
+
+CREATE POLICY "Shopping list items follow list access" ON shopping_list_items
+  FOR ALL USING (
+    list_id IN (
+      SELECT id FROM shopping_lists
+      WHERE user_id = auth.uid()
+    )
+  );
+
+-- ============================================================================
+-- Indexes
+-- ============================================================================
+
+CREATE INDEX idx_shopping_lists_user_created
+  ON shopping_lists(user_id, created_at DESC);
+
+CREATE INDEX idx_shopping_list_items_list_id
+  ON shopping_list_items(list_id);
+
+-- ============================================================================
+-- Triggers
+-- ============================================================================
+
+CREATE TRIGGER update_shopping_lists_updated_at
+  BEFORE UPDATE ON shopping_lists
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_shopping_list_items_updated_at
+  BEFORE UPDATE ON shopping_list_items
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,45 @@
+-- ============================================================================
+-- Personal weekly meal planner
+-- ============================================================================
+-- One recipe per (user, date, meal_type) slot. Slots point at a recipe the
+-- user can see: an owned/saved recipe or a shared daily plan item's recipe.
+-- ============================================================================
+
+CREATE TABLE meal_plan_slots (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  plan_date date NOT NULL,
+  meal_type text NOT NULL CHECK (meal_type IN ('breakfast', 'lunch', 'dinner', 'dessert')),
+  recipe_id uuid NOT NULL REFERENCES recipes(id) ON DELETE CASCADE,
+  daily_plan_item_id uuid REFERENCES daily_meal_plan_items(id) ON DELETE SET NULL,
+  notes text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- ============================================================================
+-- Row Level Security
+-- ============================================================================
+
+ALTER TABLE meal_plan_slots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage own meal plan slots" ON meal_plan_slots
+  FOR ALL USING (user_id = auth.uid());
+
+-- ============================================================================
+-- Indexes
+-- ============================================================================
+
+CREATE UNIQUE INDEX idx_meal_plan_slots_user_date_meal
+  ON meal_plan_slots(user_id, plan_date, meal_type);
+
+CREATE INDEX idx_meal_plan_slots_recipe_id
+  ON meal_plan_slots(recipe_id);
+
+-- ============================================================================
+-- Triggers
+-- ============================================================================
+
+CREATE TRIGGER update_meal_plan_slots_updated_at
+  BEFORE UPDATE ON meal_plan_slots
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
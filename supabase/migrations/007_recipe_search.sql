@@ -0,0 +1,105 @@
+-- ============================================================================
+-- Full-text recipe search
+-- ============================================================================
+-- recipes.search_vector covers title, tags, cuisine, description, ingredient
+-- raw_text and step instructions. Child tables keep it fresh via triggers.
+-- ============================================================================
+
+ALTER TABLE recipes ADD COLUMN search_vector tsvector;
+
+-- Weights: title A, tags/cuisine/ingredients B, description C, steps D
+CREATE OR REPLACE FUNCTION compose_recipe_search_vector(
+  p_recipe_id uuid,
+  p_title text,
+  p_description text,
+  p_cuisine text,
+  p_tags text[]
+)
+RETURNS tsvector AS $$
+  SELECT
+    setweight(to_tsvector('english', coalesce(p_title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(array_to_string(p_tags, ' '), '') || ' ' || coalesce(p_cuisine, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce((
+      SELECT string_agg(i.raw_text, ' ') FROM recipe_ingredients i WHERE i.recipe_id = p_recipe_id
+    ), '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(p_description, '')), 'C') ||
+    setweight(to_tsvector('english', coalesce((
+      SELECT string_agg(s.instruction, ' ') FROM recipe_steps s WHERE s.recipe_id = p_recipe_id
+    ), '')), 'D');
+$$ LANGUAGE sql STABLE;
+
+-- Recipe row changes: recompute in place
+CREATE OR REPLACE FUNCTION update_recipe_search_vector()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.search_vector = compose_recipe_search_vector(NEW.id, NEW.title, NEW.description, NEW.cuisine, NEW.tags);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Ingredient / step changes: rebuild the parent recipe's vector
+CREATE OR REPLACE FUNCTION refresh_parent_recipe_search_vector()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE recipes r
+  SET search_vector = compose_recipe_search_vector(r.id, r.title, r.description, r.cuisine, r.tags)
+  WHERE r.id = COALESCE(NEW.recipe_id, OLD.recipe_id);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_recipes_search_vector
+  BEFORE INSERT OR UPDATE OF title, description, cuisine, tags ON recipes
+  FOR EACH ROW EXECUTE FUNCTION update_recipe_search_vector();
+
+CREATE TRIGGER refresh_recipe_search_vector_ingredients
+  AFTER INSERT OR UPDATE OR DELETE ON recipe_ingredients
+  FOR EACH ROW EXECUTE FUNCTION refresh_parent_recipe_search_vector();
+
+CREATE TRIGGER refresh_recipe_search_vector_steps
+  AFTER INSERT OR UPDATE OR DELETE ON recipe_steps
+  FOR EACH ROW EXECUTE FUNCTION refresh_parent_recipe_search_vector();
+
+-- Backfill existing recipes
+UPDATE recipes r
+SET search_vector = compose_recipe_search_vector(r.id, r.title, r.description, r.cuisine, r.tags);
+
+-- ============================================================================
+-- Indexes
+-- ============================================================================
+
+CREATE INDEX idx_recipes_search_vector ON recipes USING GIN(search_vector);
+
+-- ============================================================================
+-- Search function (ranked, paginated)
+-- ============================================================================
+-- Returns the user's recipes plus global feed recipes (user_id IS NULL).
+-- p_user_id NULL = feed only; p_include_feed false = user's recipes only.
+
+CREATE OR REPLACE FUNCTION search_recipes(
+  p_query text,
+  p_user_id uuid DEFAULT NULL,
+  p_include_feed boolean DEFAULT true,
+  p_limit int DEFAULT 20,
+  p_offset int DEFAULT 0
+)
+RETURNS TABLE (id uuid, rank real, total_count bigint) AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', p_query) AS q
+  ),
+  matches AS (
+    SELECT r.id, ts_rank(r.search_vector, query.q) AS rank, r.created_at
+    FROM recipes r, query
+    WHERE r.deleted_at IS NULL
+      AND r.search_vector @@ query.q
+      AND (
+        (p_user_id IS NOT NULL AND r.user_id = p_user_id)
+        OR (p_include_feed AND r.user_id IS NULL)
+      )
+  )
+  SELECT m.id, m.rank, count(*) OVER () AS total_count
+  FROM matches m
+  ORDER BY m.rank DESC, m.created_at DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,37 @@
+-- ============================================================================
+-- User pantry (ingredients on hand, used for "what can I cook" matching)
+-- ============================================================================
+
+CREATE TABLE pantry_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  ingredient_name text NOT NULL,  -- lowercased, e.g. "chickpeas"
+  quantity numeric,
+  unit text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- ============================================================================
+-- Row Level Security
+-- ============================================================================
+
+ALTER TABLE pantry_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage own pantry" ON pantry_items
+  FOR ALL USING (user_id = auth.uid());
+
+-- ============================================================================
+-- Indexes
+-- ============================================================================
+
+CREATE UNIQUE INDEX idx_pantry_items_user_name
+  ON pantry_items(user_id, ingredient_name);
+
+-- ============================================================================
+-- Triggers
+-- ============================================================================
+
+CREATE TRIGGER update_pantry_items_updated_at
+  BEFORE UPDATE ON pantry_items
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
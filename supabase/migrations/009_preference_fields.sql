@@ -0,0 +1,12 @@
+-- ============================================================================
+-- Extended user preferences (cooking profile and disliked cuisines)
+-- ============================================================================
+
+ALTER TABLE user_preferences
+  ADD COLUMN skill_level text CHECK (skill_level IN ('beginner', 'intermediate', 'advanced')),
+  ADD COLUMN max_total_time_minutes int CHECK (max_total_time_minutes > 0),
+  ADD COLUMN household_size int CHECK (household_size BETWEEN 1 AND 20),
+  ADD COLUMN disliked_cuisines text[] DEFAULT '{}';
+
+-- Free-form entries written before validation existed are canonicalized by
+-- the API on read and rewritten on the next update.
@@ -0,0 +1,46 @@
+-- ============================================================================
+-- Import job queue (async URL/image imports processed by a worker)
+-- ============================================================================
+
+ALTER TABLE import_jobs
+  ADD COLUMN next_attempt_at timestamptz NOT NULL DEFAULT now(),  -- pushed back on retry
+  ADD COLUMN locked_at timestamptz,                               -- set while a worker holds the job
+  ADD COLUMN completed_at timestamptz;
+
+-- ============================================================================
+-- Indexes
+-- ============================================================================
+
+CREATE INDEX idx_import_jobs_claimable
+  ON import_jobs(next_attempt_at)
+  WHERE status IN ('pending', 'processing');
+
+-- ============================================================================
+-- Claim jobs for a worker
+-- ============================================================================
+-- Marks up to p_limit due jobs as processing and returns them. SKIP LOCKED lets
+-- several workers run side by side without claiming the same row. Jobs stuck
+-- in processing longer than p_stale_after (worker crashed) are claimed again.
+
+CREATE OR REPLACE FUNCTION claim_import_jobs(
+  p_limit int DEFAULT 5,
+  p_stale_after interval DEFAULT interval '15 minutes'
+)
+RETURNS SETOF import_jobs AS $$
+  UPDATE import_jobs j
+  SET status = 'processing',
+      locked_at = now()
+  WHERE j.id IN (
+    SELECT id
+    FROM import_jobs
+    WHERE type IN ('url', 'image')
+      AND (
+        (status = 'pending' AND next_attempt_at <= now())
+        OR (status = 'processing' AND locked_at < now() - p_stale_after)
+      )
+    ORDER BY next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+$$ LANGUAGE sql VOLATILE;
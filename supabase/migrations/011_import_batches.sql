@@ -0,0 +1,41 @@
+-- ============================================================================
+-- Import batches (bulk URL imports fanned out into import_jobs)
+-- ============================================================================
+
+CREATE TABLE import_batches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  source text NOT NULL CHECK (source IN ('urls', 'bookmarks', 'text')),
+  submitted_count int NOT NULL DEFAULT 0,  -- URLs found in the request, after de-duplication
+  queued_count int NOT NULL DEFAULT 0,     -- URLs that became import_jobs
+  skipped jsonb NOT NULL DEFAULT '[]'::jsonb,  -- [{ url, reason }] for URLs not queued
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE import_jobs
+  ADD COLUMN batch_id uuid REFERENCES import_batches(id) ON DELETE SET NULL;
+
+-- ============================================================================
+-- Row Level Security
+-- ============================================================================
+
+ALTER TABLE import_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users see own import batches" ON import_batches
+  FOR ALL USING (user_id = auth.uid());
+
+-- ============================================================================
+-- Indexes
+-- ============================================================================
+
+CREATE INDEX idx_import_batches_user_created ON import_batches(user_id, created_at DESC);
+CREATE INDEX idx_import_jobs_batch ON import_jobs(batch_id) WHERE batch_id IS NOT NULL;
+
+-- ============================================================================
+-- Triggers
+-- ============================================================================
+
+CREATE TRIGGER update_import_batches_updated_at
+  BEFORE UPDATE ON import_batches
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
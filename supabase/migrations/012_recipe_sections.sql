@@ -0,0 +1,10 @@
+-- ============================================================================
+-- Ingredient and step sections ("For the sauce", "For the dough")
+-- ============================================================================
+-- Items of one section are consecutive by position; NULL means ungrouped.
+
+ALTER TABLE recipe_ingredients
+  ADD COLUMN section text CHECK (char_length(section) BETWEEN 1 AND 100);
+
+ALTER TABLE recipe_steps
+  ADD COLUMN section text CHECK (char_length(section) BETWEEN 1 AND 100);
@@ -0,0 +1,10 @@
+-- ============================================================================
+-- Computed nutrition facts per recipe
+-- ============================================================================
+-- Per-serving calories, macros, fiber, sugar and sodium computed by the API
+-- from the ingredients (see src/utils/nutrition.ts), with a confidence score
+-- and the ingredient lines it could not match. NULL until the recipe is next
+-- saved with ingredients.
+
+ALTER TABLE recipes
+  ADD COLUMN nutrition jsonb;
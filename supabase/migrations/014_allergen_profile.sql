@@ -0,0 +1,8 @@
+-- ============================================================================
+-- Allergen profile on user preferences
+-- ============================================================================
+-- Allergen groups (milk, egg, fish, shellfish, tree_nuts, peanuts, wheat, soy,
+-- sesame) the user must avoid. Recipes containing them carry per-user warnings.
+
+ALTER TABLE user_preferences
+  ADD COLUMN allergens text[] DEFAULT '{}';
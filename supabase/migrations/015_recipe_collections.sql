@@ -0,0 +1,120 @@
+-- ============================================================================
+-- Recipe collections (user folders of owned and feed recipes)
+-- ============================================================================
+-- A recipe can be in any number of collections. Collections and their recipes
+-- are ordered by `position`; a share_token makes a collection publicly
+-- readable, as recipe_shares does for single recipes.
+-- ============================================================================
+
+CREATE TABLE recipe_collections (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  description text CHECK (char_length(description) <= 500),
+  cover_image_url text,  -- NULL = first recipe image in the collection
+  position int NOT NULL DEFAULT 0,
+  share_token text UNIQUE,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE recipe_collection_items (
+  collection_id uuid NOT NULL REFERENCES recipe_collections(id) ON DELETE CASCADE,
+  recipe_id uuid NOT NULL REFERENCES recipes(id) ON DELETE CASCADE,
+  position int NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (collection_id, recipe_id)
+);
+
+-- ============================================================================
+-- Row Level Security
+-- ============================================================================
+
+ALTER TABLE recipe_collections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE recipe_collection_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage own collections" ON recipe_collections
+  FOR ALL USING (user_id = auth.uid());
+
+CREATE POLICY "Collection items follow collection access" ON recipe_collection_items
+  FOR ALL USING (
+    collection_id IN (
+      SELECT id FROM recipe_collections
+      WHERE user_id = auth.uid()
+    )
+  );
+
+-- ============================================================================
+-- Indexes
+-- ============================================================================
+
+CREATE INDEX idx_recipe_collections_user_position
+  ON recipe_collections(user_id, position);
+
+CREATE INDEX idx_recipe_collection_items_collection_position
+  ON recipe_collection_items(collection_id, position);
+
+CREATE INDEX idx_recipe_collection_items_recipe_id
+  ON recipe_collection_items(recipe_id);
+
+-- ============================================================================
+-- Triggers
+-- ============================================================================
+
+CREATE TRIGGER update_recipe_collections_updated_at
+  BEFORE UPDATE ON recipe_collections
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- Collection recipes (filtered, paginated)
+-- ============================================================================
+-- Recipes of a collection in collection order, skipping deleted recipes.
+-- NULL filters are ignored; tags and dietary labels match on any overlap.
+
+CREATE OR REPLACE FUNCTION list_collection_recipes(
+  p_collection_id uuid,
+  p_cuisines text[] DEFAULT NULL,
+  p_tags text[] DEFAULT NULL,
+  p_dietary_labels text[] DEFAULT NULL,
+  p_search text DEFAULT NULL,
+  p_limit int DEFAULT 20,
+  p_offset int DEFAULT 0
+)
+RETURNS TABLE (id uuid, total_count bigint) AS $$
+  SELECT r.id, count(*) OVER () AS total_count
+  FROM recipe_collection_items ci
+  JOIN recipes r ON r.id = ci.recipe_id
+  WHERE ci.collection_id = p_collection_id
+    AND r.deleted_at IS NULL
+    AND (p_cuisines IS NULL OR r.cuisine = ANY(p_cuisines))
+    AND (p_tags IS NULL OR r.tags && p_tags)
+    AND (p_dietary_labels IS NULL OR r.dietary_labels && p_dietary_labels)
+    AND (p_search IS NULL OR r.title ILIKE '%' || p_search || '%')
+  ORDER BY ci.position, ci.created_at
+  LIMIT p_limit
+  OFFSET p_offset;
+$$ LANGUAGE sql STABLE;
+
+-- Recipe count and the first recipe image (the default cover) per collection
+CREATE OR REPLACE FUNCTION summarize_collections(p_collection_ids uuid[])
+RETURNS TABLE (collection_id uuid, recipe_count bigint, first_image_url text) AS $$
+  SELECT
+    ci.collection_id,
+    count(*) AS recipe_count,
+    (
+      SELECT m.url
+      FROM recipe_collection_items ci2
+      JOIN recipes r2 ON r2.id = ci2.recipe_id
+      JOIN recipe_media m ON m.recipe_id = ci2.recipe_id
+      WHERE ci2.collection_id = ci.collection_id
+        AND r2.deleted_at IS NULL
+        AND m.media_type = 'image'
+      ORDER BY ci2.position, ci2.created_at, m.position
+      LIMIT 1
+    ) AS first_image_url
+  FROM recipe_collection_items ci
+  JOIN recipes r ON r.id = ci.recipe_id
+  WHERE ci.collection_id = ANY(p_collection_ids)
+    AND r.deleted_at IS NULL
+  GROUP BY ci.collection_id;
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,46 @@
+-- ============================================================================
+-- Recipe revisions (append-only edit history)
+-- ============================================================================
+-- Each row is a whatEat envelope of the recipe after a write. The recipe as it
+-- was before its first tracked edit is kept as the first revision, so the
+-- latest revision always matches the current recipe. restored_from is set
+-- when the write restored an earlier revision.
+-- ============================================================================
+
+CREATE TABLE recipe_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  recipe_id uuid NOT NULL REFERENCES recipes(id) ON DELETE CASCADE,
+  revision int NOT NULL CHECK (revision > 0),
+  envelope jsonb NOT NULL,
+  changed_fields text[] NOT NULL DEFAULT '{}',  -- compared with the previous revision
+  restored_from int,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (recipe_id, revision)
+);
+
+-- Revisions are never edited; they go away only with their recipe
+CREATE OR REPLACE FUNCTION prevent_recipe_revision_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'recipe_revisions is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER recipe_revisions_append_only
+  BEFORE UPDATE ON recipe_revisions
+  FOR EACH ROW EXECUTE FUNCTION prevent_recipe_revision_update();
+
+-- ============================================================================
+-- Row Level Security
+-- ============================================================================
+
+ALTER TABLE recipe_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users read revisions of own recipes" ON recipe_revisions
+  FOR SELECT USING (
+    recipe_id IN (
+      SELECT id FROM recipes
+      WHERE user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,136 @@
+-- ============================================================================
+-- Transactional recipe writes
+-- ============================================================================
+-- A recipe and its ingredients, steps and media are written in one function
+-- call, so a failure part-way rolls the whole write back instead of leaving a
+-- recipe without ingredients. Rows are passed as JSON in table column names;
+-- ingredient parsing, nutrition and dietary labels stay in the API.
+-- ============================================================================
+
+-- ============================================================================
+-- Child rows
+-- ============================================================================
+-- Replaces a recipe's ingredients, steps and media with the given rows. A NULL
+-- list is left untouched; an empty list clears it. recipe_id in the rows is
+-- ignored.
+
+CREATE OR REPLACE FUNCTION replace_recipe_children(
+  p_recipe_id uuid,
+  p_ingredients jsonb,
+  p_steps jsonb,
+  p_media jsonb
+)
+RETURNS void AS $$
+BEGIN
+  IF p_ingredients IS NOT NULL THEN
+    DELETE FROM recipe_ingredients WHERE recipe_id = p_recipe_id;
+    INSERT INTO recipe_ingredients (recipe_id, position, raw_text, quantity, unit, ingredient_name, section)
+    SELECT p_recipe_id, i.position, i.raw_text, i.quantity, i.unit, i.ingredient_name, i.section
+    FROM jsonb_populate_recordset(NULL::recipe_ingredients, p_ingredients) i;
+  END IF;
+
+  IF p_steps IS NOT NULL THEN
+    DELETE FROM recipe_steps WHERE recipe_id = p_recipe_id;
+    INSERT INTO recipe_steps (recipe_id, position, instruction, section)
+    SELECT p_recipe_id, s.position, s.instruction, s.section
+    FROM jsonb_populate_recordset(NULL::recipe_steps, p_steps) s;
+  END IF;
+
+  IF p_media IS NOT NULL THEN
+    DELETE FROM recipe_media WHERE recipe_id = p_recipe_id;
+    INSERT INTO recipe_media (recipe_id, position, media_type, url, storage_path, name, is_generated)
+    SELECT p_recipe_id, m.position, m.media_type, m.url, m.storage_path, m.name, COALESCE(m.is_generated, false)
+    FROM jsonb_populate_recordset(NULL::recipe_media, p_media) m;
+  END IF;
+END;
+$$ LANGUAGE plpgsql VOLATILE;
+
+-- ============================================================================
+-- Create recipe
+-- ============================================================================
+-- Inserts a recipe (new recipes, copies and generated feed recipes) with its
+-- child rows and returns it. p_recipe may carry the id to use.
+
+CREATE OR REPLACE FUNCTION create_recipe(
+  p_recipe jsonb,
+  p_ingredients jsonb DEFAULT '[]',
+  p_steps jsonb DEFAULT '[]',
+  p_media jsonb DEFAULT '[]'
+)
+RETURNS recipes AS $$
+DECLARE
+  v_recipe recipes;
+BEGIN
+  INSERT INTO recipes (
+    id, user_id, title, description, servings, calories, prep_time_minutes, cook_time_minutes,
+    tags, cuisine, dietary_labels, source_type, source_url, source_recipe_id, metadata, nutrition
+  )
+  SELECT
+    COALESCE(r.id, gen_random_uuid()), r.user_id, r.title, r.description, r.servings, r.calories,
+    r.prep_time_minutes, r.cook_time_minutes, COALESCE(r.tags, '{}'), r.cuisine,
+    COALESCE(r.dietary_labels, '{}'), COALESCE(r.source_type, 'manual'), r.source_url,
+    r.source_recipe_id, COALESCE(r.metadata, '{}'), r.nutrition
+  FROM jsonb_populate_record(NULL::recipes, p_recipe) r
+  RETURNING * INTO v_recipe;
+
+  PERFORM replace_recipe_children(v_recipe.id, p_ingredients, p_steps, p_media);
+
+  RETURN v_recipe;
+END;
+$$ LANGUAGE plpgsql VOLATILE;
+
+-- ============================================================================
+-- Update recipe
+-- ============================================================================
+-- Applies the columns present in p_changes (an explicit null clears a column)
+-- to a live recipe the user owns and replaces the given child lists. Raises
+-- no_data_found (P0002) when there is no such recipe. The row is locked, so
+-- concurrent updates of one recipe run one after the other.
+
+CREATE OR REPLACE FUNCTION update_recipe(
+  p_recipe_id uuid,
+  p_user_id uuid,
+  p_changes jsonb,
+  p_ingredients jsonb DEFAULT NULL,
+  p_steps jsonb DEFAULT NULL,
+  p_media jsonb DEFAULT NULL
+)
+RETURNS recipes AS $$
+DECLARE
+  v_recipe recipes;
+BEGIN
+  SELECT * INTO v_recipe
+  FROM recipes
+  WHERE id = p_recipe_id
+    AND user_id = p_user_id
+    AND deleted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Recipe not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  -- Columns missing from p_changes keep the stored values
+  v_recipe := jsonb_populate_record(v_recipe, p_changes);
+
+  UPDATE recipes
+  SET title = v_recipe.title,
+      description = v_recipe.description,
+      servings = v_recipe.servings,
+      calories = v_recipe.calories,
+      prep_time_minutes = v_recipe.prep_time_minutes,
+      cook_time_minutes = v_recipe.cook_time_minutes,
+      tags = v_recipe.tags,
+      cuisine = v_recipe.cuisine,
+      dietary_labels = v_recipe.dietary_labels,
+      metadata = v_recipe.metadata,
+      nutrition = v_recipe.nutrition,
+      updated_at = now()
+  WHERE id = p_recipe_id
+  RETURNING * INTO v_recipe;
+
+  PERFORM replace_recipe_children(p_recipe_id, p_ingredients, p_steps, p_media);
+
+  RETURN v_recipe;
+END;
+$$ LANGUAGE plpgsql VOLATILE;
@@ -0,0 +1,79 @@
+-- ============================================================================
+-- Conditional recipe updates (ETag / If-Match)
+-- ============================================================================
+-- A recipe's ETag is derived from its updated_at. update_recipe can be given
+-- the updated_at the client last saw and then refuses to write when the
+-- recipe has changed since. Revisions remember the recipe's updated_at, so a
+-- client's stale version can be found again to merge non-overlapping edits.
+-- ============================================================================
+
+ALTER TABLE recipe_revisions
+  ADD COLUMN recipe_updated_at timestamptz;  -- NULL for revisions recorded before this migration
+
+-- ============================================================================
+-- Indexes
+-- ============================================================================
+
+CREATE INDEX idx_recipe_revisions_recipe_updated_at
+  ON recipe_revisions(recipe_id, recipe_updated_at);
+
+-- ============================================================================
+-- Update recipe (with precondition)
+-- ============================================================================
+-- As in 017, plus p_expected_updated_at: when given and the recipe's
+-- updated_at differs, nothing is written and PT412 is raised.
+
+DROP FUNCTION update_recipe(uuid, uuid, jsonb, jsonb, jsonb, jsonb);
+
+CREATE OR REPLACE FUNCTION update_recipe(
+  p_recipe_id uuid,
+  p_user_id uuid,
+  p_changes jsonb,
+  p_ingredients jsonb DEFAULT NULL,
+  p_steps jsonb DEFAULT NULL,
+  p_media jsonb DEFAULT NULL,
+  p_expected_updated_at timestamptz DEFAULT NULL
+)
+RETURNS recipes AS $$
+DECLARE
+  v_recipe recipes;
+BEGIN
+  SELECT * INTO v_recipe
+  FROM recipes
+  WHERE id = p_recipe_id
+    AND user_id = p_user_id
+    AND deleted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Recipe not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF p_expected_updated_at IS NOT NULL AND v_recipe.updated_at IS DISTINCT FROM p_expected_updated_at THEN
+    RAISE EXCEPTION 'Recipe has changed' USING ERRCODE = 'PT412';
+  END IF;
+
+  -- Columns missing from p_changes keep the stored values
+  v_recipe := jsonb_populate_record(v_recipe, p_changes);
+
+  UPDATE recipes
+  SET title = v_recipe.title,
+      description = v_recipe.description,
+      servings = v_recipe.servings,
+      calories = v_recipe.calories,
+      prep_time_minutes = v_recipe.prep_time_minutes,
+      cook_time_minutes = v_recipe.cook_time_minutes,
+      tags = v_recipe.tags,
+      cuisine = v_recipe.cuisine,
+      dietary_labels = v_recipe.dietary_labels,
+      metadata = v_recipe.metadata,
+      nutrition = v_recipe.nutrition,
+      updated_at = now()
+  WHERE id = p_recipe_id
+  RETURNING * INTO v_recipe;
+
+  PERFORM replace_recipe_children(p_recipe_id, p_ingredients, p_steps, p_media);
+
+  RETURN v_recipe;
+END;
+$$ LANGUAGE plpgsql VOLATILE;
@@ -0,0 +1,157 @@
+-- ============================================================================
+-- Recipe trash (restore and scheduled purge)
+-- ============================================================================
+-- Deleting a recipe moves it to the trash (deleted_at) together with the
+-- user's save of it, so unsaving a recipe can be undone as well. Recipes stay
+-- restorable until the purge job hard-deletes them after the retention
+-- window; their shares go with them and stored files no other recipe uses
+-- are handed back to the API to remove from storage.
+-- ============================================================================
+
+ALTER TABLE recipe_saves
+  ADD COLUMN deleted_at timestamptz;  -- set while the saved copy is in the trash
+
+-- Purging a recipe must not be blocked by copies, saves, imports or legacy
+-- suggestions that point at it
+ALTER TABLE recipes
+  DROP CONSTRAINT recipes_source_recipe_id_fkey,
+  ADD CONSTRAINT recipes_source_recipe_id_fkey
+    FOREIGN KEY (source_recipe_id) REFERENCES recipes(id) ON DELETE SET NULL;
+
+ALTER TABLE recipe_saves
+  DROP CONSTRAINT recipe_saves_source_recipe_id_fkey,
+  ADD CONSTRAINT recipe_saves_source_recipe_id_fkey
+    FOREIGN KEY (source_recipe_id) REFERENCES recipes(id) ON DELETE SET NULL;
+
+ALTER TABLE import_jobs
+  DROP CONSTRAINT import_jobs_result_recipe_id_fkey,
+  ADD CONSTRAINT import_jobs_result_recipe_id_fkey
+    FOREIGN KEY (result_recipe_id) REFERENCES recipes(id) ON DELETE SET NULL;
+
+ALTER TABLE daily_suggestions
+  DROP CONSTRAINT daily_suggestions_saved_recipe_id_fkey,
+  ADD CONSTRAINT daily_suggestions_saved_recipe_id_fkey
+    FOREIGN KEY (saved_recipe_id) REFERENCES recipes(id) ON DELETE SET NULL;
+
+-- ============================================================================
+-- Indexes
+-- ============================================================================
+
+-- A suggestion can be saved again while an earlier save of it is in the trash
+DROP INDEX idx_recipe_saves_user_plan_item;
+
+CREATE UNIQUE INDEX idx_recipe_saves_user_plan_item
+  ON recipe_saves(user_id, daily_plan_item_id)
+  WHERE daily_plan_item_id IS NOT NULL AND deleted_at IS NULL;
+
+CREATE INDEX idx_recipes_user_deleted_at
+  ON recipes(user_id, deleted_at DESC)
+  WHERE deleted_at IS NOT NULL;
+
+-- ============================================================================
+-- Trash / restore
+-- ============================================================================
+-- Both return false when the user has no such recipe in the expected state.
+-- Restoring raises unique_violation (23505) when the suggestion the recipe
+-- was saved from has been saved again since.
+
+CREATE OR REPLACE FUNCTION trash_recipe(p_recipe_id uuid, p_user_id uuid)
+RETURNS boolean AS $$
+DECLARE
+  v_deleted_at timestamptz := now();
+BEGIN
+  UPDATE recipes
+  SET deleted_at = v_deleted_at
+  WHERE id = p_recipe_id
+    AND user_id = p_user_id
+    AND deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  UPDATE recipe_saves
+  SET deleted_at = v_deleted_at
+  WHERE recipe_id = p_recipe_id
+    AND user_id = p_user_id
+    AND deleted_at IS NULL;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql VOLATILE;
+
+CREATE OR REPLACE FUNCTION restore_recipe(p_recipe_id uuid, p_user_id uuid)
+RETURNS boolean AS $$
+BEGIN
+  UPDATE recipes
+  SET deleted_at = NULL
+  WHERE id = p_recipe_id
+    AND user_id = p_user_id
+    AND deleted_at IS NOT NULL;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  UPDATE recipe_saves
+  SET deleted_at = NULL
+  WHERE recipe_id = p_recipe_id
+    AND user_id = p_user_id
+    AND deleted_at IS NOT NULL;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql VOLATILE;
+
+-- ============================================================================
+-- Purge
+-- ============================================================================
+-- Hard-deletes up to p_limit recipes trashed before p_deleted_before (their
+-- ingredients, steps, media, saves, revisions and collection entries cascade)
+-- and revokes their shares. Returns each purged recipe with the storage paths
+-- of its media that no remaining recipe uses; copies share their source's
+-- files, so those are kept. SKIP LOCKED lets overlapping runs split the work.
+
+CREATE OR REPLACE FUNCTION purge_deleted_recipes(
+  p_deleted_before timestamptz,
+  p_limit int DEFAULT 100
+)
+RETURNS TABLE (purged_recipe_id uuid, orphaned_storage_paths text[]) AS $$
+DECLARE
+  v_recipe_ids uuid[];
+BEGIN
+  SELECT array_agg(doomed.id) INTO v_recipe_ids
+  FROM (
+    SELECT r.id
+    FROM recipes r
+    WHERE r.deleted_at < p_deleted_before
+    ORDER BY r.deleted_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  ) doomed;
+
+  IF v_recipe_ids IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    d.id,
+    COALESCE((
+      SELECT array_agg(DISTINCT m.storage_path)
+      FROM recipe_media m
+      WHERE m.recipe_id = d.id
+        AND m.storage_path IS NOT NULL
+        AND NOT EXISTS (
+          SELECT 1
+          FROM recipe_media other
+          WHERE other.storage_path = m.storage_path
+            AND other.recipe_id <> ALL(v_recipe_ids)
+        )
+    ), '{}')
+  FROM unnest(v_recipe_ids) AS d(id);
+
+  DELETE FROM recipe_shares s WHERE s.recipe_id = ANY(v_recipe_ids);
+  DELETE FROM recipes r WHERE r.id = ANY(v_recipe_ids);
+END;
+$$ LANGUAGE plpgsql VOLATILE;
@@ -0,0 +1,76 @@
+-- ============================================================================
+-- Cursor (keyset) pagination
+-- ============================================================================
+-- The feed, a user's recipes and their saves are paged by (created_at, id),
+-- newest first, so rows added while a client scrolls do not shift its pages.
+-- ============================================================================
+
+-- ============================================================================
+-- Indexes
+-- ============================================================================
+
+CREATE INDEX idx_recipes_feed_keyset
+  ON recipes(created_at DESC, id DESC)
+  WHERE user_id IS NULL AND deleted_at IS NULL;
+
+CREATE INDEX idx_recipes_user_keyset
+  ON recipes(user_id, created_at DESC, id DESC)
+  WHERE deleted_at IS NULL;
+
+CREATE INDEX idx_recipe_saves_user_keyset
+  ON recipe_saves(user_id, created_at DESC, id DESC)
+  WHERE deleted_at IS NULL;
+
+-- ============================================================================
+-- Saved recipes list
+-- ============================================================================
+-- A user's saves (keyed by save id and save time) merged with the recipes they
+-- own that are not saved copies (keyed by recipe id and creation time), newest
+-- first. Rows come after (p_after_saved_at, p_after_id) when given, else from
+-- p_offset. total_count is only computed when p_with_total is set.
+
+CREATE OR REPLACE FUNCTION list_recipe_saves(
+  p_user_id uuid,
+  p_after_saved_at timestamptz DEFAULT NULL,
+  p_after_id uuid DEFAULT NULL,
+  p_limit int DEFAULT 20,
+  p_offset int DEFAULT 0,
+  p_with_total boolean DEFAULT false
+)
+RETURNS TABLE (
+  item_id uuid,
+  recipe_id uuid,
+  is_saved boolean,
+  source_recipe_id uuid,
+  daily_plan_item_id uuid,
+  saved_at timestamptz,
+  total_count bigint
+) AS $$
+  WITH items AS (
+    SELECT s.id AS item_id, s.recipe_id, true AS is_saved, s.source_recipe_id, s.daily_plan_item_id, s.created_at AS saved_at
+    FROM recipe_saves s
+    JOIN recipes r ON r.id = s.recipe_id AND r.deleted_at IS NULL
+    WHERE s.user_id = p_user_id
+      AND s.deleted_at IS NULL
+    UNION ALL
+    SELECT r.id, r.id, false, NULL::uuid, NULL::uuid, r.created_at
+    FROM recipes r
+    WHERE r.user_id = p_user_id
+      AND r.deleted_at IS NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM recipe_saves s
+        WHERE s.recipe_id = r.id
+          AND s.user_id = p_user_id
+          AND s.deleted_at IS NULL
+      )
+  )
+  SELECT
+    i.item_id, i.recipe_id, i.is_saved, i.source_recipe_id, i.daily_plan_item_id, i.saved_at,
+    CASE WHEN p_with_total THEN (SELECT count(*) FROM items) END AS total_count
+  FROM items i
+  WHERE p_after_saved_at IS NULL
+    OR (i.saved_at, i.item_id) < (p_after_saved_at, p_after_id)
+  ORDER BY i.saved_at DESC, i.item_id DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,54 @@
+-- ============================================================================
+-- Atomic meal slot swap
+-- ============================================================================
+-- Swapping two filled slots exchanges their contents in one statement, with
+-- both rows locked, so a failed or concurrent move can never leave the same
+-- meal in two slots or drop one.
+-- ============================================================================
+
+-- Swaps the contents of p_slot_id with the slot at (p_date, p_meal_type) and
+-- returns both rows, the target slot first. Returns nothing when either slot
+-- is missing (e.g. moved or deleted concurrently).
+
+CREATE OR REPLACE FUNCTION swap_meal_plan_slots(
+  p_user_id uuid,
+  p_slot_id uuid,
+  p_date date,
+  p_meal_type text
+)
+RETURNS SETOF meal_plan_slots AS $$
+DECLARE
+  v_slot meal_plan_slots;
+  v_target meal_plan_slots;
+BEGIN
+  -- Lock in id order so opposite swaps of the same pair cannot deadlock
+  PERFORM 1
+  FROM meal_plan_slots
+  WHERE user_id = p_user_id
+    AND (id = p_slot_id OR (plan_date = p_date AND meal_type = p_meal_type))
+  ORDER BY id
+  FOR UPDATE;
+
+  SELECT * INTO v_slot
+  FROM meal_plan_slots
+  WHERE id = p_slot_id AND user_id = p_user_id;
+
+  SELECT * INTO v_target
+  FROM meal_plan_slots
+  WHERE user_id = p_user_id AND plan_date = p_date AND meal_type = p_meal_type
+  FOR UPDATE;
+
+  IF v_slot.id IS NULL OR v_target.id IS NULL OR v_slot.id = v_target.id THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  UPDATE meal_plan_slots s
+  SET
+    recipe_id = CASE WHEN s.id = v_slot.id THEN v_target.recipe_id ELSE v_slot.recipe_id END,
+    daily_plan_item_id = CASE WHEN s.id = v_slot.id THEN v_target.daily_plan_item_id ELSE v_slot.daily_plan_item_id END,
+    notes = CASE WHEN s.id = v_slot.id THEN v_target.notes ELSE v_slot.notes END
+  WHERE s.id IN (v_slot.id, v_target.id)
+  RETURNING s.*;
+END;
+$$ LANGUAGE plpgsql VOLATILE;
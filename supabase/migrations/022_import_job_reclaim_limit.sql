@@ -0,0 +1,55 @@
+-- ============================================================================
+-- Retry limit for reclaimed import jobs
+-- ============================================================================
+-- A job whose worker crashed or hung is reclaimed once it has been processing
+-- longer than p_stale_after. Reclaiming now counts as a retry, and a job that
+-- has used up p_max_retries is failed instead of being reclaimed again, so a
+-- job that keeps taking the worker down cannot loop forever.
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS claim_import_jobs(int, interval);
+
+CREATE OR REPLACE FUNCTION claim_import_jobs(
+  p_limit int DEFAULT 5,
+  p_stale_after interval DEFAULT interval '15 minutes',
+  p_max_retries int DEFAULT 3
+)
+RETURNS SETOF import_jobs AS $$
+BEGIN
+  UPDATE import_jobs j
+  SET status = 'failed',
+      retries = j.retries + 1,
+      error_message = 'Import stopped responding',
+      locked_at = NULL,
+      completed_at = now(),
+      metadata = COALESCE(j.metadata, '{}'::jsonb) || jsonb_build_object('error_code', 'IMPORT_STALLED')
+  WHERE j.id IN (
+    SELECT id
+    FROM import_jobs
+    WHERE type IN ('url', 'image')
+      AND status = 'processing'
+      AND locked_at < now() - p_stale_after
+      AND retries + 1 >= p_max_retries
+    FOR UPDATE SKIP LOCKED
+  );
+
+  RETURN QUERY
+  UPDATE import_jobs j
+  SET status = 'processing',
+      retries = CASE WHEN j.status = 'processing' THEN j.retries + 1 ELSE j.retries END,
+      locked_at = now()
+  WHERE j.id IN (
+    SELECT id
+    FROM import_jobs
+    WHERE type IN ('url', 'image')
+      AND (
+        (status = 'pending' AND next_attempt_at <= now())
+        OR (status = 'processing' AND locked_at < now() - p_stale_after)
+      )
+    ORDER BY next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+END;
+$$ LANGUAGE plpgsql VOLATILE;
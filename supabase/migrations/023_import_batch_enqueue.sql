@@ -0,0 +1,42 @@
+-- ============================================================================
+-- Transactional import batch enqueue
+-- ============================================================================
+-- A batch, its import jobs and the charge against the daily import allowance
+-- are written in one transaction: either every queued URL becomes a job and
+-- is counted, or nothing is written and the batch can be retried.
+-- ============================================================================
+
+-- Creates the batch with one 'url' job per entry of p_urls (batch_position
+-- follows the array order), adds them to today's (UTC) imports_count and
+-- returns the batch id.
+
+CREATE OR REPLACE FUNCTION enqueue_import_batch(
+  p_user_id uuid,
+  p_source text,
+  p_submitted_count int,
+  p_urls text[],
+  p_skipped jsonb DEFAULT '[]'::jsonb
+)
+RETURNS uuid AS $$
+DECLARE
+  v_batch_id uuid;
+  v_queued int := COALESCE(cardinality(p_urls), 0);
+BEGIN
+  INSERT INTO import_batches (user_id, source, submitted_count, queued_count, skipped)
+  VALUES (p_user_id, p_source, p_submitted_count, v_queued, p_skipped)
+  RETURNING id INTO v_batch_id;
+
+  INSERT INTO import_jobs (user_id, type, input_url, batch_id, metadata)
+  SELECT p_user_id, 'url', u.url, v_batch_id, jsonb_build_object('batch_position', u.position - 1)
+  FROM unnest(p_urls) WITH ORDINALITY AS u(url, position);
+
+  IF v_queued > 0 THEN
+    INSERT INTO usage_counters (user_id, date, imports_count)
+    VALUES (p_user_id, (now() AT TIME ZONE 'utc')::date, v_queued)
+    ON CONFLICT (user_id, date) DO UPDATE
+      SET imports_count = COALESCE(usage_counters.imports_count, 0) + EXCLUDED.imports_count;
+  END IF;
+
+  RETURN v_batch_id;
+END;
+$$ LANGUAGE plpgsql VOLATILE;
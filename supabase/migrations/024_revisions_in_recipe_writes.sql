@@ -0,0 +1,197 @@
+-- ============================================================================
+-- Record recipe revisions inside update_recipe
+-- ============================================================================
+-- Revisions used to be appended by the API after update_recipe had committed,
+-- numbered by reading the latest one. Two concurrent updates could then pick
+-- the same number, and a failed insert left an update without a revision.
+-- update_recipe now appends the revision itself, in the same transaction and
+-- while holding the recipe's row lock, so every update has exactly one
+-- revision and numbers follow the order of the writes.
+-- ============================================================================
+
+-- ============================================================================
+-- Recipe envelope
+-- ============================================================================
+-- The whatEat envelope of a stored recipe, as built by dbToEnvelope in
+-- src/schemas/envelope.ts. Envelopes of older versions are upgraded when
+-- read, so `version` only has to match the shape written here.
+
+CREATE OR REPLACE FUNCTION recipe_envelope(p_recipe_id uuid)
+RETURNS jsonb AS $$
+  SELECT jsonb_build_object(
+    'format', 'whatEat-recipe',
+    'version', 3,
+    'recipe', jsonb_build_object(
+      'id', r.id,
+      'title', r.title,
+      'description', r.description,
+      'servings', r.servings,
+      'calories', r.calories,
+      'prep_time_minutes', r.prep_time_minutes,
+      'cook_time_minutes', r.cook_time_minutes,
+      'tags', to_jsonb(COALESCE(r.tags, '{}')),
+      'cuisine', r.cuisine,
+      'dietary_labels', to_jsonb(COALESCE(r.dietary_labels, '{}')),
+      'source', jsonb_build_object('type', r.source_type, 'url', r.source_url, 'recipe_id', r.source_recipe_id),
+      'ingredients', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object(
+          'raw_text', i.raw_text,
+          'quantity', i.quantity,
+          'unit', i.unit,
+          'ingredient_name', i.ingredient_name,
+          'section', i.section
+        ) ORDER BY i.position)
+        FROM recipe_ingredients i
+        WHERE i.recipe_id = r.id
+      ), '[]'),
+      'steps', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('instruction', s.instruction, 'section', s.section) ORDER BY s.position)
+        FROM recipe_steps s
+        WHERE s.recipe_id = r.id
+      ), '[]'),
+      'media', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object(
+          'media_type', m.media_type,
+          'url', m.url,
+          'name', m.name,
+          'is_generated', m.is_generated
+        ) ORDER BY m.position)
+        FROM recipe_media m
+        WHERE m.recipe_id = r.id
+      ), '[]'),
+      'metadata', CASE WHEN jsonb_typeof(r.metadata) = 'object' THEN r.metadata ELSE '{}' END,
+      'nutrition', r.nutrition
+    )
+  )
+  FROM recipes r
+  WHERE r.id = p_recipe_id;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- Append a revision
+-- ============================================================================
+-- Appends the recipe's current state as its next revision, with the fields
+-- changed since the previous one (same fields and order as diffRecipes in
+-- src/utils/recipe-diff.ts). The caller must hold the recipe's row lock.
+
+CREATE OR REPLACE FUNCTION record_recipe_revision(
+  p_recipe_id uuid,
+  p_user_id uuid,
+  p_restored_from int DEFAULT NULL
+)
+RETURNS void AS $$
+DECLARE
+  v_latest recipe_revisions;
+  v_envelope jsonb := recipe_envelope(p_recipe_id);
+  v_changed text[] := '{}';
+BEGIN
+  SELECT * INTO v_latest
+  FROM recipe_revisions
+  WHERE recipe_id = p_recipe_id
+  ORDER BY revision DESC
+  LIMIT 1;
+
+  IF v_latest.id IS NOT NULL THEN
+    SELECT COALESCE(array_agg(f.field ORDER BY f.ord), '{}') INTO v_changed
+    FROM (
+      SELECT field, ord
+      FROM unnest(ARRAY[
+        'title', 'description', 'servings', 'calories', 'prep_time_minutes', 'cook_time_minutes',
+        'tags', 'cuisine', 'dietary_labels', 'metadata'
+      ]) WITH ORDINALITY AS fields(field, ord)
+      WHERE COALESCE(v_latest.envelope->'recipe'->field, 'null')
+        IS DISTINCT FROM COALESCE(v_envelope->'recipe'->field, 'null')
+      UNION ALL
+      SELECT list.field, 10 + list.ord
+      FROM (VALUES
+        ('ingredients', 1, 'raw_text'),
+        ('steps', 2, 'instruction'),
+        ('media', 3, 'url')
+      ) AS list(field, ord, text_key)
+      WHERE (
+        SELECT COALESCE(jsonb_agg(jsonb_build_array(e->text_key, CASE WHEN list.field = 'media' THEN 'null' ELSE COALESCE(e->'section', 'null') END) ORDER BY n), '[]')
+        FROM jsonb_array_elements(v_latest.envelope->'recipe'->list.field) WITH ORDINALITY AS item(e, n)
+      ) IS DISTINCT FROM (
+        SELECT COALESCE(jsonb_agg(jsonb_build_array(e->text_key, CASE WHEN list.field = 'media' THEN 'null' ELSE COALESCE(e->'section', 'null') END) ORDER BY n), '[]')
+        FROM jsonb_array_elements(v_envelope->'recipe'->list.field) WITH ORDINALITY AS item(e, n)
+      )
+    ) f;
+  END IF;
+
+  INSERT INTO recipe_revisions (
+    recipe_id, revision, envelope, changed_fields, restored_from, created_by, recipe_updated_at
+  )
+  SELECT
+    p_recipe_id, COALESCE(v_latest.revision, 0) + 1, v_envelope, v_changed, p_restored_from, p_user_id, r.updated_at
+  FROM recipes r
+  WHERE r.id = p_recipe_id;
+END;
+$$ LANGUAGE plpgsql VOLATILE;
+
+-- ============================================================================
+-- Update recipe (records revisions)
+-- ============================================================================
+-- As in 018, plus: a recipe's first update first records how it was before
+-- as revision 1, and every update appends the result as the next revision,
+-- with p_restored_from when the update restores an earlier revision.
+
+DROP FUNCTION update_recipe(uuid, uuid, jsonb, jsonb, jsonb, jsonb, timestamptz);
+
+CREATE OR REPLACE FUNCTION update_recipe(
+  p_recipe_id uuid,
+  p_user_id uuid,
+  p_changes jsonb,
+  p_ingredients jsonb DEFAULT NULL,
+  p_steps jsonb DEFAULT NULL,
+  p_media jsonb DEFAULT NULL,
+  p_expected_updated_at timestamptz DEFAULT NULL,
+  p_restored_from int DEFAULT NULL
+)
+RETURNS recipes AS $$
+DECLARE
+  v_recipe recipes;
+BEGIN
+  SELECT * INTO v_recipe
+  FROM recipes
+  WHERE id = p_recipe_id
+    AND user_id = p_user_id
+    AND deleted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Recipe not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF p_expected_updated_at IS NOT NULL AND v_recipe.updated_at IS DISTINCT FROM p_expected_updated_at THEN
+    RAISE EXCEPTION 'Recipe has changed' USING ERRCODE = 'PT412';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM recipe_revisions WHERE recipe_id = p_recipe_id) THEN
+    PERFORM record_recipe_revision(p_recipe_id, p_user_id, NULL);
+  END IF;
+
+  -- Columns missing from p_changes keep the stored values
+  v_recipe := jsonb_populate_record(v_recipe, p_changes);
+
+  UPDATE recipes
+  SET title = v_recipe.title,
+      description = v_recipe.description,
+      servings = v_recipe.servings,
+      calories = v_recipe.calories,
+      prep_time_minutes = v_recipe.prep_time_minutes,
+      cook_time_minutes = v_recipe.cook_time_minutes,
+      tags = v_recipe.tags,
+      cuisine = v_recipe.cuisine,
+      dietary_labels = v_recipe.dietary_labels,
+      metadata = v_recipe.metadata,
+      nutrition = v_recipe.nutrition,
+      updated_at = now()
+  WHERE id = p_recipe_id
+  RETURNING * INTO v_recipe;
+
+  PERFORM replace_recipe_children(p_recipe_id, p_ingredients, p_steps, p_media);
+  PERFORM record_recipe_revision(p_recipe_id, p_user_id, p_restored_from);
+
+  RETURN v_recipe;
+END;
+$$ LANGUAGE plpgsql VOLATILE;
@@ -0,0 +1,45 @@
+-- ============================================================================
+-- One live save per source recipe
+-- ============================================================================
+-- A user can save a recipe again while an earlier save of it is in the trash.
+-- Restoring the earlier copy must then be refused, or the user ends up with
+-- two live saves of the same recipe. restore_recipe already raises
+-- unique_violation (23505) for plan item saves; this index does the same for
+-- the source recipe.
+-- ============================================================================
+
+-- Saves already duplicated by such a restore: keep the newest, move the
+-- others to the trash together with their copies
+WITH duplicates AS (
+  SELECT id, recipe_id
+  FROM (
+    SELECT
+      id,
+      recipe_id,
+      row_number() OVER (PARTITION BY user_id, source_recipe_id ORDER BY created_at DESC, id DESC) AS rank
+    FROM recipe_saves
+    WHERE source_recipe_id IS NOT NULL
+      AND deleted_at IS NULL
+  ) ranked
+  WHERE rank > 1
+),
+trashed_saves AS (
+  UPDATE recipe_saves s
+  SET deleted_at = now()
+  FROM duplicates d
+  WHERE s.id = d.id
+  RETURNING s.recipe_id
+)
+UPDATE recipes r
+SET deleted_at = now()
+FROM trashed_saves t
+WHERE r.id = t.recipe_id
+  AND r.deleted_at IS NULL;
+
+-- ============================================================================
+-- Indexes
+-- ============================================================================
+
+CREATE UNIQUE INDEX idx_recipe_saves_user_source_live
+  ON recipe_saves(user_id, source_recipe_id)
+  WHERE source_recipe_id IS NOT NULL AND deleted_at IS NULL;
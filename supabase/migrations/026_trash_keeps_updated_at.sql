@@ -0,0 +1,17 @@
+-- ============================================================================
+-- Trash and restore leave updated_at alone
+-- ============================================================================
+-- Moving a recipe to the trash and back used to bump updated_at through the
+-- row trigger without recording a revision. A client editing across a
+-- trash/restore then sent an If-Match that no longer matched, and the merge
+-- path found no revision for it. Only deleted_at changes now, so the recipe
+-- comes back with the ETag and revision chain it had.
+-- ============================================================================
+
+DROP TRIGGER update_recipes_updated_at ON recipes;
+
+CREATE TRIGGER update_recipes_updated_at
+  BEFORE UPDATE ON recipes
+  FOR EACH ROW
+  WHEN (OLD.deleted_at IS NOT DISTINCT FROM NEW.deleted_at)
+  EXECUTE FUNCTION update_updated_at_column();
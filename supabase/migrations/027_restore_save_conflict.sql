@@ -0,0 +1,49 @@
+-- ============================================================================
+-- Refuse restoring a save that has been saved again
+-- ============================================================================
+-- restore_recipe relied on the unique indexes over live saves to refuse a
+-- restore when the recipe or suggestion the trashed save came from has been
+-- saved again, which surfaced as a bare unique_violation. It now checks for
+-- such a save first and raises PT409 with a message the API can pass on.
+-- The unique violation remains as the backstop for a concurrent save.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION restore_recipe(p_recipe_id uuid, p_user_id uuid)
+RETURNS boolean AS $$
+BEGIN
+  UPDATE recipes
+  SET deleted_at = NULL
+  WHERE id = p_recipe_id
+    AND user_id = p_user_id
+    AND deleted_at IS NOT NULL;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM recipe_saves trashed
+    JOIN recipe_saves live
+      ON live.user_id = trashed.user_id
+      AND live.deleted_at IS NULL
+      AND (
+        live.source_recipe_id = trashed.source_recipe_id
+        OR live.daily_plan_item_id = trashed.daily_plan_item_id
+      )
+    WHERE trashed.recipe_id = p_recipe_id
+      AND trashed.user_id = p_user_id
+      AND trashed.deleted_at IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Recipe has been saved again' USING ERRCODE = 'PT409';
+  END IF;
+
+  UPDATE recipe_saves
+  SET deleted_at = NULL
+  WHERE recipe_id = p_recipe_id
+    AND user_id = p_user_id
+    AND deleted_at IS NOT NULL;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql VOLATILE;
@@ -0,0 +1,69 @@
+-- ============================================================================
+-- Refresh recipe search vectors once per statement
+-- ============================================================================
+-- The ingredient and step triggers from 007 fired for every row and rebuilt
+-- the whole recipe's vector each time. create_recipe and update_recipe write
+-- all of a recipe's ingredient and step rows at once, so a save did work
+-- quadratic in their number. The triggers now run once per statement and
+-- rebuild each affected recipe once, from the transition tables.
+-- ============================================================================
+
+DROP TRIGGER refresh_recipe_search_vector_ingredients ON recipe_ingredients;
+DROP TRIGGER refresh_recipe_search_vector_steps ON recipe_steps;
+DROP FUNCTION refresh_parent_recipe_search_vector();
+
+-- Transition tables exist only for the events that define them, so each
+-- branch reads just the ones its trigger declares
+CREATE OR REPLACE FUNCTION refresh_parent_recipe_search_vectors()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE recipes r
+    SET search_vector = compose_recipe_search_vector(r.id, r.title, r.description, r.cuisine, r.tags)
+    WHERE r.id IN (SELECT recipe_id FROM new_rows);
+  ELSIF TG_OP = 'DELETE' THEN
+    UPDATE recipes r
+    SET search_vector = compose_recipe_search_vector(r.id, r.title, r.description, r.cuisine, r.tags)
+    WHERE r.id IN (SELECT recipe_id FROM old_rows);
+  ELSE
+    UPDATE recipes r
+    SET search_vector = compose_recipe_search_vector(r.id, r.title, r.description, r.cuisine, r.tags)
+    WHERE r.id IN (SELECT recipe_id FROM new_rows UNION SELECT recipe_id FROM old_rows);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- Triggers
+-- ============================================================================
+
+CREATE TRIGGER refresh_recipe_search_vector_ingredients_insert
+  AFTER INSERT ON recipe_ingredients
+  REFERENCING NEW TABLE AS new_rows
+  FOR EACH STATEMENT EXECUTE FUNCTION refresh_parent_recipe_search_vectors();
+
+CREATE TRIGGER refresh_recipe_search_vector_ingredients_update
+  AFTER UPDATE ON recipe_ingredients
+  REFERENCING OLD TABLE AS old_rows NEW TABLE AS new_rows
+  FOR EACH STATEMENT EXECUTE FUNCTION refresh_parent_recipe_search_vectors();
+
+CREATE TRIGGER refresh_recipe_search_vector_ingredients_delete
+  AFTER DELETE ON recipe_ingredients
+  REFERENCING OLD TABLE AS old_rows
+  FOR EACH STATEMENT EXECUTE FUNCTION refresh_parent_recipe_search_vectors();
+
+CREATE TRIGGER refresh_recipe_search_vector_steps_insert
+  AFTER INSERT ON recipe_steps
+  REFERENCING NEW TABLE AS new_rows
+  FOR EACH STATEMENT EXECUTE FUNCTION refresh_parent_recipe_search_vectors();
+
+CREATE TRIGGER refresh_recipe_search_vector_steps_update
+  AFTER UPDATE ON recipe_steps
+  REFERENCING OLD TABLE AS old_rows NEW TABLE AS new_rows
+  FOR EACH STATEMENT EXECUTE FUNCTION refresh_parent_recipe_search_vectors();
+
+CREATE TRIGGER refresh_recipe_search_vector_steps_delete
+  AFTER DELETE ON recipe_steps
+  REFERENCING OLD TABLE AS old_rows
+  FOR EACH STATEMENT EXECUTE FUNCTION refresh_parent_recipe_search_vectors();